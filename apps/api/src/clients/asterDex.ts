@@ -1,10 +1,25 @@
 import axios, { type AxiosInstance, type AxiosRequestConfig } from 'axios';
 import { AbiCoder, SigningKey, concat, getBytes, keccak256, toUtf8Bytes } from 'ethers';
+import {
+  positionKey,
+  type ExchangeBalance,
+  type ExchangeConnector,
+  type ExchangeFill,
+  type ExchangeFillQuery,
+  type ExchangeIncome,
+  type ExchangeIncomeQuery,
+  type ExchangeIncomeType,
+  type ExchangePosition,
+  type ExchangePositionSide,
+} from './exchangeConnector';
 
 const DEFAULT_FUTURES_BASE_URL = 'https://fapi.asterdex.com';
 const DEFAULT_SPOT_BASE_URL = 'https://api.asterdex.com';
 const DEFAULT_TIMEOUT_MS = 15_000;
 const DEFAULT_RECV_WINDOW_MS = 5_000;
+// userTrades and income only accept 7 day windows and return at most 1000 rows per call
+const HISTORY_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+const HISTORY_PAGE_LIMIT = 1000;
 const abiCoder = AbiCoder.defaultAbiCoder();
 
 type SecurityType = 'NONE' | 'MARKET_DATA' | 'TRADE' | 'USER_DATA' | 'USER_STREAM';
@@ -19,26 +34,9 @@ export interface AsterDexClientConfig {
   recvWindowMs?: number;
 }
 
-export interface AsterDexPosition {
-  id: string;
-  market: string;
-  symbol?: string;
-  asset?: string;
-  size: number; // signed base asset amount; >0 long, <0 short
-  entryPrice: number;
-  leverage?: number;
-  notionalUsd?: number;
-  collateralUsd?: number;
-  accountId?: string;
-  openedAt?: string;
-  productType?: 'spot' | 'perpetual';
-  markPrice?: number;
-  positionSide?: 'BOTH' | 'LONG' | 'SHORT';
-}
-
 interface PositionsResponse {
-  positions?: AsterDexPosition[];
-  data?: { positions?: AsterDexPosition[] };
+  positions?: FuturesPositionRaw[];
+  data?: { positions?: FuturesPositionRaw[] };
 }
 
 interface FuturesPositionRaw {
@@ -50,11 +48,44 @@ interface FuturesPositionRaw {
   notional?: string;
   notionalValue?: string;
   markPrice?: string;
-  positionSide?: 'BOTH' | 'LONG' | 'SHORT';
+  positionSide?: ExchangePositionSide;
   updateTime?: number;
   accountId?: string;
 }
 
+interface UserTradeRaw {
+  id: number | string;
+  orderId: number | string;
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  positionSide?: ExchangePositionSide;
+  price: string;
+  qty: string;
+  quoteQty?: string;
+  realizedPnl?: string;
+  commission?: string;
+  commissionAsset?: string;
+  maker?: boolean;
+  time: number;
+}
+
+interface IncomeRaw {
+  symbol?: string;
+  incomeType: string;
+  income: string;
+  asset: string;
+  time: number;
+  tranId?: number | string;
+  tradeId?: number | string;
+}
+
+interface BalanceRaw {
+  asset: string;
+  balance: string;
+  availableBalance?: string;
+  crossUnPnl?: string;
+}
+
 interface SignedRequestOptions {
   method: 'GET' | 'POST' | 'PUT' | 'DELETE';
   path: string;
@@ -63,7 +94,15 @@ interface SignedRequestOptions {
   securityType?: SecurityType;
 }
 
-export class AsterDexClient {
+const INCOME_TYPES: Record<string, ExchangeIncomeType> = {
+  FUNDING_FEE: 'FUNDING_FEE',
+  COMMISSION: 'COMMISSION',
+  REALIZED_PNL: 'REALIZED_PNL',
+  TRANSFER: 'TRANSFER',
+};
+
+export class AsterDexClient implements ExchangeConnector {
+  readonly exchange = 'asterdex' as const;
   private readonly futuresHttp: AxiosInstance;
   private readonly spotHttp: AxiosInstance;
   private readonly userAddress: string;
@@ -93,12 +132,7 @@ export class AsterDexClient {
     });
   }
 
-  async fetchOpenPositions(): Promise<AsterDexPosition[]> {
-    const futures = await this.fetchFuturesPositions();
-    return futures;
-  }
-
-  private async fetchFuturesPositions(): Promise<AsterDexPosition[]> {
+  async fetchOpenPositions(): Promise<ExchangePosition[]> {
     try {
       const res = await this.request<FuturesPositionRaw[] | PositionsResponse>({
         method: 'GET',
@@ -107,10 +141,9 @@ export class AsterDexClient {
         securityType: 'USER_DATA',
       });
 
-      const rawPositions = this.normalizePositionsResponse<FuturesPositionRaw>(res);
-      return rawPositions
+      return this.normalizePositionsResponse(res)
         .map((raw) => this.mapFuturesPosition(raw))
-        .filter((pos): pos is AsterDexPosition => Boolean(pos));
+        .filter((pos): pos is ExchangePosition => Boolean(pos));
     } catch (err) {
       if (axios.isAxiosError(err) && err.response?.status === 404) {
         // Endpoint returning 404 simply means no active positions for the signer
@@ -120,7 +153,159 @@ export class AsterDexClient {
     }
   }
 
-  private mapFuturesPosition(raw: FuturesPositionRaw): AsterDexPosition | null {
+  async fetchFills(query: ExchangeFillQuery): Promise<ExchangeFill[]> {
+    if (query.afterId) return this.fetchFillsAfter(query.symbol, query.afterId, query.endTime);
+
+    const fills: ExchangeFill[] = [];
+    let windowStart = query.startTime ?? query.endTime - HISTORY_WINDOW_MS;
+    while (windowStart < query.endTime) {
+      const windowEnd = Math.min(windowStart + HISTORY_WINDOW_MS - 1, query.endTime);
+      const batch = await this.fetchUserTrades({
+        symbol: query.symbol,
+        startTime: windowStart,
+        endTime: windowEnd,
+        limit: HISTORY_PAGE_LIMIT,
+      });
+      fills.push(...batch);
+      if (batch.length >= HISTORY_PAGE_LIMIT) {
+        // A full page can end partway through a millisecond; continue by fill id so fills sharing it are kept
+        fills.push(...(await this.fetchFillsAfter(query.symbol, batch[batch.length - 1].id, query.endTime)));
+        break;
+      }
+      windowStart = windowEnd + 1;
+    }
+    return fills;
+  }
+
+  async fetchIncome(query: ExchangeIncomeQuery): Promise<ExchangeIncome[]> {
+    const incomes: ExchangeIncome[] = [];
+    const seen = new Set<string>();
+    let windowStart = query.startTime;
+    while (windowStart < query.endTime) {
+      const windowEnd = Math.min(windowStart + HISTORY_WINDOW_MS - 1, query.endTime);
+      const rows = await this.request<IncomeRaw[]>({
+        method: 'GET',
+        path: '/fapi/v3/income',
+        base: 'futures',
+        securityType: 'USER_DATA',
+        params: {
+          symbol: query.symbol,
+          incomeType: query.type,
+          startTime: windowStart,
+          endTime: windowEnd,
+          limit: HISTORY_PAGE_LIMIT,
+        },
+      });
+      const batch = Array.isArray(rows) ? rows.map((raw) => this.mapIncome(raw)) : [];
+      batch.sort((a, b) => a.time - b.time);
+      const fresh = batch.filter((income) => !seen.has(income.id));
+      for (const income of fresh) seen.add(income.id);
+      incomes.push(...fresh);
+      // A full page is re-read from its last millisecond, which may hold more records than fit on it
+      windowStart =
+        batch.length >= HISTORY_PAGE_LIMIT
+          ? batch[batch.length - 1].time + (fresh.length > 0 ? 0 : 1)
+          : windowEnd + 1;
+    }
+    return incomes;
+  }
+
+  async fetchBalances(): Promise<ExchangeBalance[]> {
+    const rows = await this.request<BalanceRaw[]>({
+      method: 'GET',
+      path: '/fapi/v3/balance',
+      base: 'futures',
+      securityType: 'USER_DATA',
+    });
+    if (!Array.isArray(rows)) return [];
+    return rows.map((raw) => ({
+      asset: raw.asset,
+      balance: Number(raw.balance) || 0,
+      availableBalance: Number(raw.availableBalance ?? raw.balance) || 0,
+      unrealizedPnl: raw.crossUnPnl != null ? Number(raw.crossUnPnl) || 0 : undefined,
+    }));
+  }
+
+  private async fetchFillsAfter(symbol: string, afterId: string, endTime: number): Promise<ExchangeFill[]> {
+    const fills: ExchangeFill[] = [];
+    let after = BigInt(afterId);
+    for (;;) {
+      const batch = await this.fetchUserTrades({
+        symbol,
+        fromId: (after + 1n).toString(),
+        limit: HISTORY_PAGE_LIMIT,
+      });
+      const fresh = batch.filter((fill) => BigInt(fill.id) > after);
+      const inRange = fresh.filter((fill) => fill.time <= endTime);
+      fills.push(...inRange);
+      if (batch.length < HISTORY_PAGE_LIMIT || fresh.length === 0 || inRange.length < fresh.length) break;
+      after = BigInt(fresh[fresh.length - 1].id);
+    }
+    return fills;
+  }
+
+  private async fetchUserTrades(params: {
+    symbol: string;
+    startTime?: number;
+    endTime?: number;
+    fromId?: string;
+    limit: number;
+  }): Promise<ExchangeFill[]> {
+    const rows = await this.request<UserTradeRaw[]>({
+      method: 'GET',
+      path: '/fapi/v3/userTrades',
+      base: 'futures',
+      securityType: 'USER_DATA',
+      params,
+    });
+
+    if (!Array.isArray(rows)) return [];
+    return rows
+      .map((raw) => this.mapUserTrade(raw))
+      .filter((fill): fill is ExchangeFill => Boolean(fill))
+      .sort((a, b) => a.time - b.time || Number(a.id) - Number(b.id));
+  }
+
+  private mapUserTrade(raw: UserTradeRaw): ExchangeFill | null {
+    const price = Number(raw.price);
+    const qty = Number(raw.qty);
+    if (!Number.isFinite(price) || price <= 0) return null;
+    if (!Number.isFinite(qty) || qty <= 0) return null;
+
+    const quoteQty = raw.quoteQty ? Number(raw.quoteQty) : price * qty;
+    const realizedPnl = raw.realizedPnl ? Number(raw.realizedPnl) : 0;
+    const commission = raw.commission ? Number(raw.commission) : 0;
+
+    return {
+      id: String(raw.id),
+      orderId: String(raw.orderId),
+      symbol: raw.symbol,
+      side: raw.side,
+      positionSide: raw.positionSide ?? 'BOTH',
+      price,
+      qty,
+      quoteQty: Number.isFinite(quoteQty) ? quoteQty : price * qty,
+      realizedPnl: Number.isFinite(realizedPnl) ? realizedPnl : 0,
+      commission: Number.isFinite(commission) ? Math.abs(commission) : 0,
+      commissionAsset: raw.commissionAsset,
+      maker: raw.maker,
+      time: raw.time,
+    };
+  }
+
+  private mapIncome(raw: IncomeRaw): ExchangeIncome {
+    const amount = Number(raw.income);
+    return {
+      id: String(raw.tranId ?? `${raw.incomeType}:${raw.symbol ?? ''}:${raw.time}`),
+      symbol: raw.symbol || undefined,
+      type: INCOME_TYPES[raw.incomeType] ?? 'OTHER',
+      amount: Number.isFinite(amount) ? amount : 0,
+      asset: raw.asset,
+      time: raw.time,
+    };
+  }
+
+  private mapFuturesPosition(raw: FuturesPositionRaw): ExchangePosition | null {
     const size = Number(raw.positionAmt);
     if (!Number.isFinite(size) || size === 0) return null;
 
@@ -133,14 +318,12 @@ export class AsterDexClient {
     const collateralUsd = raw.isolatedMargin ? Number(raw.isolatedMargin) : undefined;
     const markPrice = raw.markPrice ? Number(raw.markPrice) : undefined;
 
-    const id = `${raw.symbol}:${raw.positionSide ?? 'BOTH'}`;
+    const positionSide = raw.positionSide ?? 'BOTH';
     const openedAt = raw.updateTime ? new Date(raw.updateTime).toISOString() : undefined;
 
     return {
-      id,
-      market: raw.symbol,
+      id: positionKey(raw.symbol, positionSide),
       symbol: raw.symbol,
-      asset: raw.symbol,
       size,
       entryPrice,
       leverage: Number.isFinite(leverage ?? NaN) ? leverage : undefined,
@@ -150,14 +333,14 @@ export class AsterDexClient {
       openedAt,
       productType: 'perpetual',
       markPrice: Number.isFinite(markPrice ?? NaN) ? markPrice : undefined,
-      positionSide: raw.positionSide,
+      positionSide,
     };
   }
 
-  private normalizePositionsResponse<T>(res: FuturesPositionRaw[] | PositionsResponse): T[] {
-    if (Array.isArray(res)) return res as T[];
-    if (Array.isArray(res.positions)) return res.positions as T[];
-    if (Array.isArray(res.data?.positions)) return res.data.positions as T[];
+  private normalizePositionsResponse(res: FuturesPositionRaw[] | PositionsResponse): FuturesPositionRaw[] {
+    if (Array.isArray(res)) return res;
+    if (Array.isArray(res.positions)) return res.positions;
+    if (Array.isArray(res.data?.positions)) return res.data.positions;
     return [];
   }
 
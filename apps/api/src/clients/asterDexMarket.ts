@@ -0,0 +1,39 @@
+import axios, { type AxiosInstance } from 'axios';
+
+const DEFAULT_FUTURES_BASE_URL = 'https://fapi.asterdex.com';
+const DEFAULT_TIMEOUT_MS = 10_000;
+
+export interface AsterDexMarketClientConfig {
+  futuresBaseURL?: string;
+  timeoutMs?: number;
+}
+
+interface PremiumIndexRaw {
+  symbol: string;
+  markPrice: string;
+}
+
+/** Unauthenticated AsterDex market data; needs no user credentials. */
+export class AsterDexMarketClient {
+  readonly id = 'asterdex' as const;
+  private readonly http: AxiosInstance;
+
+  constructor(config: AsterDexMarketClientConfig = {}) {
+    this.http = axios.create({
+      baseURL: (config.futuresBaseURL ?? DEFAULT_FUTURES_BASE_URL).replace(/\/$/, ''),
+      timeout: config.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+    });
+  }
+
+  /** Mark prices for every listed perpetual, keyed by symbol (e.g. `BTCUSDT`). */
+  async fetchMarkPrices(): Promise<Map<string, number>> {
+    const { data } = await this.http.get<PremiumIndexRaw[] | PremiumIndexRaw>('/fapi/v1/premiumIndex');
+    const rows = Array.isArray(data) ? data : [data];
+    const prices = new Map<string, number>();
+    for (const row of rows) {
+      const price = Number(row.markPrice);
+      if (row.symbol && Number.isFinite(price) && price > 0) prices.set(row.symbol.toUpperCase(), price);
+    }
+    return prices;
+  }
+}
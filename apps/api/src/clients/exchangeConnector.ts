@@ -0,0 +1,90 @@
+export const EXCHANGE_IDS = ['asterdex'] as const;
+export type ExchangeId = (typeof EXCHANGE_IDS)[number];
+
+export type ExchangePositionSide = 'BOTH' | 'LONG' | 'SHORT';
+
+export interface ExchangePosition {
+  /** Stable key for the open position on its market, see `positionKey`. */
+  id: string;
+  symbol: string;
+  size: number; // signed base asset amount; >0 long, <0 short
+  entryPrice: number;
+  leverage?: number;
+  notionalUsd?: number;
+  collateralUsd?: number;
+  accountId?: string;
+  openedAt?: string;
+  productType?: 'spot' | 'perpetual';
+  markPrice?: number;
+  positionSide: ExchangePositionSide;
+}
+
+export interface ExchangeFill {
+  id: string;
+  orderId: string;
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  positionSide: ExchangePositionSide;
+  price: number;
+  qty: number;
+  quoteQty: number;
+  realizedPnl: number;
+  commission: number;
+  commissionAsset?: string;
+  maker?: boolean;
+  time: number;
+}
+
+export interface ExchangeFillQuery {
+  symbol: string;
+  /** Return only fills after this exchange fill id (exclusive); takes precedence over startTime. */
+  afterId?: string;
+  startTime?: number;
+  endTime: number;
+}
+
+export type ExchangeIncomeType = 'FUNDING_FEE' | 'COMMISSION' | 'REALIZED_PNL' | 'TRANSFER' | 'OTHER';
+
+export interface ExchangeIncome {
+  id: string;
+  symbol?: string;
+  type: ExchangeIncomeType;
+  /** Signed amount credited to the account; negative values are payments. */
+  amount: number;
+  asset: string;
+  time: number;
+}
+
+export interface ExchangeIncomeQuery {
+  type?: ExchangeIncomeType;
+  symbol?: string;
+  startTime: number;
+  endTime: number;
+}
+
+export interface ExchangeBalance {
+  asset: string;
+  balance: number;
+  availableBalance: number;
+  unrealizedPnl?: number;
+}
+
+/**
+ * Read-only account access for a futures exchange. Implementations hide paging and request
+ * windows: every fetch returns the complete, time-ordered result for the query.
+ */
+export interface ExchangeConnector {
+  readonly exchange: ExchangeId;
+  fetchOpenPositions(): Promise<ExchangePosition[]>;
+  fetchFills(query: ExchangeFillQuery): Promise<ExchangeFill[]>;
+  fetchIncome(query: ExchangeIncomeQuery): Promise<ExchangeIncome[]>;
+  fetchBalances(): Promise<ExchangeBalance[]>;
+}
+
+export function positionKey(symbol: string, positionSide: ExchangePositionSide): string {
+  return `${symbol}:${positionSide}`;
+}
+
+export function symbolOfPositionKey(key: string): string {
+  return key.split(':')[0];
+}
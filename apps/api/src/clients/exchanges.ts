@@ -0,0 +1,63 @@
+import { computeAddress } from 'ethers';
+import { z } from 'zod';
+import { loadApiEnv } from '@services/config/src/env';
+import { AsterDexClient } from './asterDex';
+import type { ExchangeConnector, ExchangeId } from './exchangeConnector';
+
+export type ExchangeCredentials = Record<string, string>;
+
+export interface ExchangeAdapter {
+  id: ExchangeId;
+  name: string;
+  /** Validates the credential set submitted when a user connects an account. */
+  credentialsSchema: z.ZodType<ExchangeCredentials>;
+  /** Credential fields encrypted at rest; the others are stored in clear and shown to the user. */
+  secretFields: string[];
+  createConnector(credentials: ExchangeCredentials): ExchangeConnector;
+}
+
+const AddressSchema = z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Must be a 0x-prefixed wallet address');
+
+function signerMatchesKey(signerAddress: string, privateKey: string): boolean {
+  try {
+    return computeAddress(privateKey).toLowerCase() === signerAddress.toLowerCase();
+  } catch {
+    // Malformed keys are reported by the field regex
+    return true;
+  }
+}
+
+const asterDexAdapter: ExchangeAdapter = {
+  id: 'asterdex',
+  name: 'Aster DEX',
+  credentialsSchema: z
+    .object({
+      userAddress: AddressSchema.transform((v) => v.toLowerCase()),
+      signerAddress: AddressSchema.transform((v) => v.toLowerCase()),
+      signerPrivateKey: z.string().regex(/^0x[a-fA-F0-9]{64}$/, 'Must be a 0x-prefixed 32 byte hex key'),
+    })
+    .refine((data) => signerMatchesKey(data.signerAddress, data.signerPrivateKey), {
+      message: 'Private key does not belong to the signer address',
+      path: ['signerPrivateKey'],
+    }),
+  secretFields: ['signerPrivateKey'],
+  createConnector(credentials) {
+    const env = loadApiEnv();
+    return new AsterDexClient({
+      futuresBaseURL: env.ASTERDEX_BASE_URL,
+      spotBaseURL: env.ASTERDEX_SPOT_BASE_URL,
+      recvWindowMs: env.ASTERDEX_RECV_WINDOW_MS,
+      userAddress: credentials.userAddress,
+      signerAddress: credentials.signerAddress,
+      signerPrivateKey: credentials.signerPrivateKey,
+    });
+  },
+};
+
+const adapters: Record<ExchangeId, ExchangeAdapter> = {
+  asterdex: asterDexAdapter,
+};
+
+export function getExchangeAdapter(exchange: ExchangeId): ExchangeAdapter {
+  return adapters[exchange];
+}
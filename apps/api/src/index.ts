@@ -9,7 +9,23 @@ import authGuard from './plugins/authGuard';
 import cookie from '@fastify/cookie';
 import { registerUserRoutes } from './routes/users';
 import { registerIntegrationRoutes } from './routes/integrations';
-import { AsterDexSyncService } from './services/asterDexSync';
+import { registerMeRoutes } from './routes/me';
+import { registerCatalogRoutes } from './routes/catalog';
+import { registerAlertRoutes } from './routes/alerts';
+import { ExchangeSyncManager } from './services/exchangeSyncManager';
+import { CredentialCipher } from './services/credentialCipher';
+import { PriceProvider } from './services/priceProvider';
+import { AlertEngine, DEFAULT_ALERT_CHECK_INTERVAL_MS } from './services/alertEngine';
+import {
+  backfillInitialRisk,
+  backfillLegIds,
+  backfillStopLossHistory,
+  backfillTradeStats,
+  migrateCommentTextIndex,
+} from './services/tradeQuery';
+import { DEFAULT_TRASH_RETENTION_DAYS, TrashPurgeJob } from './services/tradeTrash';
+import { DigestJob } from './services/tradeDigest';
+import { AsterDexMarketClient } from './clients/asterDexMarket';
 
 dotenv.config();
 
@@ -23,6 +39,13 @@ async function bootstrap() {
   await app.register(cors, { origin, credentials: true });
 
   await connectMongo(env.MONGODB_URI);
+  await migrateCommentTextIndex(app.log);
+  // Backfills that read revision history go before backfillTradeStats, whose saves run the
+  // trade hooks on every legacy trade
+  await backfillLegIds(app.log);
+  await backfillInitialRisk(app.log);
+  await backfillStopLossHistory(app.log);
+  await backfillTradeStats(app.log);
 
   // Single JWT instance; set different expirations at sign time in routes
   await app.register(jwt, {
@@ -72,50 +95,69 @@ async function bootstrap() {
     });
   });
 
+  // Mark prices for unrealized PnL of active trades (public market data, no credentials)
+  app.priceProvider = new PriceProvider(
+    [new AsterDexMarketClient({ futuresBaseURL: env.ASTERDEX_BASE_URL })],
+    { cacheTtlMs: env.MARK_PRICE_CACHE_TTL_MS ?? 15_000 },
+    app.log,
+  );
+
+  const trashPurge = new TrashPurgeJob(
+    { retentionDays: env.TRASH_RETENTION_DAYS ?? DEFAULT_TRASH_RETENTION_DAYS },
+    app.log,
+  );
+  trashPurge.start();
+  app.addHook('onClose', async () => {
+    trashPurge.stop();
+  });
+
+  const alertEngine = new AlertEngine(
+    { intervalMs: env.ALERT_CHECK_INTERVAL_MS ?? DEFAULT_ALERT_CHECK_INTERVAL_MS },
+    app.priceProvider,
+    app.log,
+  );
+  alertEngine.start();
+  app.addHook('onClose', async () => {
+    alertEngine.stop();
+  });
+
+  const digestJob = new DigestJob(app.log);
+  digestJob.start();
+  app.addHook('onClose', async () => {
+    digestJob.stop();
+  });
+
   // Routes
   await registerAuthRoutes(app);
   await registerUserRoutes(app);
   const { registerTradeRoutes } = await import('./routes/trades');
   await registerTradeRoutes(app);
   await registerIntegrationRoutes(app);
+  await registerMeRoutes(app);
+  await registerCatalogRoutes(app);
+  await registerAlertRoutes(app);
 
-  if (env.ASTERDEX_ENABLED) {
-    const missing: string[] = [];
-    if (!env.ASTERDEX_USER_ID) missing.push('ASTERDEX_USER_ID');
-    if (!env.ASTERDEX_USER_ADDRESS) missing.push('ASTERDEX_USER_ADDRESS');
-    if (!env.ASTERDEX_SIGNER_ADDRESS) missing.push('ASTERDEX_SIGNER_ADDRESS');
-    if (!env.ASTERDEX_SIGNER_PRIVATE_KEY) missing.push('ASTERDEX_SIGNER_PRIVATE_KEY');
-
-    if (missing.length > 0) {
-      app.log.warn({ missing }, 'Aster DEX sync disabled because required env vars are missing');
+  if (env.EXCHANGE_SYNC_ENABLED) {
+    if (!env.CREDENTIALS_ENCRYPTION_KEY) {
+      app.log.warn('Exchange sync disabled because CREDENTIALS_ENCRYPTION_KEY is missing');
     } else {
       try {
-        const syncService = new AsterDexSyncService(
-          {
-            pollIntervalMs: env.ASTERDEX_POLL_INTERVAL_MS ?? 60_000,
-            userId: env.ASTERDEX_USER_ID!,
-          },
-          {
-            futuresBaseURL: env.ASTERDEX_BASE_URL ?? 'https://fapi.asterdex.com',
-            spotBaseURL: env.ASTERDEX_SPOT_BASE_URL ?? 'https://api.asterdex.com',
-            userAddress: env.ASTERDEX_USER_ADDRESS!,
-            signerAddress: env.ASTERDEX_SIGNER_ADDRESS!,
-            signerPrivateKey: env.ASTERDEX_SIGNER_PRIVATE_KEY!,
-            recvWindowMs: env.ASTERDEX_RECV_WINDOW_MS,
-          },
+        const syncManager = new ExchangeSyncManager(
+          { pollIntervalMs: env.EXCHANGE_SYNC_POLL_INTERVAL_MS ?? 60_000 },
+          new CredentialCipher(env.CREDENTIALS_ENCRYPTION_KEY),
           app.log,
         );
-        app.asterDexSync = syncService;
-        app.log.info('Aster DEX sync initialized; waiting for authenticated owner session before starting scheduler');
+        app.exchangeSyncManager = syncManager;
+        await syncManager.startAll();
         app.addHook('onClose', async () => {
-          syncService.stop();
+          syncManager.stopAll();
         });
       } catch (err) {
-        app.log.error({ err }, 'Failed to initialize Aster DEX sync');
+        app.log.error({ err }, 'Failed to initialize exchange sync');
       }
     }
   } else {
-    app.log.info('Aster DEX sync disabled via configuration');
+    app.log.info('Exchange sync disabled via configuration');
   }
 
   const port = env.PORT;
@@ -0,0 +1,65 @@
+import mongoose, { Schema, model, Model, Types } from 'mongoose';
+import type { TradeSide } from './Trade';
+
+// What an alert watches: the stop, a take-profit target, or the distance to liquidation
+export const ALERT_TYPES = ['stop-loss', 'take-profit', 'liquidation'] as const;
+export type AlertType = (typeof ALERT_TYPES)[number];
+
+export interface IAlert {
+  _id: Types.ObjectId;
+  userId: Types.ObjectId;
+  tradeId: Types.ObjectId;
+  type: AlertType;
+  coin: string;
+  side: TradeSide;
+  // Stop, target or liquidation price the alert is about; one alert per trade, type and price
+  triggerPrice: number;
+  // Mark price that set the alert off
+  markPrice: number;
+  // Liquidation alerts: the user's threshold and how close price actually was, in percent of mark
+  thresholdPercent?: number;
+  distancePercent?: number;
+  message: string;
+  emailedAt?: Date;
+  // Why the email could not be sent; the alert itself is still recorded
+  emailError?: string;
+  readAt?: Date;
+  createdAt: Date;
+}
+
+const AlertSchema = new Schema<IAlert>(
+  {
+    userId: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+    tradeId: { type: Schema.Types.ObjectId, ref: 'Trade', required: true },
+    type: { type: String, enum: ALERT_TYPES, required: true },
+    coin: { type: String, required: true },
+    side: { type: String, enum: ['long', 'short'], required: true },
+    triggerPrice: { type: Number, required: true },
+    markPrice: { type: Number, required: true },
+    thresholdPercent: { type: Number },
+    distancePercent: { type: Number },
+    message: { type: String, required: true },
+    emailedAt: { type: Date },
+    emailError: { type: String },
+    readAt: { type: Date },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+// A level fires once; moving the stop or target arms a new alert
+AlertSchema.index({ tradeId: 1, type: 1, triggerPrice: 1 }, { unique: true });
+AlertSchema.index({ userId: 1, createdAt: -1 });
+
+AlertSchema.set('toJSON', {
+  virtuals: true,
+  transform: (_doc, ret) => {
+    const r: any = ret as any;
+    r.id = r._id?.toString?.() ?? r._id;
+    delete r._id;
+    delete r.__v;
+    delete r.userId;
+    return r;
+  },
+});
+
+export const Alert = (mongoose.models.Alert as Model<IAlert>) || model<IAlert>('Alert', AlertSchema);
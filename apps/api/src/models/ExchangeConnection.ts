@@ -0,0 +1,59 @@
+import mongoose, { Schema, model, Model, Types } from 'mongoose';
+import { EXCHANGE_IDS, type ExchangeId } from '../clients/exchangeConnector';
+
+export type ExchangeConnectionStatus = 'active' | 'error';
+
+export interface IExchangeConnection {
+  _id: Types.ObjectId;
+  userId: Types.ObjectId;
+  exchange: ExchangeId;
+  label?: string;
+  // Non-secret credential fields (e.g. wallet addresses), shown back to the owner
+  credentials: Record<string, string>;
+  // AES-GCM ciphertext of the secret fields, produced by CredentialCipher; never returned to clients
+  secretsEncrypted: string;
+  status: ExchangeConnectionStatus;
+  lastError?: string;
+  lastTestedAt?: Date;
+  lastSyncedAt?: Date;
+  // Funding income is imported up to this time; the next sync re-reads a short overlap
+  lastFundingTime?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ExchangeConnectionSchema = new Schema<IExchangeConnection>(
+  {
+    userId: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+    exchange: { type: String, enum: EXCHANGE_IDS, required: true },
+    label: { type: String, trim: true },
+    credentials: { type: Schema.Types.Mixed, default: {} },
+    secretsEncrypted: { type: String, required: true },
+    status: { type: String, enum: ['active', 'error'], default: 'active' },
+    lastError: { type: String },
+    lastTestedAt: { type: Date },
+    lastSyncedAt: { type: Date },
+    lastFundingTime: { type: Date },
+  },
+  { timestamps: true }
+);
+
+// Synced trades are keyed per user and exchange, so each user gets one connection per exchange
+ExchangeConnectionSchema.index({ userId: 1, exchange: 1 }, { unique: true });
+
+ExchangeConnectionSchema.set('toJSON', {
+  virtuals: true,
+  transform: (_doc, ret) => {
+    const r: any = ret as any;
+    r.id = r._id?.toString?.() ?? r._id;
+    delete r._id;
+    delete r.__v;
+    delete r.userId;
+    delete r.secretsEncrypted;
+    return r;
+  },
+});
+
+export const ExchangeConnection =
+  (mongoose.models.ExchangeConnection as Model<IExchangeConnection>) ||
+  model<IExchangeConnection>('ExchangeConnection', ExchangeConnectionSchema);
@@ -0,0 +1,29 @@
+import mongoose, { Schema, model, Model, Types } from 'mongoose';
+
+export interface IExchangeSyncCursor {
+  _id: Types.ObjectId;
+  userId: Types.ObjectId;
+  exchange: string;
+  symbol: string;
+  lastFillId?: string;
+  lastFillTime?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ExchangeSyncCursorSchema = new Schema<IExchangeSyncCursor>(
+  {
+    userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    exchange: { type: String, required: true },
+    symbol: { type: String, required: true },
+    lastFillId: { type: String },
+    lastFillTime: { type: Date },
+  },
+  { timestamps: true }
+);
+
+ExchangeSyncCursorSchema.index({ userId: 1, exchange: 1, symbol: 1 }, { unique: true });
+
+export const ExchangeSyncCursor =
+  (mongoose.models.ExchangeSyncCursor as Model<IExchangeSyncCursor>) ||
+  model<IExchangeSyncCursor>('ExchangeSyncCursor', ExchangeSyncCursorSchema);
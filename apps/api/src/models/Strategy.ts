@@ -0,0 +1,37 @@
+import mongoose, { Schema, model, Model, Types } from 'mongoose';
+import { CATALOG_NAME_COLLATION } from './Tag';
+
+// A named setup or playbook a trade was taken under
+export interface IStrategy {
+  _id: Types.ObjectId;
+  userId: Types.ObjectId;
+  name: string;
+  description?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const StrategySchema = new Schema<IStrategy>(
+  {
+    userId: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+    name: { type: String, required: true, trim: true },
+    description: { type: String },
+  },
+  { timestamps: true }
+);
+
+StrategySchema.index({ userId: 1, name: 1 }, { unique: true, collation: CATALOG_NAME_COLLATION });
+
+StrategySchema.set('toJSON', {
+  virtuals: true,
+  transform: (_doc, ret) => {
+    const r: any = ret as any;
+    r.id = r._id?.toString?.() ?? r._id;
+    delete r._id;
+    delete r.__v;
+    delete r.userId;
+    return r;
+  },
+});
+
+export const Strategy = (mongoose.models.Strategy as Model<IStrategy>) || model<IStrategy>('Strategy', StrategySchema);
@@ -0,0 +1,39 @@
+import mongoose, { Schema, model, Model, Types } from 'mongoose';
+
+// Case-insensitive comparison for catalog names, so `Breakout` and `breakout` are the same tag
+export const CATALOG_NAME_COLLATION = { locale: 'en', strength: 2 };
+
+export interface ITag {
+  _id: Types.ObjectId;
+  userId: Types.ObjectId;
+  name: string;
+  // Hex color shown on the tag chip, e.g. `#46843E`
+  color?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TagSchema = new Schema<ITag>(
+  {
+    userId: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+    name: { type: String, required: true, trim: true },
+    color: { type: String },
+  },
+  { timestamps: true }
+);
+
+TagSchema.index({ userId: 1, name: 1 }, { unique: true, collation: CATALOG_NAME_COLLATION });
+
+TagSchema.set('toJSON', {
+  virtuals: true,
+  transform: (_doc, ret) => {
+    const r: any = ret as any;
+    r.id = r._id?.toString?.() ?? r._id;
+    delete r._id;
+    delete r.__v;
+    delete r.userId;
+    return r;
+  },
+});
+
+export const Tag = (mongoose.models.Tag as Model<ITag>) || model<ITag>('Tag', TagSchema);
@@ -1,25 +1,71 @@
 import mongoose, { Schema, model, Model, Types } from 'mongoose';
+import { EXCHANGE_IDS, type ExchangeId } from '../clients/exchangeConnector';
+import { computeInitialRiskUsd, computeTradeStats } from '../services/tradeMetrics';
 
 export type TradeSide = 'long' | 'short';
 export type TradeStatus = 'active' | 'closed';
 
 export interface ITradeEntry {
+  // Assigned by Mongoose when the entry is added; stable across edits of other legs
+  _id?: Types.ObjectId;
   entryPrice: number;
   amountInvestedUsd: number;
   leverage?: number;
   entryDate: Date;
+  feeUsd?: number;
+  exchangeOrderId?: string;
 }
 
 export interface ITradeClose {
+  _id?: Types.ObjectId;
   closePrice: number;
   closeCoinAmount: number;
   closeUsdAmount: number;
   closeDate: Date;
   pnlUsd: number;
   pnlPercent: number;
+  feeUsd?: number;
+  exchangeOrderId?: string;
 }
 
-export type TradeSource = 'manual' | 'asterdex';
+// One rung of a take-profit ladder: sell `percent` of the position at `price`
+export interface ITradeTakeProfitLevel {
+  _id?: Types.ObjectId;
+  price: number;
+  percent: number;
+  // Set when a close is booked against the level
+  filledAt?: Date;
+  closeId?: Types.ObjectId;
+}
+
+// Every value the stop loss has had, oldest first; `price` is null while no stop was set
+export interface ITradeStopLossChange {
+  price: number | null;
+  changedAt: Date;
+}
+
+// Signed funding settlement: positive when received, negative when paid
+export interface ITradeFundingPayment {
+  amountUsd: number;
+  paidAt: Date;
+  exchangeIncomeId?: string;
+}
+
+// Denormalized from entries/closes on every save so lists can filter and sort in the database
+export interface ITradeStats {
+  netPnlUsd: number;
+  effectiveLeverage: number | null;
+  sizeUsd: number;
+  firstEntryDate: Date | null;
+  lastCloseDate: Date | null;
+}
+
+// Exchanges whose trade-history export files can be imported (see services/historyImport.ts)
+export const HISTORY_FILE_EXCHANGES = ['asterdex', 'binance', 'bybit'] as const;
+export type HistoryFileExchange = (typeof HISTORY_FILE_EXCHANGES)[number];
+
+export const TRADE_SOURCES = ['manual', ...new Set<ExchangeId | HistoryFileExchange>([...EXCHANGE_IDS, ...HISTORY_FILE_EXCHANGES])];
+export type TradeSource = 'manual' | ExchangeId | HistoryFileExchange;
 export type TradeExchangeProductType = 'spot' | 'perpetual';
 
 export interface ITrade {
@@ -29,38 +75,90 @@ export interface ITrade {
   status: TradeStatus;
   coin: string;
   comment?: string;
+  // Catalog references owned by the same user (see models/Tag.ts and models/Strategy.ts)
+  tagIds: Types.ObjectId[];
+  strategyId?: Types.ObjectId;
   stopLossPrice?: number;
+  // Next open rung of `takeProfitLevels` when a ladder is set, otherwise a single target
   takeProfitPrice?: number;
+  // Take-profit ladder ordered from the nearest to the furthest target
+  takeProfitLevels: ITradeTakeProfitLevel[];
+  stopLossHistory: ITradeStopLossChange[];
+  // Planned stop: the first stop set on the trade, kept when `stopLossPrice` is moved later
+  initialStopLossPrice?: number;
+  // When the planned stop was set; entries added after it do not count towards the initial risk
+  initialStopLossSetAt?: Date;
+  // What the entries stand to lose at the planned stop; the 1R unit for R-multiples
+  initialRiskUsd?: number;
+  // Price used for unrealized PnL when no market data source lists this coin
+  manualMarkPrice?: number;
   entries: ITradeEntry[];
   closes: ITradeClose[];
+  fundingPayments: ITradeFundingPayment[];
+  stats?: ITradeStats;
   source?: TradeSource;
   exchange?: string;
   exchangeAccountId?: string;
   exchangePositionId?: string;
   exchangeProductType?: TradeExchangeProductType;
   lastSyncedAt?: Date;
+  // Set while the trade is in the trash; trashed trades are left out of every read but the trash list
+  deletedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
 
-const TradeEntrySchema = new Schema<ITradeEntry>(
+const TradeEntrySchema = new Schema<ITradeEntry>({
+  entryPrice: { type: Number, required: true },
+  amountInvestedUsd: { type: Number, required: true },
+  leverage: { type: Number },
+  entryDate: { type: Date, required: true },
+  feeUsd: { type: Number },
+  exchangeOrderId: { type: String },
+});
+
+const TradeCloseSchema = new Schema<ITradeClose>({
+  closePrice: { type: Number, required: true },
+  closeCoinAmount: { type: Number, required: true },
+  closeUsdAmount: { type: Number, required: true },
+  closeDate: { type: Date, required: true },
+  pnlUsd: { type: Number, required: true },
+  pnlPercent: { type: Number, required: true },
+  feeUsd: { type: Number },
+  exchangeOrderId: { type: String },
+});
+
+const TradeTakeProfitLevelSchema = new Schema<ITradeTakeProfitLevel>({
+  price: { type: Number, required: true },
+  percent: { type: Number, required: true },
+  filledAt: { type: Date },
+  closeId: { type: Schema.Types.ObjectId },
+});
+
+const TradeStopLossChangeSchema = new Schema<ITradeStopLossChange>(
   {
-    entryPrice: { type: Number, required: true },
-    amountInvestedUsd: { type: Number, required: true },
-    leverage: { type: Number },
-    entryDate: { type: Date, required: true },
+    price: { type: Number, default: null },
+    changedAt: { type: Date, required: true },
   },
   { _id: false }
 );
 
-const TradeCloseSchema = new Schema<ITradeClose>(
+const TradeFundingPaymentSchema = new Schema<ITradeFundingPayment>(
   {
-    closePrice: { type: Number, required: true },
-    closeCoinAmount: { type: Number, required: true },
-    closeUsdAmount: { type: Number, required: true },
-    closeDate: { type: Date, required: true },
-    pnlUsd: { type: Number, required: true },
-    pnlPercent: { type: Number, required: true },
+    amountUsd: { type: Number, required: true },
+    paidAt: { type: Date, required: true },
+    exchangeIncomeId: { type: String },
+  },
+  { _id: false }
+);
+
+const TradeStatsSchema = new Schema<ITradeStats>(
+  {
+    netPnlUsd: { type: Number, default: 0 },
+    effectiveLeverage: { type: Number, default: null },
+    sizeUsd: { type: Number, default: 0 },
+    firstEntryDate: { type: Date, default: null },
+    lastCloseDate: { type: Date, default: null },
   },
   { _id: false }
 );
@@ -72,16 +170,27 @@ const TradeSchema = new Schema<ITrade>(
     status: { type: String, enum: ['active', 'closed'], default: 'active', index: true },
     coin: { type: String, required: true, trim: true, uppercase: true },
     comment: { type: String },
+    tagIds: { type: [{ type: Schema.Types.ObjectId, ref: 'Tag' }], default: [] },
+    strategyId: { type: Schema.Types.ObjectId, ref: 'Strategy' },
     stopLossPrice: { type: Number },
     takeProfitPrice: { type: Number },
+    takeProfitLevels: { type: [TradeTakeProfitLevelSchema], default: [] },
+    stopLossHistory: { type: [TradeStopLossChangeSchema], default: [] },
+    initialStopLossPrice: { type: Number },
+    initialStopLossSetAt: { type: Date },
+    initialRiskUsd: { type: Number },
+    manualMarkPrice: { type: Number },
     entries: { type: [TradeEntrySchema], default: [] },
     closes: { type: [TradeCloseSchema], default: [] },
-    source: { type: String, enum: ['manual', 'asterdex'], default: 'manual', index: true },
+    fundingPayments: { type: [TradeFundingPaymentSchema], default: [] },
+    stats: { type: TradeStatsSchema },
+    source: { type: String, enum: TRADE_SOURCES, default: 'manual', index: true },
     exchange: { type: String, index: true },
     exchangeAccountId: { type: String },
     exchangePositionId: { type: String },
     exchangeProductType: { type: String, enum: ['spot', 'perpetual'], default: undefined },
     lastSyncedAt: { type: Date },
+    deletedAt: { type: Date },
   },
   { timestamps: true }
 );
@@ -97,6 +206,50 @@ TradeSchema.index(
   }
 );
 
+// List filters and sorts (see services/tradeQuery.ts)
+TradeSchema.index({ userId: 1, status: 1, createdAt: -1 });
+TradeSchema.index({ userId: 1, 'stats.lastCloseDate': -1 });
+TradeSchema.index({ userId: 1, 'stats.firstEntryDate': -1 });
+TradeSchema.index({ userId: 1, 'stats.netPnlUsd': -1 });
+TradeSchema.index({ userId: 1, 'stats.sizeUsd': -1 });
+// Text search always runs within one user's trades (see services/tradeQuery.ts)
+TradeSchema.index({ userId: 1, comment: 'text' });
+TradeSchema.index({ userId: 1, tagIds: 1 });
+TradeSchema.index({ userId: 1, strategyId: 1 });
+TradeSchema.index({ userId: 1, deletedAt: -1 });
+// Retention purge scans trashed trades across all users
+TradeSchema.index({ deletedAt: 1 }, { sparse: true });
+
+TradeSchema.pre('validate', function (next) {
+  if (this.takeProfitLevels.length > 0) {
+    const open = this.takeProfitLevels.find((level) => !level.filledAt);
+    this.takeProfitPrice = (open ?? this.takeProfitLevels[this.takeProfitLevels.length - 1]).price;
+  }
+  // A new trade's stop dates from its first entry; later moves from the time of the save. Trades
+  // saved before the history was kept get it from backfillStopLossHistory, not from whatever save
+  // happens to touch them first.
+  const lastStop = this.stopLossHistory[this.stopLossHistory.length - 1];
+  const tracked = this.isNew || this.stopLossHistory.length > 0 || this.isModified('stopLossPrice');
+  if (tracked && (lastStop?.price ?? null) !== (this.stopLossPrice ?? null)) {
+    const changedAt = this.isNew ? this.entries[0]?.entryDate ?? new Date() : new Date();
+    this.stopLossHistory.push({ price: this.stopLossPrice ?? null, changedAt });
+  }
+  // Same for the planned stop: a legacy trade gets it from backfillInitialRisk
+  if ((this.isNew || this.isModified('stopLossPrice')) && this.initialStopLossPrice == null && this.stopLossPrice != null) {
+    this.initialStopLossPrice = this.stopLossPrice;
+  }
+  if (this.initialStopLossPrice == null) {
+    this.initialStopLossSetAt = undefined;
+  } else if (!this.initialStopLossSetAt && (this.isNew || this.isModified('initialStopLossPrice'))) {
+    // Entries the trade is created with count even when dated ahead of the clock
+    const entryTimes = this.entries.map((e) => new Date(e.entryDate).getTime());
+    this.initialStopLossSetAt = new Date(Math.max(Date.now(), ...entryTimes));
+  }
+  this.initialRiskUsd = computeInitialRiskUsd(this.toObject() as ITrade) ?? undefined;
+  this.stats = computeTradeStats(this.toObject() as ITrade);
+  next();
+});
+
 TradeSchema.set('toJSON', {
   virtuals: true,
   transform: (_doc, ret) => {
@@ -0,0 +1,96 @@
+import mongoose, { Schema, model, Model, Types } from 'mongoose';
+
+export const TRADE_REVISION_ACTIONS = [
+  'create',
+  'import',
+  'edit',
+  'add-size',
+  'sell',
+  'funding',
+  'edit-entry',
+  'delete-entry',
+  'edit-close',
+  'delete-close',
+  'trash',
+  'restore',
+  'revert',
+  'cost-basis',
+  'exchange-sync',
+  'backup-restore',
+] as const;
+export type TradeRevisionAction = (typeof TRADE_REVISION_ACTIONS)[number];
+
+/** Journal fields of a trade as plain JSON (dates as ISO strings). */
+export type TradeSnapshot = Record<string, unknown>;
+
+export interface ITradeFieldChange {
+  // Dotted path, e.g. `stopLossPrice` or `closes.1.closePrice`
+  path: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface ITradeRevision {
+  _id: Types.ObjectId;
+  tradeId: Types.ObjectId;
+  // Owner of the trade
+  userId: Types.ObjectId;
+  // Who made the change; absent for background jobs such as exchange sync
+  actorId?: Types.ObjectId;
+  action: TradeRevisionAction;
+  // HTTP route that made the change, e.g. `PATCH /trades/:id`
+  route?: string;
+  // Trade state around the change; `before` is null for the revision that created the trade
+  before: TradeSnapshot | null;
+  after: TradeSnapshot;
+  changes: ITradeFieldChange[];
+  revertedRevisionId?: Types.ObjectId;
+  createdAt: Date;
+}
+
+const TradeFieldChangeSchema = new Schema<ITradeFieldChange>(
+  {
+    path: { type: String, required: true },
+    before: { type: Schema.Types.Mixed },
+    after: { type: Schema.Types.Mixed },
+  },
+  { _id: false }
+);
+
+const TradeRevisionSchema = new Schema<ITradeRevision>(
+  {
+    tradeId: { type: Schema.Types.ObjectId, ref: 'Trade', required: true },
+    userId: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+    actorId: { type: Schema.Types.ObjectId, ref: 'User' },
+    action: { type: String, enum: TRADE_REVISION_ACTIONS, required: true },
+    route: { type: String },
+    before: { type: Schema.Types.Mixed, default: null },
+    after: { type: Schema.Types.Mixed, required: true },
+    changes: { type: [TradeFieldChangeSchema], default: [] },
+    revertedRevisionId: { type: Schema.Types.ObjectId },
+  },
+  { timestamps: { createdAt: true, updatedAt: false }, minimize: false }
+);
+
+TradeRevisionSchema.index({ tradeId: 1, createdAt: -1 });
+
+// Revisions are an audit trail: written once, removed only together with their trade
+TradeRevisionSchema.pre(['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne'], function () {
+  throw new Error('Trade revisions are immutable');
+});
+
+TradeRevisionSchema.set('toJSON', {
+  virtuals: true,
+  transform: (_doc, ret) => {
+    const r: any = ret as any;
+    r.id = r._id?.toString?.() ?? r._id;
+    delete r._id;
+    delete r.__v;
+    delete r.userId;
+    return r;
+  },
+});
+
+export const TradeRevision =
+  (mongoose.models.TradeRevision as Model<ITradeRevision>) ||
+  model<ITradeRevision>('TradeRevision', TradeRevisionSchema);
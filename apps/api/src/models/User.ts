@@ -2,6 +2,14 @@ import mongoose, { Schema, model, Model, Types } from 'mongoose';
 
 export type UserRole = 'admin' | 'user';
 
+// How partial closes are matched to entries when booking realized PnL
+export const COST_BASIS_METHODS = ['average', 'fifo', 'lifo'] as const;
+export type CostBasisMethod = (typeof COST_BASIS_METHODS)[number];
+
+// PnL digest emails are opt-in
+export const DIGEST_FREQUENCIES = ['off', 'daily', 'weekly'] as const;
+export type DigestFrequency = (typeof DIGEST_FREQUENCIES)[number];
+
 export interface IUser {
   _id: Types.ObjectId;
   username: string;
@@ -12,6 +20,17 @@ export interface IUser {
   googleId?: string;
   avatar?: string;
   sessionVersion: number;
+  costBasisMethod: CostBasisMethod;
+  // Price alerts on active trades are always recorded; this controls the email
+  alertEmails: boolean;
+  // Alert when price comes within this percent of the liquidation price; off when unset
+  liquidationAlertPercent?: number;
+  digestFrequency: DigestFrequency;
+  // IANA zone the digest period and send time are based on
+  timezone: string;
+  // Identifies the account from the unsubscribe link without a session
+  digestUnsubscribeToken?: string;
+  digestLastSentAt?: Date;
   resetPasswordTokenHash?: string;
   resetPasswordExpires?: Date;
   resetPasswordRequestedAt?: Date;
@@ -34,6 +53,13 @@ const UserSchema = new Schema<IUser>(
     googleId: { type: String, unique: true, sparse: true },
     avatar: { type: String },
     sessionVersion: { type: Number, default: 0 },
+    costBasisMethod: { type: String, enum: COST_BASIS_METHODS, default: 'average' },
+    alertEmails: { type: Boolean, default: true },
+    liquidationAlertPercent: { type: Number },
+    digestFrequency: { type: String, enum: DIGEST_FREQUENCIES, default: 'off' },
+    timezone: { type: String, default: 'UTC' },
+    digestUnsubscribeToken: { type: String, unique: true, sparse: true },
+    digestLastSentAt: { type: Date },
     resetPasswordTokenHash: { type: String },
     resetPasswordExpires: { type: Date },
     resetPasswordRequestedAt: { type: Date },
@@ -52,6 +78,7 @@ UserSchema.set('toJSON', {
     delete r.passwordHash;
     delete r.resetPasswordTokenHash;
     delete r.resetPasswordExpires;
+    delete r.digestUnsubscribeToken;
     return r;
   },
 });
@@ -1,18 +1,5 @@
 import fp from 'fastify-plugin';
-import type { FastifyInstance, FastifyRequest } from 'fastify';
-
-function maybeStartAsterDexSync(app: FastifyInstance, req: FastifyRequest) {
-  const syncService = app.asterDexSync;
-  if (!syncService) return;
-  if (!req.userId) return;
-
-  const isOwner = req.userId === syncService.userId;
-  if (!isOwner) return;
-  if (syncService.isRunning()) return;
-
-  app.log.info({ userId: req.userId }, 'authGuard: owner authenticated; starting Aster DEX sync');
-  syncService.start();
-}
+import type { FastifyRequest } from 'fastify';
 
 declare module 'fastify' {
   interface FastifyRequest {
@@ -52,7 +39,6 @@ export default fp(async (app) => {
       req.userId = payload.sub ?? payload.userId;
       if (payload.role) req.userRole = payload.role;
       app.log.info({ path: req.url, source, userId: req.userId, role: req.userRole }, 'authGuard: authenticated request');
-      maybeStartAsterDexSync(app, req);
     } catch (e) {
       app.log.warn({ err: e, path: req.url, source }, 'authGuard: token verification failed');
       // ignore, route can still enforce auth explicitly
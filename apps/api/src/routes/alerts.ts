@@ -0,0 +1,55 @@
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { Types } from 'mongoose';
+import { z } from 'zod';
+import { Alert } from '../models/Alert';
+
+function requireAuth(req: FastifyRequest, reply: FastifyReply): req is FastifyRequest & { userId: string } {
+  if (!req.userId) {
+    reply.code(401).send({ error: 'Not authenticated' });
+    return false;
+  }
+  return true;
+}
+
+const listQuerySchema = z.object({
+  unread: z
+    .enum(['true', 'false'])
+    .optional()
+    .transform((value) => value === 'true'),
+  limit: z.coerce.number().int().positive().max(200).default(50),
+});
+
+export async function registerAlertRoutes(app: FastifyInstance) {
+  // Alerts raised by the background engine, newest first, with the unread count for a badge
+  app.get('/alerts', async (req, reply) => {
+    if (!requireAuth(req, reply)) return;
+    const parsed = listQuerySchema.safeParse(req.query);
+    if (!parsed.success) return reply.code(400).send({ error: parsed.error.flatten() });
+    const { unread, limit } = parsed.data;
+
+    const filter = { userId: req.userId, ...(unread ? { readAt: null } : {}) };
+    const [alerts, unreadCount] = await Promise.all([
+      Alert.find(filter).sort({ createdAt: -1 }).limit(limit),
+      Alert.countDocuments({ userId: req.userId, readAt: null }),
+    ]);
+    return reply.send({ items: alerts.map((a) => a.toJSON()), unread: unreadCount });
+  });
+
+  app.post('/alerts/:id/read', async (req, reply) => {
+    if (!requireAuth(req, reply)) return;
+    const { id } = req.params as any;
+    const alert = Types.ObjectId.isValid(id) && (await Alert.findOne({ _id: id, userId: req.userId }));
+    if (!alert) return reply.code(404).send({ error: 'Alert not found' });
+    if (!alert.readAt) {
+      alert.readAt = new Date();
+      await alert.save();
+    }
+    return reply.send(alert.toJSON());
+  });
+
+  app.post('/alerts/read-all', async (req, reply) => {
+    if (!requireAuth(req, reply)) return;
+    const result = await Alert.updateMany({ userId: req.userId, readAt: null }, { $set: { readAt: new Date() } });
+    return reply.send({ marked: result.modifiedCount });
+  });
+}
@@ -3,7 +3,9 @@ import argon2 from 'argon2';
 import { z } from 'zod';
 import { User, IUser } from '../models/User';
 import crypto from 'crypto';
-import { sendPasswordResetEmail } from '../services/mailer';
+import { sendAccountExportEmail, sendPasswordResetEmail } from '../services/mailer';
+import { deleteAccount } from '../services/accountDeletion';
+import { buildBackup } from '../services/journalBackup';
 import { loadApiEnv } from '@services/config/src/env';
 
 const registerSchema = z.object({
@@ -19,6 +21,14 @@ const loginSchema = z.object({
   password: z.string().min(8),
 });
 
+const deleteAccountSchema = z.object({
+  password: z.string().min(1).optional(),
+  // Email a final backup archive to the account address before anything is removed
+  emailExport: z.boolean().default(false),
+});
+
+const RECENT_AUTH_MS = 10 * 60 * 1000;
+
 export async function registerAuthRoutes(app: FastifyInstance) {
   // Check if an email exists (useful for client-side validation flows)
   app.post('/auth/check-email', async (req: FastifyRequest, reply: FastifyReply) => {
@@ -131,22 +141,62 @@ export async function registerAuthRoutes(app: FastifyInstance) {
     if (!user) return reply.code(404).send({ error: 'Not found' });
     return reply.send({ id: user._id.toString(), email: user.email, name: user.name, role: user.role });
   });
-  // Delete the current user's account
+  // Delete the current user's account together with everything it owns. Password accounts confirm
+  // with their password; Google-only accounts must have signed in within RECENT_AUTH_MS.
   app.delete('/auth/me', async (req: FastifyRequest, reply: FastifyReply) => {
-    try {
-      const auth = req.headers.authorization?.split(' ')[1];
-      if (!auth) return reply.code(401).send({ error: 'Missing token' });
-      const payload = app.jwt.verify(auth) as { sub: string };
+    const parsed = deleteAccountSchema.safeParse(req.body ?? {});
+    if (!parsed.success) return reply.code(400).send({ error: parsed.error.flatten() });
+    const { password, emailExport } = parsed.data;
 
-      const user = await User.findById(payload.sub);
-      if (!user) return reply.code(404).send({ error: 'Not found' });
+    let userId = (req as any).userId as string | undefined;
+    if (!userId) {
+      try {
+        const auth = req.headers.authorization?.split(' ')[1];
+        if (!auth) return reply.code(401).send({ error: 'Missing token' });
+        userId = (app.jwt.verify(auth) as { sub: string }).sub;
+      } catch (e) {
+        return reply.code(401).send({ error: 'Invalid token' });
+      }
+    }
 
-      await User.deleteOne({ _id: user._id });
+    const user = await User.findById(userId);
+    if (!user) return reply.code(404).send({ error: 'Not found' });
 
-      return reply.send({ ok: true });
-    } catch (e) {
-      return reply.code(401).send({ error: 'Invalid token' });
+    if (user.passwordHash) {
+      if (!password) return reply.code(403).send({ error: 'Password confirmation required' });
+      const ok = await argon2.verify(user.passwordHash, password);
+      if (!ok) return reply.code(403).send({ error: 'Invalid password' });
+    } else {
+      // The session cookie is only issued by a Google sign-in, so its issue time is the last login
+      let issuedAt = 0;
+      try {
+        const cookieToken = (req as any).cookies?.userToken as string | undefined;
+        const decoded = cookieToken ? (app.jwt.verify(cookieToken) as { userId: string; sessionVersion: number; iat: number }) : null;
+        if (decoded?.userId === user._id.toString() && decoded.sessionVersion === user.sessionVersion) issuedAt = decoded.iat * 1000;
+      } catch {
+        // treated as not recently authenticated
+      }
+      if (Date.now() - issuedAt > RECENT_AUTH_MS) {
+        return reply.code(403).send({ error: 'Sign in again to confirm account deletion' });
+      }
     }
+
+    if (emailExport) {
+      const backup = await buildBackup(user._id.toString());
+      const filename = `journal-backup-${new Date().toISOString().slice(0, 10)}.json`;
+      try {
+        await sendAccountExportEmail({ to: user.email, name: user.name, filename, archive: JSON.stringify(backup, null, 2) });
+      } catch (e) {
+        req.log?.error({ err: e }, 'Failed to send account export email');
+        // Nothing is purged unless the requested export actually went out
+        return reply.code(502).send({ error: 'Failed to email the export; the account was not deleted' });
+      }
+    }
+
+    const deleted = await deleteAccount(user._id.toString(), app.exchangeSyncManager);
+    req.log?.info({ userId: user._id.toString(), deleted }, 'Account deleted');
+
+    return reply.send({ ok: true, deleted, exportEmailed: emailExport });
   });
 
   // Request password reset
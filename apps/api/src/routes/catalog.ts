@@ -0,0 +1,160 @@
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { Types } from 'mongoose';
+import { z } from 'zod';
+import { Strategy } from '../models/Strategy';
+import { CATALOG_NAME_COLLATION, Tag } from '../models/Tag';
+import { Trade } from '../models/Trade';
+import { detachCatalogItem } from '../services/tradeCatalog';
+
+function requireAuth(req: FastifyRequest, reply: FastifyReply): req is FastifyRequest & { userId: string } {
+  if (!req.userId) {
+    reply.code(401).send({ error: 'Not authenticated' });
+    return false;
+  }
+  return true;
+}
+
+const nameSchema = z.string().trim().min(1).max(50);
+
+const tagSchema = z.object({
+  name: nameSchema,
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Use a hex color such as #46843E').nullable().optional(),
+});
+
+const strategySchema = z.object({
+  name: nameSchema,
+  description: z.string().max(1000).nullable().optional(),
+});
+
+function objectIdParam(req: FastifyRequest) {
+  const { id } = req.params as any;
+  return Types.ObjectId.isValid(id) ? new Types.ObjectId(id) : null;
+}
+
+export async function registerCatalogRoutes(app: FastifyInstance) {
+  // Tags: free-form labels, any number per trade
+
+  app.get('/tags', async (req, reply) => {
+    if (!requireAuth(req, reply)) return;
+    const tags = await Tag.find({ userId: req.userId }).collation(CATALOG_NAME_COLLATION).sort({ name: 1 });
+    const counts = await tradeCounts(req.userId, 'tagIds');
+    return reply.send(tags.map((t) => ({ ...t.toJSON(), trades: counts.get(t._id.toString()) ?? 0 })));
+  });
+
+  app.post('/tags', async (req, reply) => {
+    if (!requireAuth(req, reply)) return;
+    const parsed = tagSchema.safeParse(req.body);
+    if (!parsed.success) return reply.code(400).send({ error: parsed.error.flatten() });
+    const { name, color } = parsed.data;
+
+    const exists = await Tag.exists({ userId: req.userId, name }).collation(CATALOG_NAME_COLLATION);
+    if (exists) return reply.code(409).send({ error: 'A tag with this name already exists' });
+
+    const tag = await Tag.create({ userId: req.userId, name, color: color ?? undefined });
+    return reply.code(201).send(tag.toJSON());
+  });
+
+  app.patch('/tags/:id', async (req, reply) => {
+    if (!requireAuth(req, reply)) return;
+    const parsed = tagSchema.partial().safeParse(req.body);
+    if (!parsed.success) return reply.code(400).send({ error: parsed.error.flatten() });
+    const id = objectIdParam(req);
+    const tag = id && (await Tag.findOne({ _id: id, userId: req.userId }));
+    if (!tag) return reply.code(404).send({ error: 'Tag not found' });
+    const { name, color } = parsed.data;
+
+    if (name !== undefined && name !== tag.name) {
+      const exists = await Tag.exists({ userId: req.userId, name, _id: { $ne: tag._id } }).collation(CATALOG_NAME_COLLATION);
+      if (exists) return reply.code(409).send({ error: 'A tag with this name already exists' });
+      tag.name = name;
+    }
+    if (color !== undefined) tag.color = color ?? undefined;
+    await tag.save();
+    return reply.send(tag.toJSON());
+  });
+
+  // Deleting a tag removes it from every trade that carries it
+  app.delete('/tags/:id', async (req, reply) => {
+    if (!requireAuth(req, reply)) return;
+    const id = objectIdParam(req);
+    const tag = id && (await Tag.findOne({ _id: id, userId: req.userId }));
+    if (!tag) return reply.code(404).send({ error: 'Tag not found' });
+
+    const trades = await detachCatalogItem(req.userId, { tagId: tag._id }, {
+      actorId: req.userId,
+      action: 'edit',
+      route: `${req.method} ${req.routeOptions.url}`,
+    });
+    await tag.deleteOne();
+    return reply.send({ ok: true, trades });
+  });
+
+  // Strategies: the setup a trade was taken under, at most one per trade
+
+  app.get('/strategies', async (req, reply) => {
+    if (!requireAuth(req, reply)) return;
+    const strategies = await Strategy.find({ userId: req.userId }).collation(CATALOG_NAME_COLLATION).sort({ name: 1 });
+    const counts = await tradeCounts(req.userId, 'strategyId');
+    return reply.send(strategies.map((s) => ({ ...s.toJSON(), trades: counts.get(s._id.toString()) ?? 0 })));
+  });
+
+  app.post('/strategies', async (req, reply) => {
+    if (!requireAuth(req, reply)) return;
+    const parsed = strategySchema.safeParse(req.body);
+    if (!parsed.success) return reply.code(400).send({ error: parsed.error.flatten() });
+    const { name, description } = parsed.data;
+
+    const exists = await Strategy.exists({ userId: req.userId, name }).collation(CATALOG_NAME_COLLATION);
+    if (exists) return reply.code(409).send({ error: 'A strategy with this name already exists' });
+
+    const strategy = await Strategy.create({ userId: req.userId, name, description: description ?? undefined });
+    return reply.code(201).send(strategy.toJSON());
+  });
+
+  app.patch('/strategies/:id', async (req, reply) => {
+    if (!requireAuth(req, reply)) return;
+    const parsed = strategySchema.partial().safeParse(req.body);
+    if (!parsed.success) return reply.code(400).send({ error: parsed.error.flatten() });
+    const id = objectIdParam(req);
+    const strategy = id && (await Strategy.findOne({ _id: id, userId: req.userId }));
+    if (!strategy) return reply.code(404).send({ error: 'Strategy not found' });
+    const { name, description } = parsed.data;
+
+    if (name !== undefined && name !== strategy.name) {
+      const exists = await Strategy.exists({ userId: req.userId, name, _id: { $ne: strategy._id } }).collation(
+        CATALOG_NAME_COLLATION,
+      );
+      if (exists) return reply.code(409).send({ error: 'A strategy with this name already exists' });
+      strategy.name = name;
+    }
+    if (description !== undefined) strategy.description = description ?? undefined;
+    await strategy.save();
+    return reply.send(strategy.toJSON());
+  });
+
+  // Deleting a strategy clears it from every trade that used it
+  app.delete('/strategies/:id', async (req, reply) => {
+    if (!requireAuth(req, reply)) return;
+    const id = objectIdParam(req);
+    const strategy = id && (await Strategy.findOne({ _id: id, userId: req.userId }));
+    if (!strategy) return reply.code(404).send({ error: 'Strategy not found' });
+
+    const trades = await detachCatalogItem(req.userId, { strategyId: strategy._id }, {
+      actorId: req.userId,
+      action: 'edit',
+      route: `${req.method} ${req.routeOptions.url}`,
+    });
+    await strategy.deleteOne();
+    return reply.send({ ok: true, trades });
+  });
+}
+
+// Live (not trashed) trades per catalog item
+async function tradeCounts(userId: string, field: 'tagIds' | 'strategyId') {
+  const rows = await Trade.aggregate<{ _id: Types.ObjectId; count: number }>([
+    { $match: { userId: new Types.ObjectId(userId), deletedAt: null, [field]: { $ne: null } } },
+    ...(field === 'tagIds' ? [{ $unwind: '$tagIds' }] : []),
+    { $group: { _id: `$${field}`, count: { $sum: 1 } } },
+  ]);
+  return new Map(rows.map((r) => [r._id.toString(), r.count]));
+}
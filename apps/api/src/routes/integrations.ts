@@ -1,4 +1,9 @@
 import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { z } from 'zod';
+import { EXCHANGE_IDS } from '../clients/exchangeConnector';
+import { getExchangeAdapter } from '../clients/exchanges';
+import { ExchangeConnection } from '../models/ExchangeConnection';
+import { ExchangeSyncCursor } from '../models/ExchangeSyncCursor';
 
 function requireAuth(req: FastifyRequest, reply: FastifyReply): req is FastifyRequest & { userId: string } {
   if (!req.userId) {
@@ -8,22 +13,118 @@ function requireAuth(req: FastifyRequest, reply: FastifyReply): req is FastifyRe
   return true;
 }
 
+const createConnectionSchema = z.object({
+  exchange: z.enum(EXCHANGE_IDS),
+  label: z.string().max(100).optional(),
+});
+
 export async function registerIntegrationRoutes(app: FastifyInstance) {
-  app.post('/integrations/asterdex/sync', async (req, reply) => {
+  // List the current user's exchange connections (secrets are never returned)
+  app.get('/integrations/connections', async (req, reply) => {
+    if (!requireAuth(req, reply)) return;
+    const connections = await ExchangeConnection.find({ userId: req.userId }).sort({ createdAt: 1 });
+    return reply.send(connections.map((c) => c.toJSON()));
+  });
+
+  // Register a connection after confirming the exchange accepts the credentials
+  app.post('/integrations/connections', async (req, reply) => {
     if (!requireAuth(req, reply)) return;
+    const manager = app.exchangeSyncManager;
+    if (!manager) return reply.code(503).send({ error: 'Exchange sync is disabled' });
+
+    const parsed = createConnectionSchema.safeParse(req.body);
+    if (!parsed.success) return reply.code(400).send({ error: parsed.error.flatten() });
+    const { exchange, label } = parsed.data;
+
+    // Each exchange validates its own credential fields from the same request body
+    const adapter = getExchangeAdapter(exchange);
+    const credentials = adapter.credentialsSchema.safeParse(req.body);
+    if (!credentials.success) return reply.code(400).send({ error: credentials.error.flatten() });
+
+    const exists = await ExchangeConnection.exists({ userId: req.userId, exchange });
+    if (exists) return reply.code(409).send({ error: 'A connection for this exchange already exists' });
+
+    const test = await manager.testConnector(adapter.createConnector(credentials.data));
+    if (!test.ok) return reply.code(400).send({ error: `Exchange rejected the credentials: ${test.error}` });
 
-    const syncService = app.asterDexSync;
-    if (!syncService) {
-      return reply.code(503).send({ error: 'Aster DEX sync is disabled' });
-    }
+    const connection = await ExchangeConnection.create({
+      userId: req.userId,
+      exchange,
+      label,
+      ...manager.sealCredentials(exchange, credentials.data),
+      status: 'active',
+      lastTestedAt: new Date(),
+    });
+    manager.start(connection);
 
-    const isOwner = req.userId === syncService.userId;
+    return reply.code(201).send(connection.toJSON());
+  });
+
+  // Re-check stored credentials against the exchange
+  app.post('/integrations/connections/:id/test', async (req, reply) => {
+    if (!requireAuth(req, reply)) return;
+    const manager = app.exchangeSyncManager;
+    if (!manager) return reply.code(503).send({ error: 'Exchange sync is disabled' });
+
+    const { id } = req.params as any;
+    const connection = await ExchangeConnection.findOne({ _id: id, userId: req.userId });
+    if (!connection) return reply.code(404).send({ error: 'Connection not found' });
+
+    const result = await manager.testConnector(manager.connectorFor(connection));
+    connection.lastTestedAt = new Date();
+    connection.status = result.ok ? 'active' : 'error';
+    connection.lastError = result.ok ? undefined : result.error;
+    await connection.save();
+
+    return reply.send(result);
+  });
+
+  // Current balances reported by the exchange for a connection
+  app.get('/integrations/connections/:id/balances', async (req, reply) => {
+    if (!requireAuth(req, reply)) return;
+    const manager = app.exchangeSyncManager;
+    if (!manager) return reply.code(503).send({ error: 'Exchange sync is disabled' });
+
+    const { id } = req.params as any;
+    const connection = await ExchangeConnection.findOne({ _id: id, userId: req.userId });
+    if (!connection) return reply.code(404).send({ error: 'Connection not found' });
+
+    const result = await manager.testConnector(manager.connectorFor(connection));
+    if (!result.ok) return reply.code(502).send({ error: result.error });
+    return reply.send(result.balances);
+  });
+
+  // Trigger an immediate sync (owner or admin)
+  app.post('/integrations/connections/:id/sync', async (req, reply) => {
+    if (!requireAuth(req, reply)) return;
+    const manager = app.exchangeSyncManager;
+    if (!manager) return reply.code(503).send({ error: 'Exchange sync is disabled' });
+
+    const { id } = req.params as any;
+    const connection = await ExchangeConnection.findById(id);
+    const isOwner = connection?.userId.toString() === req.userId;
     const isAdmin = req.userRole === 'admin';
-    if (!isOwner && !isAdmin) {
-      return reply.code(403).send({ error: 'Forbidden' });
-    }
+    if (!connection || (!isOwner && !isAdmin)) return reply.code(404).send({ error: 'Connection not found' });
+
+    const syncService = manager.get(connection._id.toString()) ?? manager.start(connection);
+    if (!syncService) return reply.code(409).send({ error: 'Sync could not be started for this connection' });
 
     const stats = await syncService.syncOnce();
     return reply.send({ ok: true, stats });
   });
+
+  // Remove a connection; already synced trades stay in the journal
+  app.delete('/integrations/connections/:id', async (req, reply) => {
+    if (!requireAuth(req, reply)) return;
+    const { id } = req.params as any;
+    const connection = await ExchangeConnection.findOne({ _id: id, userId: req.userId });
+    if (!connection) return reply.code(404).send({ error: 'Connection not found' });
+
+    app.exchangeSyncManager?.stop(connection._id.toString());
+    await ExchangeConnection.deleteOne({ _id: connection._id });
+    // Fill cursors belong to the removed account; a new connection must start fresh
+    await ExchangeSyncCursor.deleteMany({ userId: connection.userId, exchange: connection.exchange });
+
+    return reply.send({ ok: true });
+  });
 }
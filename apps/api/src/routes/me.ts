@@ -0,0 +1,143 @@
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import mongoose from 'mongoose';
+import { z } from 'zod';
+import { COST_BASIS_METHODS, DIGEST_FREQUENCIES, User, type IUser } from '../models/User';
+import { rebookTrades } from '../services/costBasis';
+import { createUnsubscribeToken } from '../services/tradeDigest';
+import { isValidTimeZone } from '../services/timeZone';
+import { BackupVersionError, buildBackup, migrateBackup, restoreBackup } from '../services/journalBackup';
+
+function requireAuth(req: FastifyRequest, reply: FastifyReply): req is FastifyRequest & { userId: string } {
+  if (!req.userId) {
+    reply.code(401).send({ error: 'Not authenticated' });
+    return false;
+  }
+  return true;
+}
+
+const settingsSchema = z.object({
+  costBasisMethod: z.enum(COST_BASIS_METHODS).optional(),
+  alertEmails: z.boolean().optional(),
+  // Percent of mark price; null turns liquidation alerts off
+  liquidationAlertPercent: z.number().positive().max(100).nullable().optional(),
+  digestFrequency: z.enum(DIGEST_FREQUENCIES).optional(),
+  timezone: z.string().refine(isValidTimeZone, 'Unknown time zone').optional(),
+});
+
+const unsubscribeSchema = z.object({
+  token: z.string().min(1),
+});
+
+type SettingsUser = Pick<IUser, 'costBasisMethod' | 'alertEmails' | 'liquidationAlertPercent' | 'digestFrequency' | 'timezone'>;
+
+function settingsView(user: SettingsUser) {
+  return {
+    costBasisMethod: user.costBasisMethod ?? 'average',
+    alertEmails: user.alertEmails ?? true,
+    liquidationAlertPercent: user.liquidationAlertPercent ?? null,
+    digestFrequency: user.digestFrequency ?? 'off',
+    timezone: user.timezone ?? 'UTC',
+  };
+}
+
+const restoreSchema = z.object({
+  // Validated against the archive's own version after migration
+  archive: z.unknown(),
+  mode: z.enum(['merge', 'replace']).default('merge'),
+});
+
+const RESTORE_BODY_LIMIT = 25 * 1024 * 1024;
+
+export async function registerMeRoutes(app: FastifyInstance) {
+  // Journal preferences
+  app.get('/me/settings', async (req: FastifyRequest, reply: FastifyReply) => {
+    if (!requireAuth(req, reply)) return;
+    const user = await User.findById(req.userId).select('costBasisMethod alertEmails liquidationAlertPercent digestFrequency timezone').lean();
+    if (!user) return reply.code(404).send({ error: 'User not found' });
+    return reply.send(settingsView(user));
+  });
+
+  app.patch('/me/settings', async (req: FastifyRequest, reply: FastifyReply) => {
+    if (!requireAuth(req, reply)) return;
+    const parsed = settingsSchema.safeParse(req.body);
+    if (!parsed.success) return reply.code(400).send({ error: parsed.error.flatten() });
+
+    const user = await User.findById(req.userId);
+    if (!user) return reply.code(404).send({ error: 'User not found' });
+    const { costBasisMethod, alertEmails, liquidationAlertPercent, digestFrequency, timezone } = parsed.data;
+
+    if (alertEmails !== undefined) user.alertEmails = alertEmails;
+    if (liquidationAlertPercent !== undefined) user.liquidationAlertPercent = liquidationAlertPercent ?? undefined;
+    if (timezone !== undefined) user.timezone = timezone;
+    if (digestFrequency !== undefined && digestFrequency !== user.digestFrequency) {
+      user.digestFrequency = digestFrequency;
+      // Opting in starts with the next period rather than mailing the one that just ended
+      user.digestLastSentAt = digestFrequency === 'off' ? user.digestLastSentAt : new Date();
+      user.digestUnsubscribeToken ??= createUnsubscribeToken();
+    }
+    if (user.isModified()) await user.save();
+
+    // Switching the cost-basis method re-books past closes of manual trades
+    let rebook = { rebooked: 0, skipped: 0 };
+    if (costBasisMethod && costBasisMethod !== (user.costBasisMethod ?? 'average')) {
+      user.costBasisMethod = costBasisMethod;
+      await user.save();
+      rebook = await rebookTrades(req.userId, costBasisMethod, {
+        actorId: req.userId,
+        action: 'cost-basis',
+        route: `${req.method} ${req.routeOptions.url}`,
+      });
+    }
+
+    return reply.send({ ...settingsView(user), ...rebook });
+  });
+
+  // Link from digest emails; no session needed, the token identifies the account
+  app.post('/digest/unsubscribe', async (req: FastifyRequest, reply: FastifyReply) => {
+    const parsed = unsubscribeSchema.safeParse(req.body);
+    if (!parsed.success) return reply.code(400).send({ error: parsed.error.flatten() });
+    const user = await User.findOneAndUpdate(
+      { digestUnsubscribeToken: parsed.data.token },
+      { $set: { digestFrequency: 'off' } },
+    ).select('_id');
+    if (!user) return reply.code(404).send({ error: 'Unsubscribe link is invalid' });
+    return reply.send({ ok: true });
+  });
+
+  // Download the whole journal as a versioned JSON archive
+  app.get('/me/backup', async (req: FastifyRequest, reply: FastifyReply) => {
+    if (!requireAuth(req, reply)) return;
+    const backup = await buildBackup(req.userId);
+    if (!backup) return reply.code(404).send({ error: 'User not found' });
+
+    const filename = `journal-backup-${backup.exportedAt.toISOString().slice(0, 10)}.json`;
+    return reply
+      .header('Content-Type', 'application/json; charset=utf-8')
+      .header('Content-Disposition', `attachment; filename="${filename}"`)
+      .send(JSON.stringify(backup, null, 2));
+  });
+
+  // Load an archive into the account, either alongside existing trades or replacing them
+  app.post('/me/restore', { bodyLimit: RESTORE_BODY_LIMIT }, async (req: FastifyRequest, reply: FastifyReply) => {
+    if (!requireAuth(req, reply)) return;
+    const parsed = restoreSchema.safeParse(req.body);
+    if (!parsed.success) return reply.code(400).send({ error: parsed.error.flatten() });
+
+    let archive;
+    try {
+      archive = migrateBackup(parsed.data.archive);
+    } catch (err) {
+      if (err instanceof BackupVersionError) return reply.code(400).send({ error: err.message });
+      throw err;
+    }
+    if (!archive.success) return reply.code(400).send({ error: archive.error.flatten() });
+
+    try {
+      const result = await restoreBackup(req.userId, archive.data, parsed.data.mode);
+      return reply.send(result);
+    } catch (err) {
+      if (err instanceof mongoose.Error.ValidationError) return reply.code(400).send({ error: err.message });
+      throw err;
+    }
+  });
+}
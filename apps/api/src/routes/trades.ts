@@ -1,6 +1,36 @@
 import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { Types, type HydratedDocument } from 'mongoose';
 import { z } from 'zod';
 import { Trade, type ITrade } from '../models/Trade';
+import { COST_BASIS_METHODS } from '../models/User';
+import type { MarkPriceQuote } from '../services/priceProvider';
+import { computeExitPlan, computeRiskMetrics, computeTradeAggregates, computeUnrealizedMetrics } from '../services/tradeMetrics';
+import {
+  buildTakeProfitLevels,
+  checkTradeTargets,
+  hasTargetIssues,
+  releaseTakeProfitLevels,
+  type TargetCheck,
+} from '../services/tradeTargets';
+import { computeEquityCurve } from '../services/equityCurve';
+import { computeTradeAnalytics, computeTradeSummary } from '../services/tradeAnalytics';
+import { buildTradeFilter, buildTradePageQuery, InvalidCursorError, tradeFilterSchema, tradeListQuerySchema } from '../services/tradeQuery';
+import { EXPORT_DATASETS, exportTradesCsv } from '../services/tradeExport';
+import { columnMappingSchema, CsvImportError, mapCsvRows } from '../services/tradeImport';
+import { HISTORY_FORMATS, importTradeHistory } from '../services/historyImport';
+import { recalculateTrade, TradeLegError } from '../services/tradeLegs';
+import { buildRealizedGains, getCostBasisMethod, realizedGainsCsv, tradeCostBasisMethod } from '../services/costBasis';
+import { assertCatalogRefs, catalogNames, CatalogRefError, pruneCatalogRefs } from '../services/tradeCatalog';
+import { DEFAULT_TRASH_RETENTION_DAYS, purgeTrades, trashPurgeDate } from '../services/tradeTrash';
+import { TradeRevision, type TradeRevisionAction, type TradeSnapshot } from '../models/TradeRevision';
+import {
+  applyRevision,
+  recordCreatedTrades,
+  recordTradeRevision,
+  tradeSnapshot,
+  type RevisionContext,
+} from '../services/tradeRevisions';
+import { loadApiEnv } from '@services/config/src/env';
 
 function requireAuth(req: FastifyRequest, reply: FastifyReply): req is FastifyRequest & { userId: string } {
   if (!req.userId) {
@@ -21,6 +51,24 @@ function requireAuth(req: FastifyRequest, reply: FastifyReply): req is FastifyRe
 
 const SideSchema = z.enum(['long', 'short']);
 
+const objectIdString = (message: string) => z.string().refine((v) => Types.ObjectId.isValid(v), { message });
+const tagIdsSchema = z.array(objectIdString('Invalid tag id')).max(20);
+const strategyIdSchema = objectIdString('Invalid strategy id');
+
+// Take-profit ladder as sent by the forms; an `id` keeps the fill of an existing level when editing
+const takeProfitLevelsSchema = z
+  .array(
+    z.object({
+      id: objectIdString('Invalid level id').optional(),
+      price: z.number().positive(),
+      percent: z.number().positive().max(100),
+    }),
+  )
+  .max(10)
+  .refine((levels) => levels.reduce((sum, l) => sum + l.percent, 0) <= 100 + 1e-9, {
+    message: 'Take-profit levels cannot add up to more than 100% of the position',
+  });
+
 const createActiveTradeSchema = z.object({
   coin: z.string().min(1),
   side: SideSchema,
@@ -29,19 +77,31 @@ const createActiveTradeSchema = z.object({
   leverage: z.number().positive().optional(),
   stopLossPrice: z.number().positive().optional(),
   takeProfitPrice: z.number().positive().optional(),
+  // Replaces `takeProfitPrice` when given
+  takeProfitLevels: takeProfitLevelsSchema.optional(),
   entryDate: z.coerce.date().optional(),
+  entryFeeUsd: z.number().nonnegative().optional(),
   comment: z.string().max(1000).optional(),
+  tagIds: tagIdsSchema.optional(),
+  strategyId: strategyIdSchema.optional(),
 });
 
 const createClosedTradeSchema = createActiveTradeSchema.extend({
   exitPrice: z.number().positive(),
   exitDate: z.coerce.date().optional(),
+  exitFeeUsd: z.number().nonnegative().optional(),
 });
 
 const editTradeSchema = z.object({
   comment: z.string().max(1000).optional(),
+  tagIds: tagIdsSchema.optional(),
+  strategyId: strategyIdSchema.nullable().optional(),
   stopLossPrice: z.number().positive().nullable().optional(),
   takeProfitPrice: z.number().positive().nullable().optional(),
+  // Replaces the whole ladder; a single `takeProfitPrice` clears it instead
+  takeProfitLevels: takeProfitLevelsSchema.optional(),
+  // Corrects the planned stop; moving `stopLossPrice` never changes it
+  initialStopLossPrice: z.number().positive().optional(),
   coin: z.string().min(1).optional(),
   side: SideSchema.optional(),
   entryPrice: z.number().positive().optional(),
@@ -50,23 +110,33 @@ const editTradeSchema = z.object({
   entryDate: z.coerce.date().optional(),
   exitPrice: z.number().positive().optional(),
   exitDate: z.coerce.date().optional(),
+  entryFeeUsd: z.number().nonnegative().nullable().optional(),
+  exitFeeUsd: z.number().nonnegative().nullable().optional(),
+  manualMarkPrice: z.number().positive().nullable().optional(),
 });
 
-const closedTradeEditableKeys = ['coin', 'side', 'entryPrice', 'amountInvestedUsd', 'leverage', 'entryDate', 'exitPrice', 'exitDate'] as const;
+// Edits that move the stop, the target or the average entry they are checked against
+const targetRelevantKeys = ['stopLossPrice', 'takeProfitPrice', 'takeProfitLevels', 'initialStopLossPrice', 'side', 'entryPrice', 'amountInvestedUsd', 'leverage'] as const;
+
+const closedTradeEditableKeys = ['coin', 'side', 'entryPrice', 'amountInvestedUsd', 'leverage', 'entryDate', 'exitPrice', 'exitDate', 'entryFeeUsd', 'exitFeeUsd'] as const;
 
 const addSizeSchema = z.object({
   entryPrice: z.number().positive(),
   amountInvestedUsd: z.number().positive(),
   leverage: z.number().positive().optional(),
   entryDate: z.coerce.date().optional(),
+  feeUsd: z.number().nonnegative().optional(),
 });
 
 const sellSchemaBase = z.object({
   closePrice: z.number().positive(),
   closeDate: z.coerce.date().optional(),
+  feeUsd: z.number().nonnegative().optional(),
   amountCoin: z.number().positive().optional(),
   amountUsd: z.number().positive().optional(),
   percentage: z.number().positive().max(100).optional(),
+  // Ladder level this close fills
+  takeProfitLevelId: objectIdString('Invalid level id').optional(),
 });
 
 const sellSchema = sellSchemaBase.refine((data) => {
@@ -74,69 +144,166 @@ const sellSchema = sellSchemaBase.refine((data) => {
   return present.length === 1;
 }, { message: 'Provide exactly one of amountCoin, amountUsd, or percentage' });
 
-function computeTradeAggregates(trade: ITrade) {
-  const entries = trade.entries || [];
-  const closes = trade.closes || [];
-
-  let totalInitialMarginUsd = 0;
-  let totalEntryCoin = 0;
-  let totalEntryNotionalUsd = 0;
-
-  for (const e of entries) {
-    const leverage = e.leverage ?? 1;
-    const margin = e.amountInvestedUsd;
-    const notional = margin * leverage;
-    const coin = notional / e.entryPrice;
-    totalInitialMarginUsd += margin;
-    totalEntryNotionalUsd += notional;
-    totalEntryCoin += coin;
-  }
+const editEntrySchema = z.object({
+  entryPrice: z.number().positive().optional(),
+  amountInvestedUsd: z.number().positive().optional(),
+  leverage: z.number().positive().nullable().optional(),
+  entryDate: z.coerce.date().optional(),
+  feeUsd: z.number().nonnegative().nullable().optional(),
+});
 
-  let totalClosedCoin = 0;
-  let realizedPnlUsd = 0;
-  for (const c of closes) {
-    totalClosedCoin += c.closeCoinAmount;
-    realizedPnlUsd += c.pnlUsd;
-  }
+const editCloseSchema = z.object({
+  closePrice: z.number().positive().optional(),
+  closeCoinAmount: z.number().positive().optional(),
+  closeDate: z.coerce.date().optional(),
+  feeUsd: z.number().nonnegative().nullable().optional(),
+});
 
-  const openCoin = Math.max(totalEntryCoin - totalClosedCoin, 0);
-  const avgEntryPrice = totalEntryCoin > 0 ? totalEntryNotionalUsd / totalEntryCoin : null;
-  const effectiveLeverage = totalInitialMarginUsd > 0 ? totalEntryNotionalUsd / totalInitialMarginUsd : null;
+// Manual funding entry: positive when received, negative when paid
+const fundingPaymentSchema = z.object({
+  amountUsd: z.number().refine((v) => v !== 0, { message: 'Amount must not be zero' }),
+  paidAt: z.coerce.date().optional(),
+});
 
-  const openNotionalUsd = openCoin > 0 && avgEntryPrice != null ? openCoin * avgEntryPrice : null;
-  const openMarginUsd = openNotionalUsd != null && effectiveLeverage && effectiveLeverage > 0
-    ? openNotionalUsd / effectiveLeverage
-    : null;
-  const debtUsd = openNotionalUsd != null && openMarginUsd != null ? openNotionalUsd - openMarginUsd : null;
+const equityCurveQuerySchema = z.object({
+  interval: z.enum(['day', 'week']).default('day'),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  // Comma-separated list of coins
+  coin: z.string().optional(),
+  startingBalanceUsd: z.coerce.number().nonnegative().optional(),
+});
 
-  const realizedPnlPercent = totalInitialMarginUsd > 0 ? (realizedPnlUsd / totalInitialMarginUsd) * 100 : null;
+const analyticsQuerySchema = z.object({
+  // Range applies to the date a trade was fully closed
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  coin: z.string().optional(),
+  capitalUsd: z.coerce.number().positive().optional(),
+});
 
-  let liquidationPrice: number | null = null;
-  if (effectiveLeverage && effectiveLeverage > 1 && avgEntryPrice != null) {
-    if (trade.side === 'long') {
-      liquidationPrice = avgEntryPrice * (1 - 1 / effectiveLeverage);
-    } else {
-      liquidationPrice = avgEntryPrice * (1 + 1 / effectiveLeverage);
-    }
-  }
+const realizedGainsQuerySchema = z.object({
+  // Range applies to the disposal (close) date
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  coin: z.string().optional(),
+  // Defaults to the user's cost-basis setting
+  method: z.enum(COST_BASIS_METHODS).optional(),
+  format: z.enum(['json', 'csv']).default('json'),
+});
+
+const exportQuerySchema = tradeFilterSchema.extend({
+  format: z.enum(['csv']).default('csv'),
+  // Which file to produce: trades with metrics, or every entry / close
+  dataset: z.enum(EXPORT_DATASETS).default('trades'),
+});
+
+const csvImportSchema = z.object({
+  format: z.literal('csv'),
+  csv: z.string().min(1),
+  mapping: columnMappingSchema,
+  delimiter: z.string().length(1).default(','),
+  // Validate and preview only; nothing is written unless dryRun is false
+  dryRun: z.boolean().default(true),
+});
+
+// Trade-history export files downloaded from an exchange; columns are known per format
+const historyImportSchema = z.object({
+  format: z.enum(HISTORY_FORMATS),
+  csv: z.string().min(1),
+  leverage: z.number().positive().optional(),
+  dryRun: z.boolean().default(true),
+});
+
+const importSchema = z.preprocess(
+  (body) => (body && typeof body === 'object' && !('format' in body) ? { ...body, format: 'csv' } : body),
+  z.discriminatedUnion('format', [csvImportSchema, historyImportSchema]),
+);
+
+const IMPORT_BODY_LIMIT = 10 * 1024 * 1024;
+
+type CreateActiveTradeInput = z.infer<typeof createActiveTradeSchema>;
+type CreateClosedTradeInput = z.infer<typeof createClosedTradeSchema>;
+
+// Document fields (without userId) for a new single-entry active trade
+function activeTradeFields(data: CreateActiveTradeInput) {
+  const { coin, side, entryPrice, amountInvestedUsd, leverage, stopLossPrice, takeProfitPrice, takeProfitLevels, entryDate, entryFeeUsd, comment, tagIds, strategyId } = data;
+
+  const entry: ITrade['entries'][number] = {
+    entryPrice,
+    amountInvestedUsd,
+    leverage,
+    entryDate: entryDate ?? new Date(),
+    feeUsd: entryFeeUsd,
+  };
+
+  return {
+    side,
+    status: 'active' as const,
+    coin,
+    comment,
+    tagIds: [...new Set(tagIds ?? [])],
+    strategyId,
+    stopLossPrice,
+    takeProfitPrice,
+    takeProfitLevels: buildTakeProfitLevels(side, takeProfitLevels ?? []),
+    entries: [entry],
+    closes: [],
+  };
+}
+
+// Document fields (without userId) for a trade entered and fully exited at once
+function closedTradeFields(data: CreateClosedTradeInput) {
+  const { coin, side, entryPrice, amountInvestedUsd, leverage, stopLossPrice, takeProfitPrice, takeProfitLevels, entryDate, entryFeeUsd, comment, tagIds, strategyId, exitPrice, exitDate, exitFeeUsd } = data;
+
+  const entry: ITrade['entries'][number] = {
+    entryPrice,
+    amountInvestedUsd,
+    leverage,
+    entryDate: entryDate ?? exitDate ?? new Date(),
+    feeUsd: entryFeeUsd,
+  };
+
+  const aggregates = computeTradeAggregates({ side, entries: [entry], closes: [] });
+  const fullCoin = aggregates.totalEntryCoin;
+  const closeUsdAmount = fullCoin * exitPrice;
+
+  const marginForTrade = aggregates.totalInitialMarginUsd;
+  const pnlUsd = side === 'long'
+    ? (exitPrice - (aggregates.avgEntryPrice ?? entryPrice)) * fullCoin
+    : ((aggregates.avgEntryPrice ?? entryPrice) - exitPrice) * fullCoin;
+  const pnlPercent = marginForTrade > 0 ? (pnlUsd / marginForTrade) * 100 : 0;
+
+  const close: ITrade['closes'][number] = {
+    closePrice: exitPrice,
+    closeCoinAmount: fullCoin,
+    closeUsdAmount,
+    closeDate: exitDate ?? new Date(),
+    pnlUsd,
+    pnlPercent,
+    feeUsd: exitFeeUsd,
+  };
 
   return {
-    totalInitialMarginUsd,
-    totalEntryCoin,
-    openCoin,
-    avgEntryPrice,
-    effectiveLeverage,
-    openNotionalUsd,
-    openMarginUsd,
-    debtUsd,
-    realizedPnlUsd,
-    realizedPnlPercent,
-    liquidationPrice,
+    side,
+    status: 'closed' as const,
+    coin,
+    comment,
+    tagIds: [...new Set(tagIds ?? [])],
+    strategyId,
+    stopLossPrice,
+    takeProfitPrice,
+    takeProfitLevels: buildTakeProfitLevels(side, takeProfitLevels ?? []),
+    entries: [entry],
+    closes: [close],
   };
 }
 
-function toTradeDto(trade: ITrade) {
-  const metrics = computeTradeAggregates(trade);
+function toTradeDto(trade: ITrade, markPrice?: MarkPriceQuote) {
+  const aggregates = computeTradeAggregates(trade);
+  const unrealized = computeUnrealizedMetrics(trade, aggregates, markPrice?.price ?? null);
+  const { closeRMultiples, ...risk } = computeRiskMetrics(trade, aggregates);
+  const exitPlan = computeExitPlan(trade, aggregates);
 
   const raw: any = trade as any;
   // When coming from .lean(), we have _id; when coming from .toJSON(), our schema transform
@@ -149,61 +316,190 @@ function toTradeDto(trade: ITrade) {
     side: trade.side,
     status: trade.status,
     comment: trade.comment ?? null,
+    tagIds: (trade.tagIds ?? []).map((t) => t.toString()),
+    strategyId: trade.strategyId?.toString() ?? null,
     stopLossPrice: trade.stopLossPrice ?? null,
     takeProfitPrice: trade.takeProfitPrice ?? null,
+    manualMarkPrice: trade.manualMarkPrice ?? null,
+    markPriceSource: unrealized.markPrice != null ? markPrice!.source : null,
     entries: trade.entries.map((e) => ({
+      id: e._id?.toString() ?? null,
       entryPrice: e.entryPrice,
       amountInvestedUsd: e.amountInvestedUsd,
       leverage: e.leverage ?? null,
       entryDate: e.entryDate,
+      feeUsd: e.feeUsd ?? null,
     })),
-    closes: trade.closes.map((c) => ({
+    closes: trade.closes.map((c, index) => ({
+      id: c._id?.toString() ?? null,
       closePrice: c.closePrice,
       closeCoinAmount: c.closeCoinAmount,
       closeUsdAmount: c.closeUsdAmount,
       closeDate: c.closeDate,
       pnlUsd: c.pnlUsd,
       pnlPercent: c.pnlPercent,
+      rMultiple: closeRMultiples[index],
+      feeUsd: c.feeUsd ?? null,
     })),
-    metrics,
+    fundingPayments: (trade.fundingPayments ?? []).map((f) => ({
+      amountUsd: f.amountUsd,
+      paidAt: f.paidAt,
+    })),
+    takeProfitLevels: (trade.takeProfitLevels ?? []).map((l) => {
+      const close = l.closeId ? trade.closes.find((c) => c._id?.toString() === l.closeId!.toString()) : undefined;
+      return {
+        id: l._id?.toString() ?? null,
+        price: l.price,
+        percent: l.percent,
+        filledAt: l.filledAt ?? null,
+        closeId: l.closeId?.toString() ?? null,
+        fillPrice: close?.closePrice ?? null,
+      };
+    }),
+    stopLossHistory: (trade.stopLossHistory ?? []).map((h) => ({ price: h.price ?? null, changedAt: h.changedAt })),
+    metrics: { ...aggregates, ...unrealized, ...risk, ...exitPlan },
+    // Non-blocking target problems per field, such as a stop past liquidation
+    warnings: checkTradeTargets(trade).warnings,
+    deletedAt: trade.deletedAt ?? null,
     createdAt: trade.createdAt,
     updatedAt: trade.updatedAt,
   };
 }
 
+/**
+ * Rejects a stop or target on the wrong side of the entry with a 400 shaped like a zod validation
+ * error. `asField` reports every message on that input instead, for forms without target fields.
+ */
+function sendTargetErrors(reply: FastifyReply, { errors, warnings }: TargetCheck, asField?: string) {
+  const fieldErrors = asField ? { [asField]: Object.values(errors).flat() } : errors;
+  return reply.code(400).send({ error: { formErrors: [], fieldErrors }, warnings });
+}
+
+// Who changed a trade and through which route, for its revision history
+function revisionContext(req: FastifyRequest & { userId: string }, action: TradeRevisionAction): RevisionContext {
+  return { actorId: req.userId, action, route: `${req.method} ${req.routeOptions.url}` };
+}
+
+const revertSchema = z.object({
+  revisionId: z.string().refine((v) => Types.ObjectId.isValid(v), { message: 'Invalid revision id' }),
+});
+
 export async function registerTradeRoutes(app: FastifyInstance) {
-  // List trades
+  const trashRetentionDays = loadApiEnv().TRASH_RETENTION_DAYS ?? DEFAULT_TRASH_RETENTION_DAYS;
+
+  // Single-trade responses carry the same unrealized metrics as the list
+  async function pricedTradeDto(trade: HydratedDocument<ITrade>) {
+    const quotes = app.priceProvider ? await app.priceProvider.quoteTrades([trade]) : undefined;
+    return toTradeDto(trade.toJSON() as unknown as ITrade, quotes?.get(trade._id.toString()));
+  }
+
+  // List trades (filtered, sorted and paginated by cursor)
   app.get('/trades', async (req: FastifyRequest, reply: FastifyReply) => {
     if (!requireAuth(req, reply)) return;
-    const status = (req.query as any)?.status as 'active' | 'closed' | undefined;
-    const query: any = { userId: req.userId };
-    if (status === 'active' || status === 'closed') query.status = status;
-    const trades = await Trade.find(query).sort({ createdAt: -1 }).lean<ITrade[]>();
-    return reply.send(trades.map(toTradeDto));
+    const parsed = tradeListQuerySchema.safeParse(req.query);
+    if (!parsed.success) return reply.code(400).send({ error: parsed.error.flatten() });
+
+    let page;
+    try {
+      page = buildTradePageQuery(req.userId, parsed.data);
+    } catch (err) {
+      if (err instanceof InvalidCursorError) return reply.code(400).send({ error: err.message });
+      throw err;
+    }
+
+    // One extra row tells whether another page exists
+    const trades = await Trade.find(page.filter).sort(page.sort).limit(page.limit + 1).lean<ITrade[]>();
+    const items = trades.slice(0, page.limit);
+    const nextCursor = trades.length > page.limit ? page.nextCursor(items[items.length - 1]) : null;
+
+    const quotes = app.priceProvider ? await app.priceProvider.quoteTrades(items) : new Map<string, MarkPriceQuote>();
+    return reply.send({
+      items: items.map((t) => toTradeDto(t, quotes.get(t._id.toString()))),
+      nextCursor,
+    });
+  });
+
+  // Download trades matching the list filters as CSV
+  app.get('/trades/export', async (req: FastifyRequest, reply: FastifyReply) => {
+    if (!requireAuth(req, reply)) return;
+    const parsed = exportQuerySchema.safeParse(req.query);
+    if (!parsed.success) return reply.code(400).send({ error: parsed.error.flatten() });
+    const { format, dataset, ...filter } = parsed.data;
+
+    const trades = await Trade.find(buildTradeFilter(req.userId, filter)).sort({ createdAt: -1 }).lean<ITrade[]>();
+    const filename = `${dataset}-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+    return reply
+      .header('Content-Type', 'text/csv; charset=utf-8')
+      .header('Content-Disposition', `attachment; filename="${filename}"`)
+      .send(exportTradesCsv(trades, dataset));
+  });
+
+  // Lot-level realized gains (proceeds, cost, fees) for tax reporting
+  app.get('/trades/realized-gains', async (req: FastifyRequest, reply: FastifyReply) => {
+    if (!requireAuth(req, reply)) return;
+    const parsed = realizedGainsQuerySchema.safeParse(req.query);
+    if (!parsed.success) return reply.code(400).send({ error: parsed.error.flatten() });
+    const { from, to, coin, format } = parsed.data;
+    const method = parsed.data.method ?? (await getCostBasisMethod(req.userId));
+
+    const query: any = { userId: req.userId, deletedAt: null, 'closes.0': { $exists: true } };
+    const coins = coin?.split(',').map((c) => c.trim().toUpperCase()).filter(Boolean) ?? [];
+    if (coins.length > 0) query.coin = { $in: coins };
+    const trades = await Trade.find(query).lean<ITrade[]>();
+    const report = buildRealizedGains(trades, method, { from, to });
+
+    if (format === 'csv') {
+      const filename = `realized-gains-${method}-${new Date().toISOString().slice(0, 10)}.csv`;
+      return reply
+        .header('Content-Type', 'text/csv; charset=utf-8')
+        .header('Content-Disposition', `attachment; filename="${filename}"`)
+        .send(realizedGainsCsv(report));
+    }
+    return reply.send(report);
   });
 
   // Summary (Total PnL etc.)
   app.get('/trades/summary', async (req: FastifyRequest, reply: FastifyReply) => {
     if (!requireAuth(req, reply)) return;
-    const trades = await Trade.find({ userId: req.userId, status: 'closed' }).lean<ITrade[]>();
-    let totalPnlUsd = 0;
-    let totalInvestedUsd = 0;
-    let winningTrades = 0;
-    
-    for (const t of trades) {
-      const m = computeTradeAggregates(t);
-      totalPnlUsd += m.realizedPnlUsd;
-      totalInvestedUsd += m.totalInitialMarginUsd;
-      if (m.realizedPnlUsd > 0) {
-        winningTrades++;
-      }
-    }
-    
-    const totalPnlPercent = totalInvestedUsd > 0 ? (totalPnlUsd / totalInvestedUsd) * 100 : null;
-    const totalTrades = trades.length;
-    const winRate = totalTrades > 0 ? (winningTrades / totalTrades) * 100 : null;
-    
-    return reply.send({ totalPnlUsd, totalPnlPercent, totalInvestedUsd, totalTrades, winRate });
+    const trades = await Trade.find({ userId: req.userId, status: 'closed', deletedAt: null }).lean<ITrade[]>();
+    return reply.send(computeTradeSummary(trades));
+  });
+
+  // Cumulative realized PnL over time with drawdown statistics
+  app.get('/trades/equity-curve', async (req: FastifyRequest, reply: FastifyReply) => {
+    if (!requireAuth(req, reply)) return;
+    const parsed = equityCurveQuerySchema.safeParse(req.query);
+    if (!parsed.success) return reply.code(400).send({ error: parsed.error.flatten() });
+    const { coin, ...options } = parsed.data;
+
+    // Active trades count too: their partial closes are already realized
+    const query: any = { userId: req.userId, deletedAt: null };
+    const coins = coin?.split(',').map((c) => c.trim().toUpperCase()).filter(Boolean) ?? [];
+    if (coins.length > 0) query.coin = { $in: coins };
+    const trades = await Trade.find(query).lean<ITrade[]>();
+
+    return reply.send(computeEquityCurve(trades, options));
+  });
+
+  // Performance analytics over closed trades
+  app.get('/trades/analytics', async (req: FastifyRequest, reply: FastifyReply) => {
+    if (!requireAuth(req, reply)) return;
+    const parsed = analyticsQuerySchema.safeParse(req.query);
+    if (!parsed.success) return reply.code(400).send({ error: parsed.error.flatten() });
+    const { from, to, coin, capitalUsd } = parsed.data;
+
+    const query: any = { userId: req.userId, status: 'closed', deletedAt: null };
+    const coins = coin?.split(',').map((c) => c.trim().toUpperCase()).filter(Boolean) ?? [];
+    if (coins.length > 0) query.coin = { $in: coins };
+    const trades = (await Trade.find(query).lean<ITrade[]>()).filter((t) => {
+      const closedAt = t.closes[t.closes.length - 1]?.closeDate;
+      if (!closedAt) return false;
+      return (!from || closedAt >= from) && (!to || closedAt <= to);
+    });
+
+    const names = await catalogNames(req.userId);
+    return reply.send(computeTradeAnalytics(trades, { capitalUsd, tagNames: names.tags, strategyNames: names.strategies }));
   });
 
   // Create active trade
@@ -211,29 +507,24 @@ export async function registerTradeRoutes(app: FastifyInstance) {
     if (!requireAuth(req, reply)) return;
     const parsed = createActiveTradeSchema.safeParse(req.body);
     if (!parsed.success) return reply.code(400).send({ error: parsed.error.flatten() });
-    const { coin, side, entryPrice, amountInvestedUsd, leverage, stopLossPrice, takeProfitPrice, entryDate, comment } = parsed.data;
-
-    const entry: ITrade['entries'][number] = {
-      entryPrice,
-      amountInvestedUsd,
-      leverage,
-      entryDate: entryDate ?? new Date(),
-    };
+    try {
+      await assertCatalogRefs(req.userId, parsed.data);
+    } catch (err) {
+      if (err instanceof CatalogRefError) return reply.code(400).send({ error: err.message });
+      throw err;
+    }
+    const fields = activeTradeFields(parsed.data);
+    const targets = checkTradeTargets(fields);
+    if (hasTargetIssues(targets.errors)) return sendTargetErrors(reply, targets);
 
     const trade = await Trade.create({
       // Let Mongoose cast the string userId to ObjectId
       userId: (req as any).userId,
-      side,
-      status: 'active',
-      coin,
-      comment,
-      stopLossPrice,
-      takeProfitPrice,
-      entries: [entry],
-      closes: [],
+      ...fields,
     });
+    await recordTradeRevision(trade, null, revisionContext(req, 'create'));
 
-    return reply.code(201).send(toTradeDto(trade.toJSON() as unknown as ITrade));
+    return reply.code(201).send(await pricedTradeDto(trade));
   });
 
   // Create already-closed trade
@@ -241,63 +532,127 @@ export async function registerTradeRoutes(app: FastifyInstance) {
     if (!requireAuth(req, reply)) return;
     const parsed = createClosedTradeSchema.safeParse(req.body);
     if (!parsed.success) return reply.code(400).send({ error: parsed.error.flatten() });
-    const { coin, side, entryPrice, amountInvestedUsd, leverage, stopLossPrice, takeProfitPrice, entryDate, comment, exitPrice, exitDate } = parsed.data;
-
-    const entry: ITrade['entries'][number] = {
-      entryPrice,
-      amountInvestedUsd,
-      leverage,
-      entryDate: entryDate ?? exitDate ?? new Date(),
-    };
-
-    const tmpTrade: ITrade = {
-      _id: new (Trade as any).db.base.Types.ObjectId(),
-      // For the temporary in-memory trade we only need a string; aggregates do not use userId
-      userId: (req as any).userId as any,
-      side,
-      status: 'closed',
-      coin,
-      comment,
-      stopLossPrice,
-      takeProfitPrice,
-      entries: [entry],
-      closes: [],
-      createdAt: exitDate ?? new Date(),
-      updatedAt: exitDate ?? new Date(),
-    } as any;
-
-    const aggregates = computeTradeAggregates(tmpTrade);
-    const fullCoin = aggregates.totalEntryCoin;
-    const closeUsdAmount = fullCoin * exitPrice;
-
-    const marginForTrade = aggregates.totalInitialMarginUsd;
-    const pnlUsd = side === 'long'
-      ? (exitPrice - (aggregates.avgEntryPrice ?? entryPrice)) * fullCoin
-      : ((aggregates.avgEntryPrice ?? entryPrice) - exitPrice) * fullCoin;
-    const pnlPercent = marginForTrade > 0 ? (pnlUsd / marginForTrade) * 100 : 0;
-
-    const close: ITrade['closes'][number] = {
-      closePrice: exitPrice,
-      closeCoinAmount: fullCoin,
-      closeUsdAmount,
-      closeDate: exitDate ?? new Date(),
-      pnlUsd,
-      pnlPercent,
-    };
+    try {
+      await assertCatalogRefs(req.userId, parsed.data);
+    } catch (err) {
+      if (err instanceof CatalogRefError) return reply.code(400).send({ error: err.message });
+      throw err;
+    }
+    const fields = closedTradeFields(parsed.data);
+    const targets = checkTradeTargets(fields);
+    if (hasTargetIssues(targets.errors)) return sendTargetErrors(reply, targets);
 
     const trade = await Trade.create({
-      userId: tmpTrade.userId,
-      side,
-      status: 'closed',
-      coin,
-      comment,
-      stopLossPrice,
-      takeProfitPrice,
-      entries: [entry],
-      closes: [close],
+      userId: (req as any).userId,
+      ...fields,
+    });
+    await recordTradeRevision(trade, null, revisionContext(req, 'create'));
+
+    return reply.code(201).send(await pricedTradeDto(trade));
+  });
+
+  // Import trades from a CSV file, either with a client-provided column mapping or from an exchange export
+  app.post('/trades/import', { bodyLimit: IMPORT_BODY_LIMIT }, async (req: FastifyRequest, reply: FastifyReply) => {
+    if (!requireAuth(req, reply)) return;
+    const parsed = importSchema.safeParse(req.body);
+    if (!parsed.success) return reply.code(400).send({ error: parsed.error.flatten() });
+
+    if (parsed.data.format !== 'csv') {
+      const { format, csv, leverage, dryRun } = parsed.data;
+      let result;
+      try {
+        result = await importTradeHistory(req.userId, format, csv, { leverage });
+      } catch (err) {
+        if (err instanceof CsvImportError) return reply.code(400).send({ error: err.message });
+        throw err;
+      }
+
+      let imported = 0;
+      if (!dryRun && result.trades.length > 0) {
+        const created = await Trade.insertMany(result.trades);
+        await recordCreatedTrades(created, revisionContext(req, 'import'));
+        imported = created.length;
+      }
+
+      return reply.send({
+        dryRun,
+        format,
+        totalRows: result.totalRows,
+        validRows: result.validRows,
+        invalidRows: result.invalidRows.length,
+        duplicateFills: result.duplicateFills,
+        imported,
+        rows: result.invalidRows.map(({ line, message }) => ({
+          line,
+          valid: false,
+          errors: { formErrors: [message], fieldErrors: {} },
+        })),
+        warnings: result.warnings,
+        trades: result.trades.map((t) => toTradeDto(t.toObject() as ITrade)),
+      });
+    }
+
+    const { csv, mapping, delimiter, dryRun } = parsed.data;
+
+    let mapped;
+    try {
+      mapped = mapCsvRows(csv, mapping, delimiter);
+    } catch (err) {
+      if (err instanceof CsvImportError) return reply.code(400).send({ error: err.message });
+      throw err;
+    }
+
+    // Rows are validated with the same schemas as the create routes
+    const rows = mapped.map(({ line, input }) => {
+      const isClosed = input.exitPrice !== undefined || input.exitDate !== undefined || input.exitFeeUsd !== undefined;
+      const result = isClosed ? createClosedTradeSchema.safeParse(input) : createActiveTradeSchema.safeParse(input);
+      if (!result.success) return { line, valid: false as const, errors: result.error.flatten() };
+      const fields = isClosed
+        ? closedTradeFields(result.data as CreateClosedTradeInput)
+        : activeTradeFields(result.data as CreateActiveTradeInput);
+      // Same stop and target rules as creating the trade by hand
+      const targets = checkTradeTargets(fields);
+      if (hasTargetIssues(targets.errors)) {
+        return { line, valid: false as const, errors: { formErrors: [] as string[], fieldErrors: targets.errors } };
+      }
+      return { line, valid: true as const, fields };
     });
 
-    return reply.code(201).send(toTradeDto(trade.toJSON() as unknown as ITrade));
+    const valid = rows.filter((r) => r.valid);
+    let imported = 0;
+    if (!dryRun && valid.length > 0) {
+      const created = await Trade.insertMany(valid.map((r) => ({ userId: req.userId, ...r.fields! })));
+      await recordCreatedTrades(created, revisionContext(req, 'import'));
+      imported = created.length;
+    }
+
+    return reply.send({
+      dryRun,
+      totalRows: rows.length,
+      validRows: valid.length,
+      invalidRows: rows.length - valid.length,
+      imported,
+      rows: rows.map((r) =>
+        r.valid
+          ? {
+              line: r.line,
+              valid: true,
+              trade: {
+                coin: r.fields.coin.toUpperCase(),
+                side: r.fields.side,
+                status: r.fields.status,
+                entryPrice: r.fields.entries[0].entryPrice,
+                amountInvestedUsd: r.fields.entries[0].amountInvestedUsd,
+                leverage: r.fields.entries[0].leverage ?? null,
+                entryDate: r.fields.entries[0].entryDate,
+                exitPrice: r.fields.closes[0]?.closePrice ?? null,
+                exitDate: r.fields.closes[0]?.closeDate ?? null,
+                pnlUsd: r.fields.closes[0]?.pnlUsd ?? null,
+              },
+            }
+          : { line: r.line, valid: false, errors: r.errors },
+      ),
+    });
   });
 
   // Edit trade basic info
@@ -307,8 +662,16 @@ export async function registerTradeRoutes(app: FastifyInstance) {
     if (!parsed.success) return reply.code(400).send({ error: parsed.error.flatten() });
 
     const { id } = req.params as any;
-    const trade = await Trade.findOne({ _id: id, userId: req.userId });
+    try {
+      await assertCatalogRefs(req.userId, parsed.data);
+    } catch (err) {
+      if (err instanceof CatalogRefError) return reply.code(400).send({ error: err.message });
+      throw err;
+    }
+
+    const trade = await Trade.findOne({ _id: id, userId: req.userId, deletedAt: null });
     if (!trade) return reply.code(404).send({ error: 'Trade not found' });
+    const before = tradeSnapshot(trade);
 
     const closedFieldsProvided = closedTradeEditableKeys.some((key) => (parsed.data as any)[key] !== undefined);
     if (closedFieldsProvided && trade.status !== 'closed') {
@@ -316,12 +679,27 @@ export async function registerTradeRoutes(app: FastifyInstance) {
     }
 
     if (parsed.data.comment !== undefined) trade.comment = parsed.data.comment;
+    if (parsed.data.tagIds !== undefined) trade.tagIds = [...new Set(parsed.data.tagIds)].map((t) => new Types.ObjectId(t));
+    if (parsed.data.strategyId !== undefined) {
+      trade.strategyId = parsed.data.strategyId ? new Types.ObjectId(parsed.data.strategyId) : undefined;
+    }
     if (parsed.data.stopLossPrice !== undefined) trade.stopLossPrice = parsed.data.stopLossPrice ?? undefined;
-    if (parsed.data.takeProfitPrice !== undefined) trade.takeProfitPrice = parsed.data.takeProfitPrice ?? undefined;
+    if (parsed.data.takeProfitLevels !== undefined) {
+      trade.takeProfitLevels = buildTakeProfitLevels(parsed.data.side ?? trade.side, parsed.data.takeProfitLevels, trade.takeProfitLevels);
+      if (parsed.data.takeProfitLevels.length === 0) trade.takeProfitPrice = undefined;
+    } else if (parsed.data.takeProfitPrice !== undefined) {
+      trade.takeProfitLevels = [];
+      trade.takeProfitPrice = parsed.data.takeProfitPrice ?? undefined;
+    }
+    if (parsed.data.initialStopLossPrice !== undefined) trade.initialStopLossPrice = parsed.data.initialStopLossPrice;
+    if (parsed.data.manualMarkPrice !== undefined) trade.manualMarkPrice = parsed.data.manualMarkPrice ?? undefined;
 
     if (trade.status === 'closed' && closedFieldsProvided) {
       if (trade.entries.length !== 1 || trade.closes.length !== 1) {
-        return reply.code(400).send({ error: 'Editing entry/exit details is only supported for single-entry closed trades' });
+        return reply.code(400).send({
+          error:
+            'This trade has several entries or closes; edit them one at a time with PATCH /trades/:id/entries/:entryId and PATCH /trades/:id/closes/:closeId',
+        });
       }
 
       const entry = trade.entries[0];
@@ -331,12 +709,19 @@ export async function registerTradeRoutes(app: FastifyInstance) {
         return reply.code(400).send({ error: 'Closed trade is missing entry or close information' });
       }
 
+      const pnlKeys = ['side', 'entryPrice', 'amountInvestedUsd', 'leverage', 'exitPrice'] as const;
+      if (closeRecord.exchangeOrderId && pnlKeys.some((key) => parsed.data[key] !== undefined)) {
+        return reply.code(400).send({ error: 'Prices and size of a trade synced from the exchange cannot be edited' });
+      }
+
       if (parsed.data.coin !== undefined) trade.coin = parsed.data.coin.toUpperCase();
       if (parsed.data.side !== undefined) trade.side = parsed.data.side;
       if (parsed.data.entryPrice !== undefined) entry.entryPrice = parsed.data.entryPrice;
       if (parsed.data.amountInvestedUsd !== undefined) entry.amountInvestedUsd = parsed.data.amountInvestedUsd;
       if (parsed.data.leverage !== undefined) entry.leverage = parsed.data.leverage ?? undefined;
       if (parsed.data.entryDate !== undefined) entry.entryDate = parsed.data.entryDate ?? entry.entryDate;
+      if (parsed.data.entryFeeUsd !== undefined) entry.feeUsd = parsed.data.entryFeeUsd ?? undefined;
+      if (parsed.data.exitFeeUsd !== undefined) closeRecord.feeUsd = parsed.data.exitFeeUsd ?? undefined;
 
       const exitPrice = parsed.data.exitPrice ?? closeRecord.closePrice;
       if (!(exitPrice > 0)) {
@@ -345,8 +730,8 @@ export async function registerTradeRoutes(app: FastifyInstance) {
 
       const exitDate = parsed.data.exitDate ?? closeRecord.closeDate ?? new Date();
 
-      const tradeSnapshot = trade.toObject() as ITrade;
-      const aggregates = computeTradeAggregates(tradeSnapshot);
+      const current = trade.toObject() as ITrade;
+      const aggregates = computeTradeAggregates(current);
       const totalEntryCoin = aggregates.totalEntryCoin;
       if (!(totalEntryCoin > 0)) {
         return reply.code(400).send({ error: 'Trade must have entry size greater than zero' });
@@ -363,12 +748,22 @@ export async function registerTradeRoutes(app: FastifyInstance) {
       closeRecord.closeCoinAmount = totalEntryCoin;
       closeRecord.closeUsdAmount = closeUsdAmount;
       closeRecord.closeDate = exitDate;
-      closeRecord.pnlUsd = pnlUsd;
-      closeRecord.pnlPercent = pnlPercent;
+      // A synced close keeps the PnL the exchange reported
+      if (!closeRecord.exchangeOrderId) {
+        closeRecord.pnlUsd = pnlUsd;
+        closeRecord.pnlPercent = pnlPercent;
+      }
+    }
+
+    // Trades saved before targets were checked can still be edited as long as targets are left alone
+    if (targetRelevantKeys.some((key) => parsed.data[key] !== undefined)) {
+      const targets = checkTradeTargets(trade.toObject() as ITrade);
+      if (hasTargetIssues(targets.errors)) return sendTargetErrors(reply, targets);
     }
 
     await trade.save();
-    return reply.send(toTradeDto(trade.toJSON() as unknown as ITrade));
+    await recordTradeRevision(trade, before, revisionContext(req, 'edit'));
+    return reply.send(await pricedTradeDto(trade));
   });
 
   // Add size to active trade
@@ -378,19 +773,29 @@ export async function registerTradeRoutes(app: FastifyInstance) {
     if (!parsed.success) return reply.code(400).send({ error: parsed.error.flatten() });
 
     const { id } = req.params as any;
-    const trade = await Trade.findOne({ _id: id, userId: req.userId });
+    const trade = await Trade.findOne({ _id: id, userId: req.userId, deletedAt: null });
     if (!trade) return reply.code(404).send({ error: 'Trade not found' });
+    const before = tradeSnapshot(trade);
     if (trade.status !== 'active') return reply.code(400).send({ error: 'Cannot add size to closed trade' });
+    const targetsBefore = checkTradeTargets(trade.toObject() as ITrade);
 
     trade.entries.push({
       entryPrice: parsed.data.entryPrice,
       amountInvestedUsd: parsed.data.amountInvestedUsd,
       leverage: parsed.data.leverage,
       entryDate: parsed.data.entryDate ?? new Date(),
+      feeUsd: parsed.data.feeUsd,
     });
 
+    // The new entry moves the average entry; only reject it when that puts a target on the wrong side
+    const targets = checkTradeTargets(trade.toObject() as ITrade);
+    if (!hasTargetIssues(targetsBefore.errors) && hasTargetIssues(targets.errors)) {
+      return sendTargetErrors(reply, targets, 'entryPrice');
+    }
+
     await trade.save();
-    return reply.send(toTradeDto(trade.toJSON() as unknown as ITrade));
+    await recordTradeRevision(trade, before, revisionContext(req, 'add-size'));
+    return reply.send(await pricedTradeDto(trade));
   });
 
   // Sell / close part of a position
@@ -400,8 +805,9 @@ export async function registerTradeRoutes(app: FastifyInstance) {
     if (!parsed.success) return reply.code(400).send({ error: parsed.error.flatten() });
 
     const { id } = req.params as any;
-    const trade = await Trade.findOne({ _id: id, userId: req.userId });
+    const trade = await Trade.findOne({ _id: id, userId: req.userId, deletedAt: null });
     if (!trade) return reply.code(404).send({ error: 'Trade not found' });
+    const before = tradeSnapshot(trade);
     if (trade.status !== 'active') return reply.code(400).send({ error: 'Trade already closed' });
 
     const aggregatesBefore = computeTradeAggregates(trade.toJSON() as unknown as ITrade);
@@ -409,7 +815,10 @@ export async function registerTradeRoutes(app: FastifyInstance) {
       return reply.code(400).send({ error: 'No open position to sell' });
     }
 
-    const { closePrice, closeDate, amountCoin, amountUsd, percentage } = parsed.data;
+    const { closePrice, closeDate, feeUsd, amountCoin, amountUsd, percentage, takeProfitLevelId } = parsed.data;
+    const level = takeProfitLevelId ? trade.takeProfitLevels.find((l) => l._id?.equals(takeProfitLevelId)) : undefined;
+    if (takeProfitLevelId && !level) return reply.code(404).send({ error: 'Take-profit level not found' });
+    if (level?.filledAt) return reply.code(400).send({ error: 'Take-profit level already filled' });
 
     const openCoin = aggregatesBefore.openCoin;
     let closeCoin = 0;
@@ -427,43 +836,242 @@ export async function registerTradeRoutes(app: FastifyInstance) {
 
     if (closeCoin > openCoin) closeCoin = openCoin;
 
-    const closeUsdAmount = closeCoin * closePrice;
-
-    const marginForPortion = aggregatesBefore.totalInitialMarginUsd > 0 && aggregatesBefore.totalEntryCoin > 0
-      ? aggregatesBefore.totalInitialMarginUsd * (closeCoin / aggregatesBefore.totalEntryCoin)
-      : 0;
-
-    const avgEntry = aggregatesBefore.avgEntryPrice;
-    const pnlUsd = trade.side === 'long'
-      ? (closePrice - avgEntry!) * closeCoin
-      : (avgEntry! - closePrice) * closeCoin;
-
-    const pnlPercent = marginForPortion > 0 ? (pnlUsd / marginForPortion) * 100 : 0;
-
     trade.closes.push({
       closePrice,
       closeCoinAmount: closeCoin,
-      closeUsdAmount,
+      closeUsdAmount: closeCoin * closePrice,
       closeDate: closeDate ?? new Date(),
-      pnlUsd,
-      pnlPercent,
+      pnlUsd: 0,
+      pnlPercent: 0,
+      feeUsd,
     });
+    if (level) {
+      const close = trade.closes[trade.closes.length - 1];
+      level.filledAt = close.closeDate;
+      level.closeId = close._id;
+    }
 
-    const remainingOpenCoin = openCoin - closeCoin;
-    if (remainingOpenCoin <= 1e-8) {
-      trade.status = 'closed';
+    // PnL and status follow the trade's cost-basis method (average entry, FIFO or LIFO lots)
+    try {
+      recalculateTrade(trade, await tradeCostBasisMethod(req.userId, trade));
+    } catch (err) {
+      if (err instanceof TradeLegError) return reply.code(400).send({ error: err.message });
+      throw err;
     }
 
     await trade.save();
-    return reply.send(toTradeDto(trade.toJSON() as unknown as ITrade));
+    await recordTradeRevision(trade, before, revisionContext(req, 'sell'));
+    return reply.send(await pricedTradeDto(trade));
   });
 
-  // Hard delete trade (will no longer count toward PnL)
+  // Record a funding payment on a perpetual trade
+  app.post('/trades/:id/funding', async (req: FastifyRequest, reply: FastifyReply) => {
+    if (!requireAuth(req, reply)) return;
+    const parsed = fundingPaymentSchema.safeParse(req.body);
+    if (!parsed.success) return reply.code(400).send({ error: parsed.error.flatten() });
+
+    const { id } = req.params as any;
+    const trade = await Trade.findOne({ _id: id, userId: req.userId, deletedAt: null });
+    if (!trade) return reply.code(404).send({ error: 'Trade not found' });
+    const before = tradeSnapshot(trade);
+
+    trade.fundingPayments.push({
+      amountUsd: parsed.data.amountUsd,
+      paidAt: parsed.data.paidAt ?? new Date(),
+    });
+
+    await trade.save();
+    await recordTradeRevision(trade, before, revisionContext(req, 'funding'));
+    return reply.send(await pricedTradeDto(trade));
+  });
+
+  // Re-derives close PnL and status after a leg changed, then saves and records the revision
+  async function saveLegChange(
+    req: FastifyRequest & { userId: string },
+    reply: FastifyReply,
+    trade: HydratedDocument<ITrade>,
+    before: TradeSnapshot,
+    action: TradeRevisionAction,
+  ) {
+    try {
+      recalculateTrade(trade, await tradeCostBasisMethod(req.userId, trade));
+    } catch (err) {
+      if (err instanceof TradeLegError) return reply.code(400).send({ error: err.message });
+      throw err;
+    }
+    await trade.save();
+    await recordTradeRevision(trade, before, revisionContext(req, action));
+    return reply.send(await pricedTradeDto(trade));
+  }
+
+  // Edit one entry of any trade
+  app.patch('/trades/:id/entries/:entryId', async (req: FastifyRequest, reply: FastifyReply) => {
+    if (!requireAuth(req, reply)) return;
+    const parsed = editEntrySchema.safeParse(req.body);
+    if (!parsed.success) return reply.code(400).send({ error: parsed.error.flatten() });
+
+    const { id, entryId } = req.params as any;
+    const trade = await Trade.findOne({ _id: id, userId: req.userId, deletedAt: null });
+    if (!trade) return reply.code(404).send({ error: 'Trade not found' });
+    const entry = Types.ObjectId.isValid(entryId) ? trade.entries.find((e) => e._id?.equals(entryId)) : undefined;
+    if (!entry) return reply.code(404).send({ error: 'Entry not found' });
+    const before = tradeSnapshot(trade);
+
+    const { entryPrice, amountInvestedUsd, leverage, entryDate, feeUsd } = parsed.data;
+    if (entryPrice !== undefined) entry.entryPrice = entryPrice;
+    if (amountInvestedUsd !== undefined) entry.amountInvestedUsd = amountInvestedUsd;
+    if (leverage !== undefined) entry.leverage = leverage ?? undefined;
+    if (entryDate !== undefined) entry.entryDate = entryDate;
+    if (feeUsd !== undefined) entry.feeUsd = feeUsd ?? undefined;
+
+    return saveLegChange(req, reply, trade, before, 'edit-entry');
+  });
+
+  app.delete('/trades/:id/entries/:entryId', async (req: FastifyRequest, reply: FastifyReply) => {
+    if (!requireAuth(req, reply)) return;
+    const { id, entryId } = req.params as any;
+    const trade = await Trade.findOne({ _id: id, userId: req.userId, deletedAt: null });
+    if (!trade) return reply.code(404).send({ error: 'Trade not found' });
+    const index = Types.ObjectId.isValid(entryId) ? trade.entries.findIndex((e) => e._id?.equals(entryId)) : -1;
+    if (index === -1) return reply.code(404).send({ error: 'Entry not found' });
+    if (trade.entries.length === 1) {
+      return reply.code(400).send({ error: 'Cannot remove the only entry; move the trade to the trash instead' });
+    }
+    const before = tradeSnapshot(trade);
+
+    trade.entries.splice(index, 1);
+    return saveLegChange(req, reply, trade, before, 'delete-entry');
+  });
+
+  // Edit one (partial) close of any trade
+  app.patch('/trades/:id/closes/:closeId', async (req: FastifyRequest, reply: FastifyReply) => {
+    if (!requireAuth(req, reply)) return;
+    const parsed = editCloseSchema.safeParse(req.body);
+    if (!parsed.success) return reply.code(400).send({ error: parsed.error.flatten() });
+
+    const { id, closeId } = req.params as any;
+    const trade = await Trade.findOne({ _id: id, userId: req.userId, deletedAt: null });
+    if (!trade) return reply.code(404).send({ error: 'Trade not found' });
+    const close = Types.ObjectId.isValid(closeId) ? trade.closes.find((c) => c._id?.equals(closeId)) : undefined;
+    if (!close) return reply.code(404).send({ error: 'Close not found' });
+    const before = tradeSnapshot(trade);
+
+    const { closePrice, closeCoinAmount, closeDate, feeUsd } = parsed.data;
+    // The exchange's realized PnL is kept for its fills (see recalculateTrade), so their size and price stay as reported
+    if (close.exchangeOrderId && (closePrice !== undefined || closeCoinAmount !== undefined)) {
+      return reply.code(400).send({ error: 'Price and size of a close synced from the exchange cannot be edited' });
+    }
+    if (closePrice !== undefined) close.closePrice = closePrice;
+    if (closeCoinAmount !== undefined) close.closeCoinAmount = closeCoinAmount;
+    if (closeDate !== undefined) close.closeDate = closeDate;
+    if (feeUsd !== undefined) close.feeUsd = feeUsd ?? undefined;
+
+    return saveLegChange(req, reply, trade, before, 'edit-close');
+  });
+
+  // Removing a close reopens that part of the position
+  app.delete('/trades/:id/closes/:closeId', async (req: FastifyRequest, reply: FastifyReply) => {
+    if (!requireAuth(req, reply)) return;
+    const { id, closeId } = req.params as any;
+    const trade = await Trade.findOne({ _id: id, userId: req.userId, deletedAt: null });
+    if (!trade) return reply.code(404).send({ error: 'Trade not found' });
+    const index = Types.ObjectId.isValid(closeId) ? trade.closes.findIndex((c) => c._id?.equals(closeId)) : -1;
+    if (index === -1) return reply.code(404).send({ error: 'Close not found' });
+    const before = tradeSnapshot(trade);
+
+    trade.closes.splice(index, 1);
+    releaseTakeProfitLevels(trade);
+    return saveLegChange(req, reply, trade, before, 'delete-close');
+  });
+
+  // Revision history of a trade, newest first
+  app.get('/trades/:id/history', async (req: FastifyRequest, reply: FastifyReply) => {
+    if (!requireAuth(req, reply)) return;
+    const { id } = req.params as any;
+    const exists = await Trade.exists({ _id: id, userId: req.userId });
+    if (!exists) return reply.code(404).send({ error: 'Trade not found' });
+
+    const revisions = await TradeRevision.find({ tradeId: exists._id })
+      .select('-before -after')
+      .sort({ createdAt: -1, _id: -1 });
+    return reply.send({ items: revisions.map((r) => r.toJSON()) });
+  });
+
+  // Put a trade back into the state it had right after the given revision
+  app.post('/trades/:id/revert', async (req: FastifyRequest, reply: FastifyReply) => {
+    if (!requireAuth(req, reply)) return;
+    const parsed = revertSchema.safeParse(req.body);
+    if (!parsed.success) return reply.code(400).send({ error: parsed.error.flatten() });
+
+    const { id } = req.params as any;
+    const trade = await Trade.findOne({ _id: id, userId: req.userId, deletedAt: null });
+    if (!trade) return reply.code(404).send({ error: 'Trade not found' });
+    const revision = await TradeRevision.findOne({ _id: parsed.data.revisionId, tradeId: trade._id });
+    if (!revision) return reply.code(404).send({ error: 'Revision not found' });
+    const before = tradeSnapshot(trade);
+
+    applyRevision(trade, revision);
+    await pruneCatalogRefs(req.userId, trade);
+    await trade.save();
+    await recordTradeRevision(trade, before, {
+      ...revisionContext(req, 'revert'),
+      revertedRevisionId: revision._id,
+    });
+    return reply.send(await pricedTradeDto(trade));
+  });
+
+  // Move a trade to the trash; it stops counting toward PnL but can be restored until purged
   app.delete('/trades/:id', async (req: FastifyRequest, reply: FastifyReply) => {
     if (!requireAuth(req, reply)) return;
     const { id } = req.params as any;
-    const result = await Trade.deleteOne({ _id: id, userId: req.userId });
-    if (result.deletedCount === 0) return reply.code(404).send({ error: 'Trade not found' });
+    const trade = await Trade.findOne({ _id: id, userId: req.userId, deletedAt: null });
+    if (!trade) return reply.code(404).send({ error: 'Trade not found' });
+    const before = tradeSnapshot(trade);
+
+    trade.deletedAt = new Date();
+    await trade.save({ timestamps: false });
+    await recordTradeRevision(trade, before, revisionContext(req, 'trash'));
+    return reply.send({ ok: true });
+  });
+
+  // Trashed trades, most recently deleted first
+  app.get('/trades/trash', async (req: FastifyRequest, reply: FastifyReply) => {
+    if (!requireAuth(req, reply)) return;
+    const trades = await Trade.find({ userId: req.userId, deletedAt: { $ne: null } })
+      .sort({ deletedAt: -1 })
+      .lean<ITrade[]>();
+    return reply.send({
+      retentionDays: trashRetentionDays,
+      items: trades.map((t) => ({ ...toTradeDto(t), purgeAt: trashPurgeDate(t.deletedAt!, trashRetentionDays) })),
+    });
+  });
+
+  app.post('/trades/:id/restore', async (req: FastifyRequest, reply: FastifyReply) => {
+    if (!requireAuth(req, reply)) return;
+    const { id } = req.params as any;
+    const trade = await Trade.findOne({ _id: id, userId: req.userId, deletedAt: { $ne: null } });
+    if (!trade) return reply.code(404).send({ error: 'Trade not found in trash' });
+    const before = tradeSnapshot(trade);
+
+    trade.deletedAt = undefined;
+    await trade.save({ timestamps: false });
+    await recordTradeRevision(trade, before, revisionContext(req, 'restore'));
+    return reply.send(await pricedTradeDto(trade));
+  });
+
+  // Permanently delete one trashed trade
+  app.delete('/trades/:id/purge', async (req: FastifyRequest, reply: FastifyReply) => {
+    if (!requireAuth(req, reply)) return;
+    const { id } = req.params as any;
+    const purged = await purgeTrades({ _id: id, userId: req.userId, deletedAt: { $ne: null } });
+    if (purged === 0) return reply.code(404).send({ error: 'Trade not found in trash' });
     return reply.send({ ok: true });
   });
+
+  // Empty the trash
+  app.delete('/trades/trash', async (req: FastifyRequest, reply: FastifyReply) => {
+    if (!requireAuth(req, reply)) return;
+    const purged = await purgeTrades({ userId: req.userId, deletedAt: { $ne: null } });
+    return reply.send({ ok: true, purged });
+  });
 }
@@ -0,0 +1,43 @@
+import { Types } from 'mongoose';
+import { Alert } from '../models/Alert';
+import { ExchangeConnection } from '../models/ExchangeConnection';
+import { ExchangeSyncCursor } from '../models/ExchangeSyncCursor';
+import { Strategy } from '../models/Strategy';
+import { Tag } from '../models/Tag';
+import { Trade } from '../models/Trade';
+import { TradeRevision } from '../models/TradeRevision';
+import { User } from '../models/User';
+import type { ExchangeSyncManager } from './exchangeSyncManager';
+
+export interface AccountDeletionResult {
+  trades: number;
+  tradeRevisions: number;
+  alerts: number;
+  tags: number;
+  strategies: number;
+  exchangeConnections: number;
+  exchangeSyncCursors: number;
+}
+
+/**
+ * Removes a user and everything they own. Sync services are stopped and connections removed
+ * first so a running poll cannot write new trades for an account that is being purged; the
+ * user document goes last so a failure part-way leaves an account that can retry the delete.
+ */
+export async function deleteAccount(userId: string, syncManager?: ExchangeSyncManager): Promise<AccountDeletionResult> {
+  const userObjectId = new Types.ObjectId(userId);
+
+  const connections = await ExchangeConnection.find({ userId: userObjectId }).select('_id').lean();
+  for (const connection of connections) syncManager?.stop(connection._id.toString());
+
+  const exchangeConnections = (await ExchangeConnection.deleteMany({ userId: userObjectId })).deletedCount;
+  const exchangeSyncCursors = (await ExchangeSyncCursor.deleteMany({ userId: userObjectId })).deletedCount;
+  const trades = (await Trade.deleteMany({ userId: userObjectId })).deletedCount;
+  const tradeRevisions = (await TradeRevision.deleteMany({ userId: userObjectId })).deletedCount;
+  const alerts = (await Alert.deleteMany({ userId: userObjectId })).deletedCount;
+  const tags = (await Tag.deleteMany({ userId: userObjectId })).deletedCount;
+  const strategies = (await Strategy.deleteMany({ userId: userObjectId })).deletedCount;
+  await User.deleteOne({ _id: userObjectId });
+
+  return { trades, tradeRevisions, alerts, tags, strategies, exchangeConnections, exchangeSyncCursors };
+}
@@ -0,0 +1,186 @@
+import type { FastifyBaseLogger } from 'fastify';
+import type { HydratedDocument } from 'mongoose';
+import { Alert, type AlertType, type IAlert } from '../models/Alert';
+import { Trade, type ITrade } from '../models/Trade';
+import { User, type IUser } from '../models/User';
+import { sendTradeAlertEmail } from './mailer';
+import type { PriceProvider } from './priceProvider';
+import { computeTradeAggregates, computeUnrealizedMetrics } from './tradeMetrics';
+
+export const DEFAULT_ALERT_CHECK_INTERVAL_MS = 60_000;
+
+export interface AlertTrigger {
+  type: AlertType;
+  triggerPrice: number;
+  thresholdPercent?: number;
+  distancePercent?: number;
+}
+
+/**
+ * Levels `markPrice` has reached on an active trade: the stop, every open take-profit level (the
+ * single target when there is no ladder) and, when the user set `liquidationPercent`, being
+ * within that distance of the liquidation price.
+ */
+export function alertTriggers(trade: ITrade, markPrice: number, liquidationPercent?: number | null): AlertTrigger[] {
+  const long = trade.side === 'long';
+  const triggers: AlertTrigger[] = [];
+
+  const stop = trade.stopLossPrice;
+  if (stop != null && (long ? markPrice <= stop : markPrice >= stop)) {
+    triggers.push({ type: 'stop-loss', triggerPrice: stop });
+  }
+
+  const levels = trade.takeProfitLevels ?? [];
+  const targets =
+    levels.length > 0
+      ? levels.filter((l) => !l.filledAt).map((l) => l.price)
+      : trade.takeProfitPrice != null
+        ? [trade.takeProfitPrice]
+        : [];
+  for (const target of targets) {
+    if (long ? markPrice >= target : markPrice <= target) triggers.push({ type: 'take-profit', triggerPrice: target });
+  }
+
+  if (liquidationPercent != null) {
+    const aggregates = computeTradeAggregates(trade);
+    const { liquidationDistancePercent } = computeUnrealizedMetrics(trade, aggregates, markPrice);
+    if (aggregates.liquidationPrice != null && liquidationDistancePercent != null && liquidationDistancePercent <= liquidationPercent) {
+      triggers.push({
+        type: 'liquidation',
+        triggerPrice: aggregates.liquidationPrice,
+        thresholdPercent: liquidationPercent,
+        distancePercent: liquidationDistancePercent,
+      });
+    }
+  }
+
+  return triggers;
+}
+
+function formatPrice(price: number) {
+  return `$${Number(price.toPrecision(8))}`;
+}
+
+function alertMessage(trade: ITrade, trigger: AlertTrigger, markPrice: number) {
+  const subject = `${trade.coin} ${trade.side}`;
+  switch (trigger.type) {
+    case 'stop-loss':
+      return `${subject}: price ${formatPrice(markPrice)} reached the stop loss at ${formatPrice(trigger.triggerPrice)}`;
+    case 'take-profit':
+      return `${subject}: price ${formatPrice(markPrice)} reached the take-profit target at ${formatPrice(trigger.triggerPrice)}`;
+    case 'liquidation':
+      return `${subject}: price ${formatPrice(markPrice)} is ${trigger.distancePercent!.toFixed(2)}% from liquidation at ${formatPrice(trigger.triggerPrice)}`;
+  }
+}
+
+/** Stores a new alert; returns null when this trade already alerted at this level. */
+async function recordAlert(trade: ITrade, trigger: AlertTrigger, markPrice: number) {
+  const key = { tradeId: trade._id, type: trigger.type, triggerPrice: trigger.triggerPrice };
+  if (await Alert.exists(key)) return null;
+  try {
+    return await Alert.create({
+      ...key,
+      userId: trade.userId,
+      coin: trade.coin,
+      side: trade.side,
+      markPrice,
+      thresholdPercent: trigger.thresholdPercent,
+      distancePercent: trigger.distancePercent,
+      message: alertMessage(trade, trigger, markPrice),
+    });
+  } catch (err) {
+    // Another check recorded the same alert in the meantime
+    if ((err as { code?: number }).code === 11000) return null;
+    throw err;
+  }
+}
+
+export interface AlertEngineOptions {
+  intervalMs: number;
+}
+
+/**
+ * Periodically checks active trades against market mark prices and records an alert, emailed to
+ * the owner, when price reaches a stop or target or comes close to liquidation. Trades priced
+ * only by their manual mark price are skipped: that price is typed in, not a market move.
+ */
+export class AlertEngine {
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private readonly options: AlertEngineOptions,
+    private readonly priceProvider: PriceProvider,
+    private readonly logger: FastifyBaseLogger,
+  ) {}
+
+  start() {
+    if (this.timer) return;
+    void this.runCheck();
+    this.timer = setInterval(() => {
+      void this.runCheck();
+    }, this.options.intervalMs);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /** Returns how many new alerts were recorded. */
+  async checkOnce(): Promise<number> {
+    const trades = await Trade.find({ status: 'active', deletedAt: null }).lean<ITrade[]>();
+    if (trades.length === 0) return 0;
+    const quotes = await this.priceProvider.quoteTrades(trades);
+
+    const userIds = [...new Set(trades.map((t) => t.userId.toString()))];
+    const users = new Map(
+      (await User.find({ _id: { $in: userIds } }).select('email name alertEmails liquidationAlertPercent').lean()).map((u) => [
+        u._id.toString(),
+        u,
+      ]),
+    );
+
+    let fired = 0;
+    for (const trade of trades) {
+      const quote = quotes.get(trade._id.toString());
+      const user = users.get(trade.userId.toString());
+      if (!quote || quote.source === 'manual' || !user) continue;
+
+      for (const trigger of alertTriggers(trade, quote.price, user.liquidationAlertPercent)) {
+        const alert = await recordAlert(trade, trigger, quote.price);
+        if (!alert) continue;
+        fired++;
+        if (user.alertEmails !== false) await this.deliver(alert, user);
+      }
+    }
+    return fired;
+  }
+
+  private async deliver(alert: HydratedDocument<IAlert>, user: Pick<IUser, 'email' | 'name'>) {
+    try {
+      await sendTradeAlertEmail({ to: user.email, name: user.name, alert });
+      alert.emailedAt = new Date();
+    } catch (err) {
+      alert.emailError = (err as Error).message;
+      this.logger.warn({ err, alertId: alert._id.toString() }, 'Failed to email trade alert');
+    }
+    await alert.save();
+  }
+
+  private async runCheck() {
+    // A slow price source must not stack overlapping checks
+    if (this.running) return;
+    this.running = true;
+    try {
+      const fired = await this.checkOnce();
+      if (fired > 0) this.logger.info({ fired }, 'Recorded trade alerts');
+    } catch (err) {
+      this.logger.error({ err }, 'Trade alert check failed');
+    } finally {
+      this.running = false;
+    }
+  }
+}
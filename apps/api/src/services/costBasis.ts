@@ -0,0 +1,165 @@
+import { Types } from 'mongoose';
+import { Trade, type ITrade } from '../models/Trade';
+import { User, type CostBasisMethod } from '../models/User';
+import { toCsv } from './csv';
+import { matchLots, recalculateTrade, TradeLegError } from './tradeLegs';
+import { recordTradeRevision, tradeSnapshot, type RevisionContext } from './tradeRevisions';
+
+export async function getCostBasisMethod(userId: string): Promise<CostBasisMethod> {
+  const user = await User.findById(userId).select('costBasisMethod').lean();
+  return user?.costBasisMethod ?? 'average';
+}
+
+/**
+ * Method a trade's closes are booked with. Only manual trades follow the user's choice; trades
+ * built from exchange fills stay on the exchange's average-entry accounting, as in rebookTrades.
+ */
+export async function tradeCostBasisMethod(userId: string, trade: Pick<ITrade, 'source'>): Promise<CostBasisMethod> {
+  return (trade.source ?? 'manual') === 'manual' ? getCostBasisMethod(userId) : 'average';
+}
+
+/** One lot (or part of one) disposed of by a close. */
+export interface RealizedGainRow {
+  tradeId: string;
+  coin: string;
+  side: ITrade['side'];
+  entryId: string | null;
+  closeId: string | null;
+  acquiredAt: Date;
+  disposedAt: Date;
+  quantity: number;
+  proceedsUsd: number;
+  costUsd: number;
+  feesUsd: number;
+  gainUsd: number;
+}
+
+export interface RealizedGainsReport {
+  method: CostBasisMethod;
+  from: Date | null;
+  to: Date | null;
+  rows: RealizedGainRow[];
+  totals: { proceedsUsd: number; costUsd: number; feesUsd: number; gainUsd: number };
+  // Trades whose legs could not be matched, e.g. a close dated before its entries
+  skipped: Array<{ tradeId: string; error: string }>;
+}
+
+export interface RealizedGainsOptions {
+  // Range applies to the disposal (close) date
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * Lot-level realized gains for tax reporting. Proceeds and cost follow the direction of the
+ * trade: a long buys at the entry and sells at the close, a short the other way round. Fees are
+ * the matched share of the entry commission plus the close commission split by quantity.
+ */
+export function buildRealizedGains(
+  trades: ITrade[],
+  method: CostBasisMethod,
+  options: RealizedGainsOptions = {},
+): RealizedGainsReport {
+  const rows: RealizedGainRow[] = [];
+  const skipped: RealizedGainsReport['skipped'] = [];
+
+  for (const trade of trades) {
+    let matches;
+    try {
+      ({ matches } = matchLots(trade, method));
+    } catch (err) {
+      if (!(err instanceof TradeLegError)) throw err;
+      skipped.push({ tradeId: trade._id.toString(), error: err.message });
+      continue;
+    }
+
+    for (const { closeIndex, lots } of matches) {
+      const close = trade.closes[closeIndex];
+      const disposedAt = new Date(close.closeDate);
+      if (options.from && disposedAt < options.from) continue;
+      if (options.to && disposedAt > options.to) continue;
+
+      for (const lot of lots) {
+        const entryNotional = lot.entryPrice * lot.coin;
+        const closeNotional = close.closePrice * lot.coin;
+        const proceedsUsd = trade.side === 'long' ? closeNotional : entryNotional;
+        const costUsd = trade.side === 'long' ? entryNotional : closeNotional;
+        const closeFeeUsd = close.closeCoinAmount > 0 ? (close.feeUsd ?? 0) * (lot.coin / close.closeCoinAmount) : 0;
+        const feesUsd = lot.entryFeeUsd + closeFeeUsd;
+        rows.push({
+          tradeId: trade._id.toString(),
+          coin: trade.coin,
+          side: trade.side,
+          entryId: trade.entries[lot.entryIndex]._id?.toString() ?? null,
+          closeId: close._id?.toString() ?? null,
+          acquiredAt: lot.entryDate,
+          disposedAt,
+          quantity: lot.coin,
+          proceedsUsd,
+          costUsd,
+          feesUsd,
+          gainUsd: proceedsUsd - costUsd - feesUsd,
+        });
+      }
+    }
+  }
+
+  rows.sort((a, b) => a.disposedAt.getTime() - b.disposedAt.getTime() || a.acquiredAt.getTime() - b.acquiredAt.getTime());
+  const totals = { proceedsUsd: 0, costUsd: 0, feesUsd: 0, gainUsd: 0 };
+  for (const row of rows) {
+    totals.proceedsUsd += row.proceedsUsd;
+    totals.costUsd += row.costUsd;
+    totals.feesUsd += row.feesUsd;
+    totals.gainUsd += row.gainUsd;
+  }
+
+  return { method, from: options.from ?? null, to: options.to ?? null, rows, totals, skipped };
+}
+
+const REALIZED_GAIN_COLUMNS: Array<keyof RealizedGainRow> = [
+  'tradeId',
+  'coin',
+  'side',
+  'entryId',
+  'closeId',
+  'acquiredAt',
+  'disposedAt',
+  'quantity',
+  'proceedsUsd',
+  'costUsd',
+  'feesUsd',
+  'gainUsd',
+];
+
+export function realizedGainsCsv(report: RealizedGainsReport): string {
+  return toCsv(
+    REALIZED_GAIN_COLUMNS,
+    report.rows.map((row) => REALIZED_GAIN_COLUMNS.map((column) => row[column])),
+  );
+}
+
+/**
+ * Re-books the closes of a user's manual trades under a new cost-basis method. Trades built
+ * from exchange fills keep the PnL the exchange reported. Trades whose legs do not replay
+ * cleanly are left untouched and counted as skipped.
+ */
+export async function rebookTrades(userId: string, method: CostBasisMethod, ctx: RevisionContext) {
+  const trades = await Trade.find({ userId: new Types.ObjectId(userId), source: 'manual', 'closes.0': { $exists: true } });
+  let rebooked = 0;
+  let skipped = 0;
+  for (const trade of trades) {
+    const before = tradeSnapshot(trade);
+    try {
+      recalculateTrade(trade, method);
+    } catch (err) {
+      if (!(err instanceof TradeLegError)) throw err;
+      skipped++;
+      continue;
+    }
+    if (!trade.isModified()) continue;
+    await trade.save();
+    await recordTradeRevision(trade, before, ctx);
+    rebooked++;
+  }
+  return { rebooked, skipped };
+}
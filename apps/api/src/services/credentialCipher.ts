@@ -0,0 +1,44 @@
+import crypto from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_BYTES = 12;
+const VERSION = 'v1';
+
+function parseKey(raw: string): Buffer {
+  const trimmed = raw.trim();
+  const key = /^[0-9a-fA-F]{64}$/.test(trimmed) ? Buffer.from(trimmed, 'hex') : Buffer.from(trimmed, 'base64');
+  if (key.length !== 32) {
+    throw new Error('CREDENTIALS_ENCRYPTION_KEY must be 32 bytes encoded as hex or base64');
+  }
+  return key;
+}
+
+/**
+ * Symmetric encryption for secrets stored at rest (exchange signer keys).
+ * Ciphertexts are self-describing: `v1.<iv>.<authTag>.<data>`, all base64.
+ */
+export class CredentialCipher {
+  private readonly key: Buffer;
+
+  constructor(rawKey: string) {
+    this.key = parseKey(rawKey);
+  }
+
+  encrypt(plaintext: string): string {
+    const iv = crypto.randomBytes(IV_BYTES);
+    const cipher = crypto.createCipheriv(ALGORITHM, this.key, iv);
+    const data = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    const tag = cipher.getAuthTag();
+    return [VERSION, iv.toString('base64'), tag.toString('base64'), data.toString('base64')].join('.');
+  }
+
+  decrypt(payload: string): string {
+    const [version, iv, tag, data] = payload.split('.');
+    if (version !== VERSION || !iv || !tag || !data) {
+      throw new Error('Unsupported encrypted credential format');
+    }
+    const decipher = crypto.createDecipheriv(ALGORITHM, this.key, Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(data, 'base64')), decipher.final()]).toString('utf8');
+  }
+}
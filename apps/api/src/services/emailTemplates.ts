@@ -0,0 +1,184 @@
+import type { IAlert } from '../models/Alert';
+import type { TradeDigest } from './tradeDigest';
+
+export interface EmailContent {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/** Markup that is already safe to embed; anything else interpolated into `html` is escaped. */
+export class SafeHtml {
+  constructor(readonly value: string) {}
+
+  toString() {
+    return this.value;
+  }
+}
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+export function escapeHtml(value: unknown): string {
+  return String(value ?? '').replace(/[&<>"']/g, (ch) => HTML_ESCAPES[ch]);
+}
+
+function renderValue(value: unknown): string {
+  if (value instanceof SafeHtml) return value.value;
+  if (Array.isArray(value)) return value.map(renderValue).join('');
+  if (value == null || value === false) return '';
+  return escapeHtml(value);
+}
+
+/**
+ * Template tag for email markup: interpolated values are HTML-escaped unless they are `SafeHtml`
+ * (such as the result of another `html` call); arrays are concatenated, null and false dropped.
+ */
+export function html(strings: TemplateStringsArray, ...values: unknown[]): SafeHtml {
+  return new SafeHtml(strings.reduce((out, str, i) => out + str + (i < values.length ? renderValue(values[i]) : ''), ''));
+}
+
+export function button(url: string, label: string) {
+  return html`<a href="${url}" style="display:inline-block;padding:10px 16px;background:#111;color:#fff;text-decoration:none;border-radius:6px;">${label}</a>`;
+}
+
+interface LayoutParams {
+  subject: string;
+  name: string;
+  html: SafeHtml;
+  // Paragraphs of the plain-text variant, separated by blank lines
+  text: string[];
+  footerHtml?: SafeHtml;
+  footerText?: string;
+}
+
+/** Wraps both variants in the shared layout: greeting, body and an optional small-print footer. */
+function layout({ subject, name, html: body, text, footerHtml, footerText }: LayoutParams): EmailContent {
+  const htmlDocument = html`<!doctype html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <title>${subject}</title>
+  </head>
+  <body style="margin:0;padding:24px;background:#f6f6f6;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Helvetica,Arial,sans-serif;font-size:14px;line-height:1.5;color:#111;">
+    <div style="max-width:560px;margin:0 auto;padding:24px;background:#fff;border-radius:12px;">
+      <p>Hi ${name},</p>
+      ${body}
+    </div>
+    ${footerHtml && html`<p style="max-width:560px;margin:12px auto 0;font-size:12px;color:#666;">${footerHtml}</p>`}
+  </body>
+</html>
+`;
+  const textDocument = [`Hi ${name},`, ...text, ...(footerText ? ['--', footerText] : [])].join('\n\n');
+  return { subject, html: htmlDocument.value, text: `${textDocument}\n` };
+}
+
+export function passwordResetEmail(params: { name: string; resetUrl: string }): EmailContent {
+  const { name, resetUrl } = params;
+  return layout({
+    subject: 'Reset your password',
+    name,
+    html: html`
+      <p>Click the button below to reset your password:</p>
+      <p>${button(resetUrl, 'Reset Password')}</p>
+      <p>Or copy and paste this link into your browser:</p>
+      <p><a href="${resetUrl}">${resetUrl}</a></p>
+      <p>If you did not request this, you can ignore this email.</p>`,
+    text: [
+      `Click the link below to reset your password:\n${resetUrl}`,
+      'If you did not request this, you can ignore this email.',
+    ],
+  });
+}
+
+export function accountExportEmail(params: { name: string; filename: string }): EmailContent {
+  const { name, filename } = params;
+  return layout({
+    subject: 'Your trading journal export',
+    name,
+    html: html`
+      <p>Your account is being deleted. Attached is a final backup of your journal (<strong>${filename}</strong>).</p>
+      <p>It can be restored into a new account from the Account page.</p>
+      <p>If you did not request this, contact support immediately.</p>`,
+    text: [
+      `Your account is being deleted. Attached is a final backup of your journal (${filename}); it can be restored into a new account from the Account page.`,
+      'If you did not request this, contact support immediately.',
+    ],
+  });
+}
+
+export function tradeAlertEmail(params: {
+  name: string;
+  alert: Pick<IAlert, 'coin' | 'side' | 'message'>;
+  alertsUrl: string;
+}): EmailContent {
+  const { name, alert, alertsUrl } = params;
+  return layout({
+    subject: `Trade alert: ${alert.coin} ${alert.side}`,
+    name,
+    html: html`
+      <p><strong>${alert.message}.</strong></p>
+      <p><a href="${alertsUrl}">See all alerts</a></p>`,
+    text: [`${alert.message}.`, `See all alerts: ${alertsUrl}`],
+    footerHtml: html`You can turn alert emails off from the Account page.`,
+    footerText: 'You can turn alert emails off from the Account page.',
+  });
+}
+
+function formatUsd(value: number) {
+  const sign = value < 0 ? '-' : '';
+  return `${sign}$${Math.abs(value).toFixed(2)}`;
+}
+
+function formatPercent(value: number | null) {
+  return value != null ? `${value.toFixed(1)}%` : '–';
+}
+
+export function digestEmail(params: {
+  name: string;
+  digest: TradeDigest;
+  journalUrl: string;
+  unsubscribeUrl: string;
+}): EmailContent {
+  const { name, digest, journalUrl, unsubscribeUrl } = params;
+  const title = digest.period.type === 'weekly' ? 'Weekly' : 'Daily';
+  const tradeLine = (t: TradeDigest['bestTrade']) => (t ? `${t.coin} ${t.side} ${formatUsd(t.pnlUsd)}` : '–');
+  const { openExposure, summary } = digest;
+  const rows: Array<[string, string]> = [
+    ['Realized PnL', formatUsd(digest.realizedPnlUsd)],
+    ['Trades opened', String(digest.tradesOpened)],
+    ['Trades closed', String(digest.tradesClosed)],
+    ['Best trade', tradeLine(digest.bestTrade)],
+    ['Worst trade', tradeLine(digest.worstTrade)],
+    [
+      'Open exposure',
+      `${formatUsd(openExposure.notionalUsd)} notional, ${formatUsd(openExposure.marginUsd)} margin in ${openExposure.trades} trade(s)`,
+    ],
+    ['Win rate (all time)', `${formatPercent(summary.winRate)} of ${summary.totalTrades} closed trade(s)`],
+    ['Total PnL (all time)', formatUsd(summary.totalPnlUsd)],
+  ];
+
+  return layout({
+    subject: `${title} trading digest: ${formatUsd(digest.realizedPnlUsd)} (${digest.period.label})`,
+    name,
+    html: html`
+      <p>Your ${title.toLowerCase()} trading digest for <strong>${digest.period.label}</strong>:</p>
+      <table cellpadding="6" style="border-collapse:collapse;">
+        ${rows.map(([label, value]) => html`<tr><td style="color:#666;">${label}</td><td><strong>${value}</strong></td></tr>`)}
+      </table>
+      <p>${button(journalUrl, 'Open your journal')}</p>`,
+    text: [
+      `Your ${title.toLowerCase()} trading digest for ${digest.period.label}:`,
+      rows.map(([label, value]) => `${label}: ${value}`).join('\n'),
+      `Open your journal: ${journalUrl}`,
+    ],
+    footerHtml: html`You receive this because digest emails are on. <a href="${unsubscribeUrl}">Unsubscribe</a>`,
+    footerText: `You receive this because digest emails are on. Unsubscribe: ${unsubscribeUrl}`,
+  });
+}
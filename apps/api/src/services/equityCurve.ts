@@ -0,0 +1,147 @@
+import type { ITrade } from '../models/Trade';
+
+export type EquityCurveInterval = 'day' | 'week';
+
+export interface EquityCurveOptions {
+  interval: EquityCurveInterval;
+  from?: Date;
+  to?: Date;
+  /** Account size the curve starts from; drawdown percent is measured against peak equity. */
+  startingBalanceUsd?: number;
+}
+
+export interface EquityCurvePoint {
+  /** Start of the bucket as a UTC date, `YYYY-MM-DD` (weeks start on Monday). */
+  period: string;
+  pnlUsd: number;
+  cumulativePnlUsd: number;
+  peakPnlUsd: number;
+  drawdownUsd: number;
+  drawdownPercent: number | null;
+}
+
+export interface EquityCurve {
+  interval: EquityCurveInterval;
+  startingBalanceUsd: number;
+  points: EquityCurvePoint[];
+  totalPnlUsd: number;
+  maxDrawdownUsd: number;
+  maxDrawdownPercent: number | null;
+  longestDrawdown: {
+    start: Date;
+    end: Date;
+    durationMs: number;
+    durationDays: number;
+    recovered: boolean;
+  } | null;
+}
+
+interface PnlEvent {
+  time: Date;
+  amountUsd: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Realized PnL changes of a trade in time order: each close books its price PnL less its commission,
+ * entry commissions and funding payments are booked when they occurred. The sum matches the
+ * trade's `netRealizedPnlUsd`.
+ */
+function pnlEvents(trade: ITrade): PnlEvent[] {
+  const events: PnlEvent[] = [];
+  for (const e of trade.entries || []) {
+    if (e.feeUsd) events.push({ time: e.entryDate, amountUsd: -e.feeUsd });
+  }
+  for (const c of trade.closes || []) {
+    events.push({ time: c.closeDate, amountUsd: c.pnlUsd - (c.feeUsd ?? 0) });
+  }
+  for (const f of trade.fundingPayments || []) {
+    events.push({ time: f.paidAt, amountUsd: f.amountUsd });
+  }
+  return events;
+}
+
+function bucketStart(time: Date, interval: EquityCurveInterval): string {
+  const day = new Date(Date.UTC(time.getUTCFullYear(), time.getUTCMonth(), time.getUTCDate()));
+  if (interval === 'week') {
+    // getUTCDay: 0 = Sunday; shift so weeks start on Monday
+    const offset = (day.getUTCDay() + 6) % 7;
+    day.setUTCDate(day.getUTCDate() - offset);
+  }
+  return day.toISOString().slice(0, 10);
+}
+
+function drawdownPercent(drawdownUsd: number, peakEquityUsd: number): number | null {
+  return peakEquityUsd > 0 ? (drawdownUsd / peakEquityUsd) * 100 : null;
+}
+
+export function computeEquityCurve(trades: ITrade[], options: EquityCurveOptions): EquityCurve {
+  const startingBalanceUsd = options.startingBalanceUsd ?? 0;
+  const events = trades
+    .flatMap(pnlEvents)
+    .filter((e) => (!options.from || e.time >= options.from) && (!options.to || e.time <= options.to))
+    .sort((a, b) => a.time.getTime() - b.time.getTime());
+
+  const points: EquityCurvePoint[] = [];
+  let cumulative = 0;
+  let peak = 0;
+  let maxDrawdownUsd = 0;
+  let maxDrawdownPercent: number | null = null;
+  let drawdownStart: Date | null = null;
+  let longest: EquityCurve['longestDrawdown'] = null;
+
+  // Drawdowns are tracked per event so intra-period dips are not hidden by bucketing
+  for (const event of events) {
+    cumulative += event.amountUsd;
+
+    if (cumulative >= peak) {
+      if (drawdownStart) {
+        const durationMs = event.time.getTime() - drawdownStart.getTime();
+        if (!longest || durationMs > longest.durationMs) {
+          longest = { start: drawdownStart, end: event.time, durationMs, durationDays: durationMs / DAY_MS, recovered: true };
+        }
+        drawdownStart = null;
+      }
+      peak = cumulative;
+    } else {
+      if (!drawdownStart) drawdownStart = event.time;
+      const drawdownUsd = peak - cumulative;
+      if (drawdownUsd > maxDrawdownUsd) {
+        maxDrawdownUsd = drawdownUsd;
+        maxDrawdownPercent = drawdownPercent(drawdownUsd, startingBalanceUsd + peak);
+      }
+    }
+
+    const period = bucketStart(event.time, options.interval);
+    let point = points[points.length - 1];
+    if (!point || point.period !== period) {
+      point = { period, pnlUsd: 0, cumulativePnlUsd: 0, peakPnlUsd: 0, drawdownUsd: 0, drawdownPercent: null };
+      points.push(point);
+    }
+    point.pnlUsd += event.amountUsd;
+    point.cumulativePnlUsd = cumulative;
+    point.peakPnlUsd = peak;
+    point.drawdownUsd = peak - cumulative;
+    point.drawdownPercent = drawdownPercent(peak - cumulative, startingBalanceUsd + peak);
+  }
+
+  // A drawdown still open at the end of the range counts until the range ends
+  if (drawdownStart) {
+    const end = options.to && options.to.getTime() < Date.now() ? options.to : new Date();
+    const durationMs = end.getTime() - drawdownStart.getTime();
+    if (!longest || durationMs > longest.durationMs) {
+      longest = { start: drawdownStart, end, durationMs, durationDays: durationMs / DAY_MS, recovered: false };
+    }
+  }
+
+  return {
+    interval: options.interval,
+    startingBalanceUsd,
+    points,
+    totalPnlUsd: cumulative,
+    maxDrawdownUsd,
+    maxDrawdownPercent,
+    longestDrawdown: longest,
+  };
+}
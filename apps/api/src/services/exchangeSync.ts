@@ -0,0 +1,489 @@
+import type { FastifyBaseLogger } from 'fastify';
+import { Types } from 'mongoose';
+import {
+  positionKey,
+  symbolOfPositionKey,
+  type ExchangeConnector,
+  type ExchangeFill,
+  type ExchangeId,
+  type ExchangeIncome,
+  type ExchangePosition,
+} from '../clients/exchangeConnector';
+import { ExchangeConnection } from '../models/ExchangeConnection';
+import { ExchangeSyncCursor } from '../models/ExchangeSyncCursor';
+import { Trade, type ITradeEntry, type TradeExchangeProductType, type TradeSide } from '../models/Trade';
+import { TradeFillLedger, type LedgerFill, type TradeDocument } from './fillLedger';
+import { recordTradeRevision, tradeSnapshot, type RevisionContext } from './tradeRevisions';
+
+export interface ExchangeSyncOptions {
+  pollIntervalMs: number;
+  userId: string;
+  connectionId: string;
+}
+
+export interface ExchangeSyncStats {
+  totalPositions: number;
+  created: number;
+  updated: number;
+  closed: number;
+  skipped: number;
+  fills: number;
+  funding: number;
+  concurrent: boolean;
+}
+
+const emptyStats = (concurrent: boolean): ExchangeSyncStats => ({
+  totalPositions: 0,
+  created: 0,
+  updated: 0,
+  closed: 0,
+  skipped: 0,
+  fills: 0,
+  funding: 0,
+  concurrent,
+});
+
+// Synced changes have no acting user
+const SYNC_REVISION: RevisionContext = { action: 'exchange-sync' };
+
+// Commissions and funding in these assets are booked 1:1 as USD
+const USD_ASSETS = new Set(['USDT', 'USDC', 'USD', 'BUSD', 'FDUSD', 'USDF']);
+// Funding records can appear with a delay, so each sync re-reads this much before the last run
+const FUNDING_OVERLAP_MS = 60 * 60 * 1000;
+// Markets traded since the last run are found from income records, which can lag the same way
+const ACTIVITY_OVERLAP_MS = 60 * 60 * 1000;
+
+interface PositionTradePayload {
+  positionId: string;
+  coin: string;
+  side: TradeSide;
+  entry: ITradeEntry;
+  exchangeProductType: TradeExchangeProductType;
+  accountId?: string;
+}
+
+export class ExchangeSyncService {
+  private readonly userObjectId: Types.ObjectId;
+  private readonly exchange: ExchangeId;
+  private timer?: NodeJS.Timeout;
+  private syncing = false;
+  public readonly userId: string;
+  public readonly connectionId: string;
+
+  constructor(
+    private readonly options: ExchangeSyncOptions,
+    private readonly connector: ExchangeConnector,
+    private readonly logger: FastifyBaseLogger,
+  ) {
+    if (!Types.ObjectId.isValid(options.userId)) {
+      throw new Error('Exchange sync requires a valid user ObjectId');
+    }
+    this.userId = options.userId;
+    this.connectionId = options.connectionId;
+    this.userObjectId = new Types.ObjectId(options.userId);
+    this.exchange = connector.exchange;
+  }
+
+  start() {
+    if (this.timer) return;
+    this.logger.info({ intervalMs: this.options.pollIntervalMs }, 'Exchange sync: starting scheduler');
+    void this.runSync();
+    this.timer = setInterval(() => {
+      void this.runSync();
+    }, this.options.pollIntervalMs);
+  }
+
+  isRunning(): boolean {
+    return Boolean(this.timer);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  async syncOnce(): Promise<ExchangeSyncStats> {
+    return this.runSync();
+  }
+
+  private async runSync(): Promise<ExchangeSyncStats> {
+    if (this.syncing) {
+      this.logger.warn('Exchange sync already running; skipping new request');
+      return emptyStats(true);
+    }
+
+    this.syncing = true;
+    try {
+      this.logger.debug('Exchange sync started');
+      const syncedAt = new Date();
+      const positions = await this.connector.fetchOpenPositions();
+      this.logger.debug({ count: positions.length }, 'Fetched positions from exchange');
+      const stats = await this.syncAccount(positions, syncedAt);
+      await this.syncFunding(syncedAt, stats);
+      this.logger.info({ ...stats, connectionId: this.connectionId }, 'Exchange sync completed');
+      await this.recordOutcome(syncedAt);
+      return stats;
+    } catch (err) {
+      this.logger.error({ err, connectionId: this.connectionId }, 'Exchange sync failed');
+      await this.recordOutcome(undefined, err);
+      return emptyStats(false);
+    } finally {
+      this.syncing = false;
+    }
+  }
+
+  private async recordOutcome(syncedAt?: Date, err?: unknown) {
+    const update = err
+      ? { $set: { status: 'error', lastError: (err as any)?.message ?? String(err) } }
+      : { $set: { status: 'active', lastSyncedAt: syncedAt }, $unset: { lastError: 1 } };
+    try {
+      await ExchangeConnection.updateOne({ _id: this.connectionId }, update);
+    } catch (updateErr) {
+      this.logger.warn({ err: updateErr, connectionId: this.connectionId }, 'Failed to record exchange sync status');
+    }
+  }
+
+  private async syncAccount(positions: ExchangePosition[], syncedAt: Date): Promise<ExchangeSyncStats> {
+    const stats = emptyStats(false);
+    stats.totalPositions = positions.length;
+
+    const activeTrades = await Trade.find({
+      userId: this.userObjectId,
+      exchange: this.exchange,
+      status: 'active',
+      exchangePositionId: { $exists: true, $ne: null },
+    });
+
+    // Markets with an open position, a tracked active trade or account activity since the last run
+    // can have new fills for us; the last covers positions opened and closed between two polls
+    const traded = await this.recentlyTradedSymbols(syncedAt);
+    const symbols = new Set<string>(traded.keys());
+    for (const position of positions) symbols.add(position.symbol);
+    for (const trade of activeTrades) symbols.add(symbolOfPositionKey(trade.exchangePositionId!));
+
+    for (const symbol of symbols) {
+      try {
+        await this.syncSymbol(
+          symbol,
+          positions.filter((p) => p.symbol === symbol),
+          activeTrades.filter((t) => symbolOfPositionKey(t.exchangePositionId!) === symbol),
+          traded.get(symbol),
+          syncedAt,
+          stats,
+        );
+      } catch (err) {
+        this.logger.error({ err, symbol }, 'Exchange sync failed for market');
+      }
+    }
+
+    return stats;
+  }
+
+  /**
+   * Markets with income records (commissions, realized PnL, funding) since the previous successful
+   * sync, mapped to the time of their first record. The first sync has nothing to catch up on.
+   */
+  private async recentlyTradedSymbols(syncedAt: Date): Promise<Map<string, number>> {
+    const connection = await ExchangeConnection.findById(this.connectionId).select('lastSyncedAt');
+    const traded = new Map<string, number>();
+    if (!connection?.lastSyncedAt) return traded;
+
+    const incomes = await this.connector.fetchIncome({
+      startTime: connection.lastSyncedAt.getTime() - ACTIVITY_OVERLAP_MS,
+      endTime: syncedAt.getTime(),
+    });
+    for (const income of incomes) {
+      if (income.symbol && !traded.has(income.symbol)) traded.set(income.symbol, income.time);
+    }
+    return traded;
+  }
+
+  /**
+   * Replays new fills for one market onto its trades, then reconciles with the open positions.
+   * Fills are read after the stored cursor; a market without a cursor is read from the last time
+   * its active trade was synced or from its first recent activity, or bootstrapped from the
+   * position snapshot.
+   */
+  private async syncSymbol(
+    symbol: string,
+    positions: ExchangePosition[],
+    activeTrades: TradeDocument[],
+    tradedSince: number | undefined,
+    syncedAt: Date,
+    stats: ExchangeSyncStats,
+  ) {
+    const cursor = await ExchangeSyncCursor.findOne({
+      userId: this.userObjectId,
+      exchange: this.exchange,
+      symbol,
+    });
+    const since = activeTrades.reduce<number>(
+      (min, t) => Math.min(min, (t.lastSyncedAt ?? t.updatedAt).getTime()),
+      Math.min(tradedSince ?? syncedAt.getTime(), syncedAt.getTime()),
+    );
+    // Fills after the positions snapshot are left for the next poll, so the two describe the same moment
+    const fills: ExchangeFill[] =
+      cursor?.lastFillId || since < syncedAt.getTime()
+        ? (
+            await this.connector.fetchFills({
+              symbol,
+              afterId: cursor?.lastFillId,
+              startTime: since,
+              endTime: syncedAt.getTime(),
+            })
+          ).filter((fill) => fill.time <= syncedAt.getTime())
+        : [];
+
+    const leverage = positions.find((p) => p.leverage && p.leverage > 0)?.leverage;
+    const snapshots = new Map(activeTrades.map((t) => [t, tradeSnapshot(t)]));
+    const ledger = new TradeFillLedger(activeTrades, (fill, side) =>
+      this.newTradeFromFill(symbol, fill, side, syncedAt),
+    );
+    for (const fill of fills) {
+      const unattributed = ledger.apply(this.toLedgerFill(fill, leverage));
+      if (unattributed > 0) {
+        this.logger.warn(
+          { symbol, fillId: fill.id, unattributed },
+          'Exchange fill does not match a tracked position',
+        );
+      }
+    }
+
+    const dirty = new Set(ledger.touchedTrades());
+    const openKeys = new Set<string>();
+    for (const position of positions) {
+      const payload = this.mapPosition(position);
+      if (!payload) {
+        this.logger.warn({ positionId: position.id, symbol: position.symbol }, 'Skipping position due to missing data');
+        stats.skipped++;
+        continue;
+      }
+      openKeys.add(payload.positionId);
+
+      const existing = ledger.activeTrade(payload.positionId);
+      if (existing) {
+        existing.exchangeAccountId = payload.accountId;
+        existing.exchangeProductType = payload.exchangeProductType;
+        existing.lastSyncedAt = syncedAt;
+        dirty.add(existing);
+      } else {
+        // No fill history covers this position (first sync); start from the exchange snapshot
+        dirty.add(
+          new Trade({
+            userId: this.userObjectId,
+            side: payload.side,
+            status: 'active',
+            coin: payload.coin,
+            entries: [payload.entry],
+            closes: [],
+            source: this.exchange,
+            exchange: this.exchange,
+            exchangeAccountId: payload.accountId,
+            exchangePositionId: payload.positionId,
+            exchangeProductType: payload.exchangeProductType,
+            lastSyncedAt: syncedAt,
+          }),
+        );
+      }
+    }
+
+    for (const trade of activeTrades) {
+      if (trade.status === 'active' && !openKeys.has(trade.exchangePositionId!)) {
+        // Keep it active so a later poll can close it once the closing fills become visible
+        this.logger.warn(
+          { positionId: trade.exchangePositionId },
+          'Exchange position disappeared without closing fills',
+        );
+      }
+    }
+
+    for (const trade of dirty) {
+      const result = trade.isNew
+        ? 'created'
+        : trade.isModified('status') && trade.status === 'closed'
+          ? 'closed'
+          : 'updated';
+      trade.lastSyncedAt = syncedAt;
+      await trade.save();
+      await recordTradeRevision(trade, snapshots.get(trade) ?? null, SYNC_REVISION);
+      stats[result]++;
+      this.logger.debug(
+        { result, coin: trade.coin, side: trade.side, positionId: trade.exchangePositionId },
+        'Processed exchange trade',
+      );
+    }
+
+    stats.fills += fills.length;
+    // The cursor stops at the last fill applied
+    const lastFill = fills[fills.length - 1];
+    if (lastFill) {
+      await ExchangeSyncCursor.updateOne(
+        { userId: this.userObjectId, exchange: this.exchange, symbol },
+        { $set: { lastFillId: lastFill.id, lastFillTime: new Date(lastFill.time) } },
+        { upsert: true },
+      );
+    }
+  }
+
+  /**
+   * Attaches funding payments from the exchange income history to the synced trade that held the
+   * position at that time. Payments are deduplicated by income id, so overlapping windows are safe.
+   */
+  private async syncFunding(syncedAt: Date, stats: ExchangeSyncStats) {
+    const connection = await ExchangeConnection.findById(this.connectionId).select('lastFundingTime');
+    const trades = await Trade.find({
+      userId: this.userObjectId,
+      exchange: this.exchange,
+      exchangePositionId: { $exists: true, $ne: null },
+      $or: [
+        { status: 'active' },
+        { 'closes.closeDate': { $gte: connection?.lastFundingTime ?? syncedAt } },
+      ],
+    });
+    if (trades.length === 0) return;
+
+    // Without a previous run, look back to the oldest entry of a trade that could have paid funding
+    const oldestEntry = trades.reduce<number>(
+      (min, t) => Math.min(min, t.entries[0]?.entryDate.getTime() ?? min),
+      syncedAt.getTime(),
+    );
+    const startTime = connection?.lastFundingTime
+      ? connection.lastFundingTime.getTime() - FUNDING_OVERLAP_MS
+      : oldestEntry;
+
+    const incomes = await this.connector.fetchIncome({
+      type: 'FUNDING_FEE',
+      startTime,
+      endTime: syncedAt.getTime(),
+    });
+
+    const snapshots = new Map(trades.map((t) => [t, tradeSnapshot(t)]));
+    const dirty = new Set<TradeDocument>();
+    for (const income of incomes) {
+      if (!USD_ASSETS.has(income.asset.toUpperCase())) {
+        this.logger.warn({ incomeId: income.id, asset: income.asset }, 'Skipping funding payment in non-USD asset');
+        continue;
+      }
+      const trade = this.tradeHoldingAt(trades, income);
+      if (!trade) {
+        this.logger.debug({ incomeId: income.id, symbol: income.symbol }, 'Funding payment does not match a synced trade');
+        continue;
+      }
+      if (trade.fundingPayments.some((f) => f.exchangeIncomeId === income.id)) continue;
+      trade.fundingPayments.push({
+        amountUsd: income.amount,
+        paidAt: new Date(income.time),
+        exchangeIncomeId: income.id,
+      });
+      dirty.add(trade);
+      stats.funding++;
+    }
+
+    for (const trade of dirty) {
+      await trade.save();
+      await recordTradeRevision(trade, snapshots.get(trade) ?? null, SYNC_REVISION);
+    }
+    await ExchangeConnection.updateOne({ _id: this.connectionId }, { $set: { lastFundingTime: syncedAt } });
+  }
+
+  private tradeHoldingAt(trades: TradeDocument[], income: ExchangeIncome): TradeDocument | undefined {
+    if (!income.symbol) return undefined;
+    return trades.find((t) => {
+      if (symbolOfPositionKey(t.exchangePositionId!) !== income.symbol) return false;
+      const openedAt = t.entries[0]?.entryDate.getTime();
+      if (openedAt == null || openedAt > income.time) return false;
+      if (t.status === 'active') return true;
+      const closedAt = t.closes[t.closes.length - 1]?.closeDate.getTime();
+      return closedAt != null && closedAt >= income.time;
+    });
+  }
+
+  private newTradeFromFill(symbol: string, fill: LedgerFill, side: TradeSide, syncedAt: Date): TradeDocument {
+    const exchangeProductType: TradeExchangeProductType = (fill.leverage ?? 1) > 1 ? 'perpetual' : 'spot';
+    return new Trade({
+      userId: this.userObjectId,
+      side,
+      status: 'active',
+      coin: symbol.toUpperCase(),
+      entries: [],
+      closes: [],
+      source: this.exchange,
+      exchange: this.exchange,
+      exchangePositionId: fill.positionKey,
+      exchangeProductType,
+      lastSyncedAt: syncedAt,
+    });
+  }
+
+  private toLedgerFill(fill: ExchangeFill, leverage?: number): LedgerFill {
+    return {
+      id: fill.id,
+      orderId: fill.orderId,
+      positionKey: positionKey(fill.symbol, fill.positionSide),
+      side: fill.side === 'BUY' ? 'buy' : 'sell',
+      positionSide: fill.positionSide === 'LONG' ? 'long' : fill.positionSide === 'SHORT' ? 'short' : undefined,
+      price: fill.price,
+      qty: fill.qty,
+      realizedPnlUsd: fill.realizedPnl,
+      feeUsd: this.commissionUsd(fill),
+      leverage,
+      time: new Date(fill.time),
+    };
+  }
+
+  private commissionUsd(fill: ExchangeFill): number | undefined {
+    if (!fill.commission) return undefined;
+    // Commission paid in a non-USD asset (e.g. a fee discount token) has no price here
+    if (fill.commissionAsset && !USD_ASSETS.has(fill.commissionAsset.toUpperCase())) return undefined;
+    return fill.commission;
+  }
+
+  private mapPosition(position: ExchangePosition): PositionTradePayload | null {
+    const positionId = position.id?.toString?.() ?? position.id;
+    if (!positionId) return null;
+
+    if (typeof position.size !== 'number' || position.size === 0) return null;
+    if (typeof position.entryPrice !== 'number' || !(position.entryPrice > 0)) return null;
+
+    const coin = position.symbol?.trim().toUpperCase();
+    if (!coin) return null;
+
+    // Size the snapshot entry from the position itself so later fills reduce it exactly
+    const notionalUsd = Math.abs(position.size) * position.entryPrice;
+
+    const derivedLeverage =
+      position.leverage ??
+      (position.collateralUsd && position.collateralUsd > 0
+        ? notionalUsd / position.collateralUsd
+        : undefined);
+
+    const leverageValue = derivedLeverage && derivedLeverage > 1 ? derivedLeverage : 1;
+    const exchangeProductType: TradeExchangeProductType = leverageValue > 1 ? 'perpetual' : 'spot';
+
+    const investedUsd = exchangeProductType === 'perpetual' ? notionalUsd / leverageValue : notionalUsd;
+
+    if (!(investedUsd > 0)) return null;
+
+    const entryDate = position.openedAt ? new Date(position.openedAt) : new Date();
+
+    const entry: ITradeEntry = {
+      entryPrice: position.entryPrice,
+      amountInvestedUsd: investedUsd,
+      leverage: exchangeProductType === 'perpetual' ? leverageValue : 1,
+      entryDate,
+    };
+
+    const side: TradeSide = position.size > 0 ? 'long' : 'short';
+
+    return {
+      positionId,
+      coin,
+      side,
+      entry,
+      exchangeProductType,
+      accountId: position.accountId,
+    };
+  }
+}
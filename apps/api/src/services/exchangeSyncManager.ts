@@ -0,0 +1,114 @@
+import axios from 'axios';
+import type { FastifyBaseLogger } from 'fastify';
+import type { ExchangeBalance, ExchangeConnector, ExchangeId } from '../clients/exchangeConnector';
+import { getExchangeAdapter, type ExchangeCredentials } from '../clients/exchanges';
+import { ExchangeConnection, type IExchangeConnection } from '../models/ExchangeConnection';
+import { ExchangeSyncService } from './exchangeSync';
+import { CredentialCipher } from './credentialCipher';
+
+export interface ExchangeSyncManagerOptions {
+  pollIntervalMs: number;
+}
+
+export type ConnectionTestResult = { ok: true; balances: ExchangeBalance[] } | { ok: false; error: string };
+
+/** Runs one ExchangeSyncService per stored exchange connection. */
+export class ExchangeSyncManager {
+  private readonly services = new Map<string, ExchangeSyncService>();
+
+  constructor(
+    private readonly options: ExchangeSyncManagerOptions,
+    private readonly cipher: CredentialCipher,
+    private readonly logger: FastifyBaseLogger,
+  ) {}
+
+  async startAll() {
+    const connections = await ExchangeConnection.find();
+    for (const connection of connections) {
+      this.start(connection);
+    }
+    this.logger.info({ count: this.services.size }, 'Exchange sync manager started');
+  }
+
+  start(connection: IExchangeConnection): ExchangeSyncService | undefined {
+    const connectionId = connection._id.toString();
+    this.stop(connectionId);
+    try {
+      const service = new ExchangeSyncService(
+        {
+          pollIntervalMs: this.options.pollIntervalMs,
+          userId: connection.userId.toString(),
+          connectionId,
+        },
+        this.connectorFor(connection),
+        this.logger.child({ connectionId, exchange: connection.exchange }),
+      );
+      this.services.set(connectionId, service);
+      service.start();
+      return service;
+    } catch (err) {
+      this.logger.error({ err, connectionId }, 'Failed to start exchange sync for connection');
+      return undefined;
+    }
+  }
+
+  stop(connectionId: string) {
+    const service = this.services.get(connectionId);
+    if (!service) return;
+    service.stop();
+    this.services.delete(connectionId);
+  }
+
+  stopAll() {
+    for (const service of this.services.values()) {
+      service.stop();
+    }
+    this.services.clear();
+  }
+
+  get(connectionId: string): ExchangeSyncService | undefined {
+    return this.services.get(connectionId);
+  }
+
+  /** Splits validated credentials into clear-text fields and an encrypted secrets blob. */
+  sealCredentials(exchange: ExchangeId, credentials: ExchangeCredentials) {
+    const { secretFields } = getExchangeAdapter(exchange);
+    const publicCredentials: ExchangeCredentials = {};
+    const secrets: ExchangeCredentials = {};
+    for (const [key, value] of Object.entries(credentials)) {
+      if (secretFields.includes(key)) secrets[key] = value;
+      else publicCredentials[key] = value;
+    }
+    return { credentials: publicCredentials, secretsEncrypted: this.cipher.encrypt(JSON.stringify(secrets)) };
+  }
+
+  connectorFor(connection: IExchangeConnection): ExchangeConnector {
+    const secrets = JSON.parse(this.cipher.decrypt(connection.secretsEncrypted)) as ExchangeCredentials;
+    return getExchangeAdapter(connection.exchange).createConnector({ ...connection.credentials, ...secrets });
+  }
+
+  /** Makes one signed request with the connector to confirm the exchange accepts the credentials. */
+  async testConnector(connector: ExchangeConnector): Promise<ConnectionTestResult> {
+    try {
+      const balances = await connector.fetchBalances();
+      return { ok: true, balances };
+    } catch (err) {
+      return { ok: false, error: describeExchangeError(err) };
+    }
+  }
+}
+
+function describeExchangeError(err: unknown): string {
+  if (axios.isAxiosError(err)) {
+    const data: any = err.response?.data;
+    if (data?.msg) return String(data.msg);
+    if (err.response) return `Exchange responded with HTTP ${err.response.status}`;
+  }
+  return (err as any)?.message ?? 'Unknown error';
+}
+
+declare module 'fastify' {
+  interface FastifyInstance {
+    exchangeSyncManager?: ExchangeSyncManager;
+  }
+}
@@ -0,0 +1,174 @@
+import type { HydratedDocument } from 'mongoose';
+import type { ITrade, TradeSide } from '../models/Trade';
+import { computeTradeAggregates, type TradeAggregates } from './tradeMetrics';
+
+const SIZE_EPSILON = 1e-8;
+// Relative tolerance so exchange size rounding does not leave dust positions open
+const RELATIVE_SIZE_EPSILON = 1e-6;
+
+export type TradeDocument = HydratedDocument<ITrade>;
+
+/** A single execution, normalized from an exchange fill or an imported history row. */
+export interface LedgerFill {
+  id: string;
+  orderId?: string;
+  /** Trades sharing a key form one position, e.g. `BTCUSDT:BOTH`. */
+  positionKey: string;
+  side: 'buy' | 'sell';
+  /** Hedge-mode position side; undefined for one-way accounts where fills can flip the position. */
+  positionSide?: TradeSide;
+  price: number;
+  qty: number;
+  /** Exchange-reported PnL of a reducing fill; recomputed from the average entry when missing. */
+  realizedPnlUsd?: number;
+  /** Commission charged for the whole fill, in USD. */
+  feeUsd?: number;
+  leverage?: number;
+  time: Date;
+}
+
+export type OpenTradeFactory = (fill: LedgerFill, side: TradeSide) => TradeDocument;
+
+/**
+ * Replays fills onto trade documents: opening fills become entries, reducing fills become closes,
+ * and a position that goes flat closes its trade. Fills of the same order are merged into one
+ * entry/close. Documents are mutated in memory only; callers persist `touchedTrades()`.
+ */
+export class TradeFillLedger {
+  private readonly active = new Map<string, TradeDocument>();
+  private readonly touched = new Set<TradeDocument>();
+
+  constructor(activeTrades: TradeDocument[], private readonly openTrade: OpenTradeFactory) {
+    for (const trade of activeTrades) {
+      if (trade.exchangePositionId) this.active.set(trade.exchangePositionId, trade);
+    }
+  }
+
+  activeTrade(positionKey: string): TradeDocument | undefined {
+    return this.active.get(positionKey);
+  }
+
+  touchedTrades(): TradeDocument[] {
+    return [...this.touched];
+  }
+
+  /** Returns the quantity that could not be attributed to any position (0 when fully applied). */
+  apply(fill: LedgerFill): number {
+    const fillDirection: TradeSide = fill.side === 'buy' ? 'long' : 'short';
+    let qty = fill.qty;
+
+    while (qty > SIZE_EPSILON) {
+      const trade = this.active.get(fill.positionKey);
+      if (!trade) {
+        const side = fill.positionSide ?? fillDirection;
+        // A hedge-mode reduce with no tracked position cannot be attributed to a trade
+        if (side !== fillDirection) return qty;
+        const created = this.openTrade(fill, side);
+        this.active.set(fill.positionKey, created);
+        this.touched.add(created);
+        this.addEntry(created, fill, qty);
+        return 0;
+      }
+
+      this.touched.add(trade);
+      if (trade.side === fillDirection) {
+        this.addEntry(trade, fill, qty);
+        return 0;
+      }
+
+      qty = this.reduce(trade, fill, qty);
+      // Hedge-mode positions never flip; anything left over is unattributed
+      if (fill.positionSide && qty > SIZE_EPSILON) return qty;
+    }
+
+    return 0;
+  }
+
+  private addEntry(trade: TradeDocument, fill: LedgerFill, qty: number) {
+    const last = trade.entries[trade.entries.length - 1];
+    const notional = qty * fill.price;
+
+    if (last && fill.orderId && last.exchangeOrderId === fill.orderId) {
+      const lastLeverage = last.leverage ?? 1;
+      const lastNotional = last.amountInvestedUsd * lastLeverage;
+      const lastCoin = lastNotional / last.entryPrice;
+      last.entryPrice = (lastNotional + notional) / (lastCoin + qty);
+      last.amountInvestedUsd += notional / lastLeverage;
+      if (fill.feeUsd) last.feeUsd = (last.feeUsd ?? 0) + fill.feeUsd * (qty / fill.qty);
+      return;
+    }
+
+    const leverage = fill.leverage ?? last?.leverage ?? 1;
+    trade.entries.push({
+      entryPrice: fill.price,
+      amountInvestedUsd: notional / leverage,
+      leverage,
+      entryDate: fill.time,
+      feeUsd: fill.feeUsd != null ? fill.feeUsd * (qty / fill.qty) : undefined,
+      exchangeOrderId: fill.orderId,
+    });
+  }
+
+  /** Books a close for up to the open size and returns the quantity left over. */
+  private reduce(trade: TradeDocument, fill: LedgerFill, qty: number): number {
+    const aggregates = computeTradeAggregates(trade.toObject() as ITrade);
+    const avgEntry = aggregates.avgEntryPrice;
+    const openCoin = aggregates.openCoin;
+    if (avgEntry == null || !(openCoin > SIZE_EPSILON)) {
+      this.closeTrade(trade, fill.time);
+      return qty;
+    }
+
+    const coin = Math.min(qty, openCoin);
+    const pnlUsd = fill.realizedPnlUsd
+      ? fill.realizedPnlUsd * (coin / fill.qty)
+      : trade.side === 'long'
+        ? (fill.price - avgEntry) * coin
+        : (avgEntry - fill.price) * coin;
+    // A flipping fill pays its commission on both the close and the new entry
+    const feeUsd = fill.feeUsd != null ? fill.feeUsd * (coin / fill.qty) : undefined;
+
+    const last = trade.closes[trade.closes.length - 1];
+    if (last && fill.orderId && last.exchangeOrderId === fill.orderId) {
+      last.closeCoinAmount += coin;
+      last.closeUsdAmount += coin * fill.price;
+      last.closePrice = last.closeUsdAmount / last.closeCoinAmount;
+      last.closeDate = fill.time;
+      last.pnlUsd += pnlUsd;
+      last.pnlPercent = percentOfMargin(last.pnlUsd, last.closeCoinAmount, aggregates);
+      if (feeUsd) last.feeUsd = (last.feeUsd ?? 0) + feeUsd;
+    } else {
+      trade.closes.push({
+        closePrice: fill.price,
+        closeCoinAmount: coin,
+        closeUsdAmount: coin * fill.price,
+        closeDate: fill.time,
+        pnlUsd,
+        pnlPercent: percentOfMargin(pnlUsd, coin, aggregates),
+        feeUsd,
+        exchangeOrderId: fill.orderId,
+      });
+    }
+
+    const remainingOpen = openCoin - coin;
+    if (remainingOpen <= Math.max(SIZE_EPSILON, openCoin * RELATIVE_SIZE_EPSILON)) {
+      this.closeTrade(trade, fill.time);
+      return qty - coin;
+    }
+    return 0;
+  }
+
+  private closeTrade(trade: TradeDocument, closedAt: Date) {
+    const positionKey = trade.exchangePositionId!;
+    trade.status = 'closed';
+    // Free the position key so the next position on this market becomes a new trade
+    trade.exchangePositionId = `${positionKey}@${closedAt.getTime()}`;
+    this.active.delete(positionKey);
+  }
+}
+
+function percentOfMargin(pnlUsd: number, coin: number, aggregates: TradeAggregates): number {
+  const margin =
+    aggregates.totalEntryCoin > 0 ? aggregates.totalInitialMarginUsd * (coin / aggregates.totalEntryCoin) : 0;
+  return margin > 0 ? (pnlUsd / margin) * 100 : 0;
+}
@@ -0,0 +1,292 @@
+import { Types } from 'mongoose';
+import { Trade, type HistoryFileExchange, type ITrade, type TradeSide } from '../models/Trade';
+import { parseCsv } from './csv';
+import { TradeFillLedger, type LedgerFill, type TradeDocument } from './fillLedger';
+import { CsvImportError, MAX_IMPORT_ROWS } from './tradeImport';
+
+export const HISTORY_FORMATS = ['binance-futures', 'bybit', 'asterdex'] as const;
+export type HistoryFormat = (typeof HISTORY_FORMATS)[number];
+
+type FillColumn =
+  | 'time'
+  | 'symbol'
+  | 'side'
+  | 'tradeType'
+  | 'positionSide'
+  | 'price'
+  | 'qty'
+  | 'fee'
+  | 'feeAsset'
+  | 'realizedPnl'
+  | 'orderId'
+  | 'tradeId';
+
+interface HistoryFormatSpec {
+  exchange: HistoryFileExchange;
+  label: string;
+  /** Accepted header names per column, compared after lower-casing and dropping non-alphanumerics. */
+  columns: Partial<Record<FillColumn, string[]>>;
+}
+
+const REQUIRED_COLUMNS: FillColumn[] = ['time', 'symbol', 'price', 'qty'];
+
+// Binance-style futures exports; AsterDex uses the same layout
+const BINANCE_COLUMNS: HistoryFormatSpec['columns'] = {
+  time: ['dateutc', 'timeutc', 'time', 'date'],
+  symbol: ['symbol', 'pair'],
+  side: ['side'],
+  positionSide: ['positionside'],
+  price: ['price', 'avgprice'],
+  qty: ['quantity', 'qty', 'executedqty', 'executed'],
+  fee: ['fee', 'commission'],
+  feeAsset: ['feecoin', 'feeasset', 'commissionasset'],
+  realizedPnl: ['realizedprofit', 'realizedpnl'],
+  orderId: ['orderid', 'orderno'],
+  tradeId: ['tradeid', 'id'],
+};
+
+const FORMATS: Record<HistoryFormat, HistoryFormatSpec> = {
+  'binance-futures': { exchange: 'binance', label: 'Binance Futures', columns: BINANCE_COLUMNS },
+  asterdex: { exchange: 'asterdex', label: 'AsterDex', columns: BINANCE_COLUMNS },
+  bybit: {
+    exchange: 'bybit',
+    label: 'Bybit',
+    columns: {
+      time: ['tradetimeutc0', 'tradetime', 'filledtime', 'transactiontime', 'time'],
+      symbol: ['contracts', 'symbol'],
+      side: ['side', 'direction'],
+      tradeType: ['tradetype'],
+      price: ['filledprice', 'execprice', 'price'],
+      qty: ['filledqty', 'execqty', 'qty', 'quantity'],
+      fee: ['tradingfee', 'execfee', 'execfeetradingfee', 'fee'],
+      feeAsset: ['feecoin', 'feeasset'],
+      realizedPnl: ['closedpnl', 'realizedpnl'],
+      orderId: ['orderno', 'orderid'],
+      tradeId: ['transactionid', 'execid', 'tradeid'],
+    },
+  },
+};
+
+// Fees in these assets are booked 1:1 as USD; others are ignored
+const USD_ASSETS = new Set(['USDT', 'USDC', 'USD', 'BUSD', 'FDUSD', 'USDF']);
+
+export interface HistoryImportOptions {
+  /** Leverage applied to every entry; export files do not carry it. Defaults to 1x. */
+  leverage?: number;
+}
+
+export interface HistoryLineIssue {
+  line: number;
+  message: string;
+}
+
+export interface HistoryImportResult {
+  trades: TradeDocument[];
+  totalRows: number;
+  validRows: number;
+  invalidRows: HistoryLineIssue[];
+  duplicateFills: number;
+  /**
+   * Valid fills that could not be matched to a position, e.g. closes of a position opened before the file starts,
+   * and fees paid in non-USD assets that were left out of realized PnL.
+   */
+  warnings: HistoryLineIssue[];
+}
+
+interface ParsedFill {
+  line: number;
+  fill: LedgerFill;
+  // A fee charged in a non-USD asset (e.g. BNB), which is left out of realized PnL
+  unpricedFee?: { value: number; asset: string };
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+function parseAmount(raw: string | undefined): { value: number; asset?: string } | null {
+  if (raw == null) return null;
+  // Values may carry a unit, e.g. `0.0123 USDT` or `0.5BTC`
+  const match = raw.replace(/,/g, '').trim().match(/^(-?\d+(?:\.\d+)?(?:e-?\d+)?)\s*([A-Za-z]+)?$/i);
+  if (!match) return null;
+  const value = Number(match[1]);
+  return Number.isFinite(value) ? { value, asset: match[2]?.toUpperCase() } : null;
+}
+
+function parseTime(raw: string | undefined): Date | null {
+  if (!raw) return null;
+  const value = raw.trim();
+  if (/^\d{10,13}$/.test(value)) return new Date(Number(value) * (value.length === 10 ? 1000 : 1));
+  // Exports write UTC wall-clock times without a zone; do not let them parse as server-local time
+  const utc = /^\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/.test(value) ? `${value.replace(' ', 'T')}Z` : value;
+  const date = new Date(utc);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/** Buy/sell direction and hedge-mode position side from the side column or a Bybit `Open Long` style trade type. */
+function parseDirection(side?: string, tradeType?: string): { side: 'buy' | 'sell'; positionSide?: TradeSide } | null {
+  const type = tradeType?.trim().toLowerCase();
+  const typed = type?.match(/^(open|close)\s+(long|short)$/);
+  if (typed) {
+    const [, action, position] = typed;
+    const opensLong = position === 'long';
+    const buy = action === 'open' ? opensLong : !opensLong;
+    return { side: buy ? 'buy' : 'sell', positionSide: position as TradeSide };
+  }
+  const value = side?.trim().toLowerCase();
+  if (value === 'buy' || value === 'long') return { side: 'buy' };
+  if (value === 'sell' || value === 'short') return { side: 'sell' };
+  return null;
+}
+
+function parseFills(csv: string, spec: HistoryFormatSpec, options: HistoryImportOptions) {
+  const [header, ...lines] = parseCsv(csv);
+  if (!header) throw new CsvImportError('The file is empty');
+  if (lines.length > MAX_IMPORT_ROWS) throw new CsvImportError(`At most ${MAX_IMPORT_ROWS} rows can be imported at once`);
+
+  const normalized = header.map(normalizeHeader);
+  const indexOf = new Map<FillColumn, number>();
+  for (const [column, aliases] of Object.entries(spec.columns) as Array<[FillColumn, string[]]>) {
+    const index = aliases.map((alias) => normalized.indexOf(alias)).find((i) => i !== -1);
+    if (index !== undefined) indexOf.set(column, index);
+  }
+  const missing = REQUIRED_COLUMNS.filter((c) => !indexOf.has(c));
+  if (!indexOf.has('side') && !indexOf.has('tradeType')) missing.push('side');
+  if (missing.length > 0) {
+    throw new CsvImportError(`Not a ${spec.label} trade history file: missing ${missing.join(', ')} column(s)`);
+  }
+
+  const fills: ParsedFill[] = [];
+  const invalid: HistoryLineIssue[] = [];
+  lines.forEach((cells, i) => {
+    const line = i + 2;
+    const cell = (column: FillColumn) => {
+      const index = indexOf.get(column);
+      const value = index === undefined ? undefined : cells[index]?.trim();
+      return value === '' ? undefined : value;
+    };
+
+    const time = parseTime(cell('time'));
+    const symbol = cell('symbol')?.toUpperCase().replace(/[^A-Z0-9]/g, '');
+    const direction = parseDirection(cell('side'), cell('tradeType'));
+    const price = parseAmount(cell('price'))?.value;
+    const qty = parseAmount(cell('qty'))?.value;
+    const problems = [
+      !time && 'time',
+      !symbol && 'symbol',
+      !direction && 'side',
+      !(price && price > 0) && 'price',
+      !(qty && qty > 0) && 'quantity',
+    ].filter(Boolean);
+    if (problems.length > 0 || !time || !symbol || !direction || !price || !qty) {
+      invalid.push({ line, message: `Missing or invalid ${problems.join(', ')}` });
+      return;
+    }
+
+    const fee = parseAmount(cell('fee'));
+    const feeAsset = (cell('feeAsset') ?? fee?.asset ?? 'USDT').toUpperCase();
+    const positionSide =
+      direction.positionSide ?? (['long', 'short'].includes(cell('positionSide')?.toLowerCase() ?? '')
+        ? (cell('positionSide')!.toLowerCase() as TradeSide)
+        : undefined);
+
+    fills.push({
+      line,
+      fill: {
+        id: cell('tradeId') ?? `${line}`,
+        orderId: cell('orderId'),
+        positionKey: `${symbol}:${positionSide ? positionSide.toUpperCase() : 'BOTH'}`,
+        side: direction.side,
+        positionSide,
+        price,
+        qty,
+        realizedPnlUsd: parseAmount(cell('realizedPnl'))?.value,
+        feeUsd: fee && USD_ASSETS.has(feeAsset) ? Math.abs(fee.value) : undefined,
+        leverage: options.leverage,
+        time,
+      },
+      unpricedFee: fee && fee.value !== 0 && !USD_ASSETS.has(feeAsset) ? { value: Math.abs(fee.value), asset: feeAsset } : undefined,
+    });
+  });
+
+  fills.sort((a, b) => a.fill.time.getTime() - b.fill.time.getTime() || a.line - b.line);
+  return { fills, invalid, totalRows: lines.length };
+}
+
+/**
+ * Builds unsaved trades from an exchange trade-history export. Fills are grouped per market and
+ * position side with the same ledger as exchange sync; fills whose order was imported before
+ * (matched by exchange order id) are skipped.
+ */
+export async function importTradeHistory(
+  userId: string,
+  format: HistoryFormat,
+  csv: string,
+  options: HistoryImportOptions = {},
+): Promise<HistoryImportResult> {
+  const spec = FORMATS[format];
+  const { fills, invalid, totalRows } = parseFills(csv, spec, options);
+  const userObjectId = new Types.ObjectId(userId);
+
+  const orderIds = [...new Set(fills.map((f) => f.fill.orderId).filter((id): id is string => Boolean(id)))];
+  const known = new Set<string>();
+  if (orderIds.length > 0) {
+    const existing = await Trade.find({
+      userId: userObjectId,
+      exchange: spec.exchange,
+      $or: [{ 'entries.exchangeOrderId': { $in: orderIds } }, { 'closes.exchangeOrderId': { $in: orderIds } }],
+    })
+      .select('entries.exchangeOrderId closes.exchangeOrderId')
+      .lean<Pick<ITrade, 'entries' | 'closes'>[]>();
+    for (const t of existing) {
+      for (const e of t.entries) if (e.exchangeOrderId) known.add(e.exchangeOrderId);
+      for (const c of t.closes) if (c.exchangeOrderId) known.add(c.exchangeOrderId);
+    }
+  }
+
+  const ledger = new TradeFillLedger([], (fill, side) =>
+    new Trade({
+      userId: userObjectId,
+      side,
+      status: 'active',
+      coin: fill.positionKey.split(':')[0],
+      entries: [],
+      closes: [],
+      source: spec.exchange,
+      exchange: spec.exchange,
+      // The ledger tracks positions by this key; it is cleared before saving
+      exchangePositionId: fill.positionKey,
+      exchangeProductType: 'perpetual',
+    }),
+  );
+
+  let duplicateFills = 0;
+  const warnings: HistoryLineIssue[] = [];
+  for (const { line, fill, unpricedFee } of fills) {
+    if (fill.orderId && known.has(fill.orderId)) {
+      duplicateFills++;
+      continue;
+    }
+    if (unpricedFee) {
+      warnings.push({
+        line,
+        message: `Fee of ${unpricedFee.value} ${unpricedFee.asset} was not deducted; realized PnL is overstated by its USD value`,
+      });
+    }
+    const unattributed = ledger.apply(fill);
+    if (unattributed > 0) {
+      warnings.push({ line, message: `${unattributed} ${fill.positionKey.split(':')[0]} could not be matched to an open position` });
+    }
+  }
+
+  // Imported trades are not linked to live exchange positions, so sync never picks them up
+  const trades = ledger.touchedTrades().filter((t) => t.entries.length > 0);
+  for (const trade of trades) trade.exchangePositionId = undefined;
+
+  return {
+    trades,
+    totalRows,
+    validRows: fills.length,
+    invalidRows: invalid,
+    duplicateFills,
+    warnings,
+  };
+}
@@ -0,0 +1,459 @@
+import { Types } from 'mongoose';
+import { z } from 'zod';
+import { ALERT_TYPES, Alert, type IAlert } from '../models/Alert';
+import { ExchangeConnection } from '../models/ExchangeConnection';
+import { Trade, TRADE_SOURCES, type ITrade, type TradeSource } from '../models/Trade';
+import { TRADE_REVISION_ACTIONS, TradeRevision, type ITradeRevision } from '../models/TradeRevision';
+import { Strategy } from '../models/Strategy';
+import { Tag } from '../models/Tag';
+import { COST_BASIS_METHODS, DIGEST_FREQUENCIES, User } from '../models/User';
+import { isValidTimeZone } from './timeZone';
+import { recordCreatedTrades } from './tradeRevisions';
+
+export const BACKUP_FORMAT = 'trading-journal-backup';
+export const BACKUP_VERSION = 2;
+
+const withLegIds = (legs: any[] | undefined) =>
+  (legs ?? []).map((leg) => ({ ...leg, id: new Types.ObjectId().toString() }));
+
+/**
+ * Upgrades an archive from `version` to `version + 1`. Add an entry whenever the archive layout
+ * changes so archives taken by older releases keep restoring.
+ */
+const MIGRATIONS: Record<number, (archive: any) => any> = {
+  // v2: entries and closes carry stable ids
+  1: (archive) => ({
+    ...archive,
+    trades: (archive.trades ?? []).map((trade: any) => ({
+      ...trade,
+      entries: withLegIds(trade.entries),
+      closes: withLegIds(trade.closes),
+    })),
+  }),
+};
+
+const objectId = (message: string) => z.string().refine((v) => Types.ObjectId.isValid(v), { message });
+
+const entrySchema = z.object({
+  id: objectId('Invalid entry id'),
+  entryPrice: z.number().positive(),
+  amountInvestedUsd: z.number().positive(),
+  leverage: z.number().positive().nullish(),
+  entryDate: z.coerce.date(),
+  feeUsd: z.number().nullish(),
+  exchangeOrderId: z.string().nullish(),
+});
+
+const closeSchema = z.object({
+  id: objectId('Invalid close id'),
+  closePrice: z.number().positive(),
+  closeCoinAmount: z.number().nonnegative(),
+  closeUsdAmount: z.number().nonnegative(),
+  closeDate: z.coerce.date(),
+  pnlUsd: z.number(),
+  pnlPercent: z.number(),
+  feeUsd: z.number().nullish(),
+  exchangeOrderId: z.string().nullish(),
+});
+
+const takeProfitLevelSchema = z.object({
+  id: objectId('Invalid level id'),
+  price: z.number().positive(),
+  percent: z.number().positive().max(100),
+  filledAt: z.coerce.date().nullish(),
+  closeId: objectId('Invalid close id').nullish(),
+});
+
+const stopLossChangeSchema = z.object({
+  price: z.number().positive().nullable(),
+  changedAt: z.coerce.date(),
+});
+
+const fundingPaymentSchema = z.object({
+  amountUsd: z.number(),
+  paidAt: z.coerce.date(),
+  exchangeIncomeId: z.string().nullish(),
+});
+
+const backupTradeSchema = z.object({
+  id: objectId('Invalid trade id'),
+  side: z.enum(['long', 'short']),
+  status: z.enum(['active', 'closed']),
+  coin: z.string().min(1),
+  comment: z.string().nullish(),
+  tagIds: z.array(objectId('Invalid tag id')).default([]),
+  strategyId: objectId('Invalid strategy id').nullish(),
+  stopLossPrice: z.number().positive().nullish(),
+  takeProfitPrice: z.number().positive().nullish(),
+  takeProfitLevels: z.array(takeProfitLevelSchema).default([]),
+  stopLossHistory: z.array(stopLossChangeSchema).default([]),
+  // The planned risk in USD is derived from the entries on restore
+  initialStopLossPrice: z.number().positive().nullish(),
+  initialStopLossSetAt: z.coerce.date().nullish(),
+  manualMarkPrice: z.number().positive().nullish(),
+  entries: z.array(entrySchema),
+  closes: z.array(closeSchema),
+  fundingPayments: z.array(fundingPaymentSchema).default([]),
+  source: z.enum(TRADE_SOURCES as [TradeSource, ...TradeSource[]]).default('manual'),
+  exchange: z.string().nullish(),
+  exchangeAccountId: z.string().nullish(),
+  exchangeProductType: z.enum(['spot', 'perpetual']).nullish(),
+  // Link to the exchange position so sync keeps updating a restored active trade
+  exchangePositionId: z.string().nullish(),
+  lastSyncedAt: z.coerce.date().nullish(),
+  deletedAt: z.coerce.date().nullish(),
+  createdAt: z.coerce.date().optional(),
+  updatedAt: z.coerce.date().optional(),
+});
+
+const backupTagSchema = z.object({
+  id: objectId('Invalid tag id'),
+  name: z.string().trim().min(1),
+  color: z.string().nullish(),
+  createdAt: z.coerce.date().optional(),
+});
+
+const backupStrategySchema = z.object({
+  id: objectId('Invalid strategy id'),
+  name: z.string().trim().min(1),
+  description: z.string().nullish(),
+  createdAt: z.coerce.date().optional(),
+});
+
+const backupAlertSchema = z.object({
+  tradeId: objectId('Invalid trade id'),
+  type: z.enum(ALERT_TYPES),
+  coin: z.string(),
+  side: z.enum(['long', 'short']),
+  triggerPrice: z.number(),
+  markPrice: z.number(),
+  thresholdPercent: z.number().nullish(),
+  distancePercent: z.number().nullish(),
+  message: z.string(),
+  emailedAt: z.coerce.date().nullish(),
+  emailError: z.string().nullish(),
+  readAt: z.coerce.date().nullish(),
+  createdAt: z.coerce.date(),
+});
+
+const backupRevisionSchema = z.object({
+  id: objectId('Invalid revision id'),
+  tradeId: objectId('Invalid trade id'),
+  actorId: objectId('Invalid actor id').nullish(),
+  action: z.enum(TRADE_REVISION_ACTIONS),
+  route: z.string().nullish(),
+  before: z.record(z.unknown()).nullable(),
+  after: z.record(z.unknown()),
+  changes: z.array(z.object({ path: z.string(), before: z.unknown(), after: z.unknown() })).default([]),
+  revertedRevisionId: objectId('Invalid revision id').nullish(),
+  createdAt: z.coerce.date(),
+});
+
+export const backupArchiveSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  version: z.literal(BACKUP_VERSION),
+  exportedAt: z.coerce.date(),
+  profile: z.object({
+    name: z.string().min(1),
+    email: z.string().optional(),
+    username: z.string().optional(),
+    createdAt: z.coerce.date().optional(),
+  }),
+  // Journal preferences; applied on replace only, a merge keeps the account's own
+  settings: z
+    .object({
+      costBasisMethod: z.enum(COST_BASIS_METHODS).optional(),
+      alertEmails: z.boolean().optional(),
+      liquidationAlertPercent: z.number().positive().max(100).optional(),
+      digestFrequency: z.enum(DIGEST_FREQUENCIES).optional(),
+      timezone: z.string().refine(isValidTimeZone, 'Unknown time zone').optional(),
+    })
+    .default({}),
+  tags: z.array(backupTagSchema).default([]),
+  strategies: z.array(backupStrategySchema).default([]),
+  trades: z.array(backupTradeSchema),
+  revisions: z.array(backupRevisionSchema).default([]),
+  alerts: z.array(backupAlertSchema).default([]),
+  // Informational only: connections need fresh credentials and are never restored
+  connections: z.array(z.object({ exchange: z.string(), label: z.string().nullish() }).passthrough()).default([]),
+});
+
+export type BackupArchive = z.infer<typeof backupArchiveSchema>;
+export type RestoreMode = 'merge' | 'replace';
+
+export class BackupVersionError extends Error {}
+
+function stripNulls<T extends Record<string, unknown>>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v != null)) as T;
+}
+
+function toBackupRevision(revision: ITradeRevision) {
+  return {
+    id: revision._id.toString(),
+    tradeId: revision.tradeId.toString(),
+    actorId: revision.actorId?.toString(),
+    action: revision.action,
+    route: revision.route,
+    before: revision.before,
+    after: revision.after,
+    changes: revision.changes,
+    revertedRevisionId: revision.revertedRevisionId?.toString(),
+    createdAt: revision.createdAt,
+  };
+}
+
+function toBackupAlert({ _id, userId, tradeId, ...alert }: IAlert) {
+  return { ...alert, tradeId: tradeId.toString() };
+}
+
+function toBackupTrade(trade: ITrade) {
+  return {
+    id: trade._id.toString(),
+    side: trade.side,
+    status: trade.status,
+    coin: trade.coin,
+    comment: trade.comment,
+    tagIds: (trade.tagIds ?? []).map((id) => id.toString()),
+    strategyId: trade.strategyId?.toString(),
+    stopLossPrice: trade.stopLossPrice,
+    takeProfitPrice: trade.takeProfitPrice,
+    takeProfitLevels: (trade.takeProfitLevels ?? []).map(({ _id, closeId, ...level }) => ({
+      id: _id!.toString(),
+      ...level,
+      closeId: closeId?.toString(),
+    })),
+    stopLossHistory: trade.stopLossHistory ?? [],
+    initialStopLossPrice: trade.initialStopLossPrice,
+    initialStopLossSetAt: trade.initialStopLossSetAt,
+    manualMarkPrice: trade.manualMarkPrice,
+    entries: trade.entries.map(({ _id, ...entry }) => ({ id: _id!.toString(), ...entry })),
+    closes: trade.closes.map(({ _id, ...close }) => ({ id: _id!.toString(), ...close })),
+    fundingPayments: trade.fundingPayments ?? [],
+    source: trade.source ?? 'manual',
+    exchange: trade.exchange,
+    exchangeAccountId: trade.exchangeAccountId,
+    exchangeProductType: trade.exchangeProductType,
+    exchangePositionId: trade.exchangePositionId,
+    lastSyncedAt: trade.lastSyncedAt,
+    deletedAt: trade.deletedAt,
+    createdAt: trade.createdAt,
+    updatedAt: trade.updatedAt,
+  };
+}
+
+/**
+ * Everything the user entered or synced into their journal. Exchange connections are listed
+ * without credentials or sync bookkeeping: they are not portable, a restored account reconnects.
+ */
+export async function buildBackup(userId: string) {
+  const user = await User.findById(userId).lean();
+  if (!user) return null;
+  const trades = await Trade.find({ userId: user._id }).sort({ createdAt: 1 }).lean<ITrade[]>();
+  const revisions = await TradeRevision.find({ userId: user._id }).sort({ createdAt: 1, _id: 1 }).lean<ITradeRevision[]>();
+  const connections = await ExchangeConnection.find({ userId: user._id }).sort({ createdAt: 1 }).lean();
+  const tags = await Tag.find({ userId: user._id }).sort({ createdAt: 1 }).lean();
+  const strategies = await Strategy.find({ userId: user._id }).sort({ createdAt: 1 }).lean();
+  const alerts = await Alert.find({ userId: user._id }).sort({ createdAt: 1 }).lean<IAlert[]>();
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date(),
+    profile: {
+      name: user.name,
+      email: user.email,
+      username: user.username,
+      createdAt: user.createdAt,
+    },
+    settings: {
+      costBasisMethod: user.costBasisMethod,
+      alertEmails: user.alertEmails,
+      liquidationAlertPercent: user.liquidationAlertPercent,
+      digestFrequency: user.digestFrequency,
+      timezone: user.timezone,
+    },
+    tags: tags.map((t) => ({ id: t._id.toString(), name: t.name, color: t.color, createdAt: t.createdAt })),
+    strategies: strategies.map((s) => ({
+      id: s._id.toString(),
+      name: s.name,
+      description: s.description,
+      createdAt: s.createdAt,
+    })),
+    trades: trades.map(toBackupTrade),
+    revisions: revisions.map(toBackupRevision),
+    alerts: alerts.map(toBackupAlert),
+    connections: connections.map((c) => ({
+      exchange: c.exchange,
+      label: c.label,
+      credentials: c.credentials,
+      createdAt: c.createdAt,
+    })),
+  };
+}
+
+/** Brings an archive of any supported version up to the current layout, then validates it. */
+export function migrateBackup(raw: unknown) {
+  const archive: any = raw;
+  if (!archive || typeof archive !== 'object' || archive.format !== BACKUP_FORMAT) {
+    throw new BackupVersionError('Not a journal backup archive');
+  }
+  let version = Number(archive.version);
+  if (!Number.isInteger(version) || version < 1) throw new BackupVersionError('Backup archive has no valid version');
+  if (version > BACKUP_VERSION) {
+    throw new BackupVersionError(`Backup version ${version} is newer than this server supports (${BACKUP_VERSION})`);
+  }
+
+  let migrated = archive;
+  while (version < BACKUP_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new BackupVersionError(`No migration from backup version ${version}`);
+    migrated = { ...migrate(migrated), version: version + 1 };
+    version++;
+  }
+  return backupArchiveSchema.safeParse(migrated);
+}
+
+/**
+ * Maps archive catalog ids to the ids trades should reference after the restore. On merge an
+ * item whose name the account already uses maps onto that item; everything else is created
+ * under a new id so archives from other accounts cannot collide.
+ */
+async function planCatalogRestore<T extends { id: string; name: string }>(
+  model: typeof Tag | typeof Strategy,
+  userId: Types.ObjectId,
+  items: T[],
+  mode: RestoreMode,
+) {
+  const existing = new Map<string, Types.ObjectId>();
+  if (mode === 'merge') {
+    const current = await (model as typeof Tag).find({ userId }).select('name').lean();
+    for (const item of current) existing.set(item.name.toLowerCase(), item._id);
+  }
+
+  const ids = new Map<string, Types.ObjectId>();
+  const created: Array<Record<string, unknown>> = [];
+  for (const { id, ...item } of items) {
+    const key = item.name.toLowerCase();
+    let target = existing.get(key);
+    if (!target) {
+      target = new Types.ObjectId();
+      existing.set(key, target);
+      created.push({ ...stripNulls(item), _id: target, userId });
+    }
+    ids.set(id, target);
+  }
+  return { ids, created };
+}
+
+/**
+ * Loads archive trades into the account. `merge` keeps existing trades and skips archive trades
+ * already present (same id); `replace` deletes the account's trades first. Archive ids are kept
+ * unless another account already uses them. Revision history of the restored trades comes along.
+ */
+export async function restoreBackup(userId: string, archive: BackupArchive, mode: RestoreMode) {
+  const userObjectId = new Types.ObjectId(userId);
+  const archiveIds = archive.trades.map((t) => new Types.ObjectId(t.id));
+
+  const existing = await Trade.find({ _id: { $in: archiveIds } }).select('userId').lean<Pick<ITrade, '_id' | 'userId'>[]>();
+  const ownIds = new Set(existing.filter((t) => t.userId.equals(userObjectId)).map((t) => t._id.toString()));
+  const foreignIds = new Set(existing.filter((t) => !t.userId.equals(userObjectId)).map((t) => t._id.toString()));
+
+  // On merge an exchange position the account already tracks is kept as is, like a trade with the same id
+  const positionKey = (t: { exchange?: string | null; exchangePositionId?: string | null }) =>
+    t.exchange && t.exchangePositionId ? `${t.exchange}:${t.exchangePositionId}` : null;
+  const archivePositionIds = archive.trades.map((t) => t.exchangePositionId).filter((id): id is string => !!id);
+  const syncedPositions = new Set(
+    mode === 'merge' && archivePositionIds.length > 0
+      ? (
+          await Trade.find({ userId: userObjectId, exchangePositionId: { $in: archivePositionIds } })
+            .select('exchange exchangePositionId')
+            .lean<Pick<ITrade, 'exchange' | 'exchangePositionId'>[]>()
+        )
+          .map(positionKey)
+          .filter((key): key is string => key != null)
+      : [],
+  );
+
+  // Catalog items are matched to the account's by name on merge; the rest are created fresh
+  const tags = await planCatalogRestore(Tag, userObjectId, archive.tags, mode);
+  const strategies = await planCatalogRestore(Strategy, userObjectId, archive.strategies, mode);
+
+  // Archive trade id -> id the trade is restored under
+  const tradeIds = new Map<string, Types.ObjectId>();
+  const docs = archive.trades
+    .filter((t) => mode === 'replace' || (!ownIds.has(t.id) && !syncedPositions.has(positionKey(t) ?? '')))
+    .map(({ id, entries, closes, takeProfitLevels, fundingPayments, tagIds, strategyId, ...trade }) => {
+      const _id = foreignIds.has(id) ? new Types.ObjectId() : new Types.ObjectId(id);
+      tradeIds.set(id, _id);
+      return new Trade({
+        ...stripNulls(trade),
+        _id,
+        userId: userObjectId,
+        tagIds: tagIds.map((tagId) => tags.ids.get(tagId)).filter(Boolean),
+        strategyId: strategyId ? strategies.ids.get(strategyId) : undefined,
+        entries: entries.map(({ id, ...entry }) => ({ ...stripNulls(entry), _id: new Types.ObjectId(id) })),
+        closes: closes.map(({ id, ...close }) => ({ ...stripNulls(close), _id: new Types.ObjectId(id) })),
+        takeProfitLevels: takeProfitLevels.map(({ id, closeId, ...level }) => ({
+          ...stripNulls(level),
+          _id: new Types.ObjectId(id),
+          closeId: closeId ? new Types.ObjectId(closeId) : undefined,
+        })),
+        fundingPayments: fundingPayments.map(stripNulls),
+      });
+    });
+
+  // Revisions get fresh ids so restoring the same archive twice cannot collide
+  const revisionIds = new Map(archive.revisions.map((r) => [r.id, new Types.ObjectId()]));
+  const revisions = archive.revisions
+    .filter((r) => tradeIds.has(r.tradeId))
+    .map((r) => ({
+      _id: revisionIds.get(r.id),
+      tradeId: tradeIds.get(r.tradeId),
+      userId: userObjectId,
+      actorId: r.actorId ?? undefined,
+      action: r.action,
+      route: r.route ?? undefined,
+      before: r.before,
+      after: r.after,
+      changes: r.changes,
+      revertedRevisionId: r.revertedRevisionId ? revisionIds.get(r.revertedRevisionId) : undefined,
+      createdAt: r.createdAt,
+    }));
+
+  const alerts = archive.alerts
+    .filter((a) => tradeIds.has(a.tradeId))
+    .map((a) => ({ ...stripNulls(a), userId: userObjectId, tradeId: tradeIds.get(a.tradeId) }));
+
+  // Validate everything before touching the account so a bad archive cannot leave it half-replaced
+  await Promise.all(docs.map((doc) => doc.validate()));
+
+  let removed = 0;
+  if (mode === 'replace') {
+    removed = (await Trade.deleteMany({ userId: userObjectId })).deletedCount;
+    await TradeRevision.deleteMany({ userId: userObjectId });
+    await Alert.deleteMany({ userId: userObjectId });
+    await Tag.deleteMany({ userId: userObjectId });
+    await Strategy.deleteMany({ userId: userObjectId });
+    await User.updateOne({ _id: userObjectId }, { $set: { name: archive.profile.name, ...archive.settings } });
+  }
+  if (tags.created.length > 0) await Tag.insertMany(tags.created);
+  if (strategies.created.length > 0) await Strategy.insertMany(strategies.created);
+  // insertMany only stamps timestamps the archive does not already carry
+  const inserted = docs.length > 0 ? await Trade.insertMany(docs) : [];
+  if (revisions.length > 0) await TradeRevision.insertMany(revisions);
+  if (alerts.length > 0) await Alert.insertMany(alerts);
+  await recordCreatedTrades(inserted, { actorId: userId, action: 'backup-restore' });
+
+  return {
+    mode,
+    restored: {
+      trades: inserted.length,
+      revisions: revisions.length,
+      alerts: alerts.length,
+      tags: tags.created.length,
+      strategies: strategies.created.length,
+    },
+    skipped: { trades: archive.trades.length - docs.length },
+    removed: { trades: removed },
+  };
+}
@@ -1,47 +1,145 @@
+import crypto from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
 import nodemailer from 'nodemailer';
-import { loadApiEnv } from '@services/config/src/env';
+import { loadApiEnv, type ApiEnv } from '@services/config/src/env';
+import type { IAlert } from '../models/Alert';
+import { accountExportEmail, digestEmail, passwordResetEmail, tradeAlertEmail } from './emailTemplates';
+import type { TradeDigest } from './tradeDigest';
 
-let _transporter: nodemailer.Transporter | null = null;
+export interface MailAttachment {
+  filename: string;
+  content: string | Buffer;
+  contentType?: string;
+}
 
-function getTransporter() {
-  if (_transporter) return _transporter;
-  const env = loadApiEnv();
-  _transporter = nodemailer.createTransport({
+export interface MailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  text?: string;
+  attachments?: MailAttachment[];
+}
+
+/** Where outgoing mail goes; picked once from `EMAIL_PROVIDER`. */
+interface MailTransport {
+  send(message: MailMessage): Promise<unknown>;
+}
+
+// Development transports need no sender configuration
+const DEV_FROM_EMAIL = 'journal@localhost';
+const DEFAULT_OUTBOX_DIR = '.outbox';
+
+function smtpTransport(env: ApiEnv): MailTransport {
+  const transporter = nodemailer.createTransport({
     host: env.SES_SMTP_HOST,
     port: env.SES_SMTP_PORT ?? 587,
     secure: false, // TLS with STARTTLS on port 587
     auth: env.SES_SMTP_USER && env.SES_SMTP_PASS ? { user: env.SES_SMTP_USER, pass: env.SES_SMTP_PASS } : undefined,
   });
-  return _transporter;
+  return { send: (message) => transporter.sendMail(message) };
+}
+
+// One JSON file per message (nodemailer's JSON format, attachments base64 encoded)
+function fileOutboxTransport(dir: string): MailTransport {
+  const transporter = nodemailer.createTransport({ jsonTransport: true });
+  return {
+    async send(message) {
+      const info = await transporter.sendMail(message);
+      await mkdir(dir, { recursive: true });
+      const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+      const file = path.join(dir, `${stamp}-${crypto.randomBytes(3).toString('hex')}.json`);
+      await writeFile(file, JSON.stringify(JSON.parse(info.message), null, 2));
+      return { ...info, file };
+    },
+  };
+}
+
+function consoleTransport(): MailTransport {
+  return {
+    async send(message) {
+      const lines = [
+        `--- Email to ${message.to} from ${message.from}`,
+        `Subject: ${message.subject}`,
+        '',
+        message.text ?? message.html,
+        ...(message.attachments ?? []).map((a) => `[attachment: ${a.filename}]`),
+        '---',
+      ];
+      // eslint-disable-next-line no-console
+      console.info(lines.join('\n'));
+      return { accepted: [message.to] };
+    },
+  };
+}
+
+let _transport: MailTransport | null = null;
+
+function getTransport() {
+  if (_transport) return _transport;
+  const env = loadApiEnv();
+  switch (env.EMAIL_PROVIDER) {
+    case 'file':
+      _transport = fileOutboxTransport(path.resolve(env.EMAIL_OUTBOX_DIR ?? DEFAULT_OUTBOX_DIR));
+      break;
+    case 'console':
+      _transport = consoleTransport();
+      break;
+    default:
+      _transport = smtpTransport(env);
+  }
+  return _transport;
 }
 
-export async function sendMail(opts: { to: string; subject: string; html: string; text?: string; fromName?: string }) {
+export async function sendMail(opts: {
+  to: string;
+  subject: string;
+  html: string;
+  text?: string;
+  fromName?: string;
+  attachments?: MailAttachment[];
+}) {
   const env = loadApiEnv();
-  const fromEmail = env.EMAIL_FROM;
+  const devTransport = env.EMAIL_PROVIDER === 'file' || env.EMAIL_PROVIDER === 'console';
+  const fromEmail = env.EMAIL_FROM ?? (devTransport ? DEV_FROM_EMAIL : undefined);
   if (!fromEmail) throw new Error('EMAIL_FROM not configured');
   const fromName = opts.fromName || env.EMAIL_FROM_NAME || undefined;
   const from = fromName ? `${fromName} <${fromEmail}>` : fromEmail;
-  const transporter = getTransporter();
-  return transporter.sendMail({
+  return getTransport().send({
     from,
     to: opts.to,
     subject: opts.subject,
     text: opts.text,
     html: opts.html,
+    attachments: opts.attachments,
   });
 }
 
+function webBaseUrl() {
+  return loadApiEnv().WEB_BASE_URL || 'http://localhost:3000';
+}
+
 export async function sendPasswordResetEmail(params: { to: string; name: string; resetUrl: string }) {
-  const { to, name, resetUrl } = params;
-  const subject = 'Reset your password';
-  const text = `Hi ${name},\n\nClick the link below to reset your password:\n${resetUrl}\n\nIf you did not request this, you can ignore this email.`;
-  const html = `
-    <p>Hi ${name},</p>
-    <p>Click the button below to reset your password:</p>
-    <p><a href="${resetUrl}" style="display:inline-block;padding:10px 16px;background:#111;color:#fff;text-decoration:none;border-radius:6px;">Reset Password</a></p>
-    <p>Or copy and paste this link into your browser:</p>
-    <p><a href="${resetUrl}">${resetUrl}</a></p>
-    <p>If you did not request this, you can ignore this email.</p>
-  `;
-  return sendMail({ to, subject, text, html });
+  const { to, ...content } = params;
+  return sendMail({ to, ...passwordResetEmail(content) });
+}
+
+export async function sendAccountExportEmail(params: { to: string; name: string; filename: string; archive: string }) {
+  const { to, name, filename, archive } = params;
+  return sendMail({
+    to,
+    ...accountExportEmail({ name, filename }),
+    attachments: [{ filename, content: archive, contentType: 'application/json' }],
+  });
+}
+
+export async function sendTradeAlertEmail(params: { to: string; name: string; alert: Pick<IAlert, 'coin' | 'side' | 'message'> }) {
+  const { to, name, alert } = params;
+  return sendMail({ to, ...tradeAlertEmail({ name, alert, alertsUrl: `${webBaseUrl()}/alerts` }) });
+}
+
+export async function sendDigestEmail(params: { to: string; name: string; digest: TradeDigest; unsubscribeUrl: string }) {
+  const { to, name, digest, unsubscribeUrl } = params;
+  return sendMail({ to, ...digestEmail({ name, digest, journalUrl: webBaseUrl(), unsubscribeUrl }) });
 }
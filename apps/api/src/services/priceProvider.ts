@@ -0,0 +1,102 @@
+import type { FastifyBaseLogger } from 'fastify';
+import type { ITrade } from '../models/Trade';
+
+export type MarkPriceSourceId = 'asterdex' | 'manual';
+
+export interface MarkPriceQuote {
+  price: number;
+  source: MarkPriceSourceId;
+}
+
+/** A market data feed that returns mark prices for all of its symbols in one call. */
+export interface MarketPriceSource {
+  readonly id: Exclude<MarkPriceSourceId, 'manual'>;
+  fetchMarkPrices(): Promise<Map<string, number>>;
+}
+
+export interface PriceProviderOptions {
+  cacheTtlMs: number;
+}
+
+interface CachedPrices {
+  fetchedAt: number;
+  prices: Map<string, number>;
+}
+
+// Quote assets tried when a trade's coin is a bare base asset such as `BTC`
+const QUOTE_ASSETS = ['USDT', 'USDC', 'USD'];
+
+/**
+ * Resolves mark prices for active trades. Market sources are asked in order and cached for
+ * `cacheTtlMs`; a trade's manual price override is used when no source lists its market.
+ */
+export class PriceProvider {
+  private readonly cache = new Map<string, CachedPrices>();
+  private readonly pending = new Map<string, Promise<Map<string, number>>>();
+
+  constructor(
+    private readonly sources: MarketPriceSource[],
+    private readonly options: PriceProviderOptions,
+    private readonly logger: FastifyBaseLogger,
+  ) {}
+
+  /** Returns a quote per active trade id; trades without any price are left out. */
+  async quoteTrades(trades: ITrade[]): Promise<Map<string, MarkPriceQuote>> {
+    const quotes = new Map<string, MarkPriceQuote>();
+    const active = trades.filter((t) => t.status === 'active');
+    if (active.length === 0) return quotes;
+
+    const sourcePrices = await Promise.all(this.sources.map((source) => this.pricesFor(source)));
+
+    for (const trade of active) {
+      const candidates = marketSymbols(trade.coin);
+      let quote: MarkPriceQuote | undefined;
+      for (let i = 0; i < this.sources.length && !quote; i++) {
+        const symbol = candidates.find((s) => sourcePrices[i].has(s));
+        if (symbol) quote = { price: sourcePrices[i].get(symbol)!, source: this.sources[i].id };
+      }
+      if (!quote && trade.manualMarkPrice != null && trade.manualMarkPrice > 0) {
+        quote = { price: trade.manualMarkPrice, source: 'manual' };
+      }
+      if (quote) quotes.set(trade._id.toString(), quote);
+    }
+    return quotes;
+  }
+
+  private async pricesFor(source: MarketPriceSource): Promise<Map<string, number>> {
+    const cached = this.cache.get(source.id);
+    if (cached && Date.now() - cached.fetchedAt < this.options.cacheTtlMs) return cached.prices;
+
+    // Concurrent requests share one upstream call
+    let pending = this.pending.get(source.id);
+    if (!pending) {
+      pending = source
+        .fetchMarkPrices()
+        .then((prices) => {
+          this.cache.set(source.id, { fetchedAt: Date.now(), prices });
+          return prices;
+        })
+        .catch((err) => {
+          this.logger.warn({ err, source: source.id }, 'Failed to fetch mark prices');
+          return new Map<string, number>();
+        })
+        .finally(() => {
+          this.pending.delete(source.id);
+        });
+      this.pending.set(source.id, pending);
+    }
+    return pending;
+  }
+}
+
+function marketSymbols(coin: string): string[] {
+  const base = coin.trim().toUpperCase().replace(/[-_/]/g, '');
+  if (QUOTE_ASSETS.some((quote) => base.endsWith(quote) && base.length > quote.length)) return [base];
+  return QUOTE_ASSETS.map((quote) => `${base}${quote}`);
+}
+
+declare module 'fastify' {
+  interface FastifyInstance {
+    priceProvider?: PriceProvider;
+  }
+}
@@ -0,0 +1,329 @@
+import type { ITrade, TradeSide } from '../models/Trade';
+import { computeRiskMetrics, computeTradeAggregates } from './tradeMetrics';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+// Upper bounds (inclusive) of the leverage buckets; anything above the last is `>50x`
+const LEVERAGE_BUCKETS = [1, 3, 5, 10, 20, 50];
+// Edges of the R-multiple distribution; below the first is `<= -2R`, from the last up is `>= 3R`
+const R_BUCKET_EDGES = [-2, -1, 0, 1, 2, 3];
+
+export interface AnalyticsOptions {
+  /** Account size used to turn daily PnL into returns for Sharpe/Sortino; total margin when omitted. */
+  capitalUsd?: number;
+  /** Catalog names by id for the tag and strategy breakdowns; ids are shown when a name is missing. */
+  tagNames?: Map<string, string>;
+  strategyNames?: Map<string, string>;
+}
+
+/** Outcome of one closed trade, the unit every statistic below is computed from. */
+interface TradeResult {
+  coin: string;
+  side: TradeSide;
+  pnlUsd: number;
+  // Net PnL in units of initial risk; null when the trade had no planned stop
+  rMultiple: number | null;
+  leverage: number;
+  openedAt: Date;
+  closedAt: Date;
+  tagIds: string[];
+  strategyId: string | null;
+}
+
+export interface PerformanceStats {
+  trades: number;
+  wins: number;
+  losses: number;
+  winRate: number | null;
+  netPnlUsd: number;
+  grossProfitUsd: number;
+  grossLossUsd: number;
+  profitFactor: number | null;
+  expectancyUsd: number | null;
+  averageWinUsd: number | null;
+  averageLossUsd: number | null;
+  winLossRatio: number | null;
+  largestWinUsd: number | null;
+  largestLossUsd: number | null;
+  // R statistics cover only trades with a planned stop, counted in `rTrades`
+  rTrades: number;
+  averageR: number | null;
+  averageWinR: number | null;
+  averageLossR: number | null;
+  expectancyR: number | null;
+}
+
+export type PerformanceBreakdown = Array<PerformanceStats & { key: string }>;
+
+// Catalog breakdowns key rows by id and add the display name
+export type LabelledBreakdown = Array<PerformanceStats & { key: string; label: string }>;
+
+// Breakdown key for trades without a strategy or without tags
+const NONE_KEY = 'none';
+
+function toResult(trade: ITrade): TradeResult | null {
+  const firstEntry = trade.entries[0];
+  const lastClose = trade.closes[trade.closes.length - 1];
+  if (!firstEntry || !lastClose) return null;
+  const aggregates = computeTradeAggregates(trade);
+  return {
+    coin: trade.coin,
+    side: trade.side,
+    pnlUsd: aggregates.netRealizedPnlUsd,
+    rMultiple: computeRiskMetrics(trade, aggregates).rMultiple,
+    leverage: aggregates.effectiveLeverage ?? 1,
+    openedAt: new Date(firstEntry.entryDate),
+    closedAt: new Date(lastClose.closeDate),
+    tagIds: (trade.tagIds ?? []).map((id) => id.toString()),
+    strategyId: trade.strategyId?.toString() ?? null,
+  };
+}
+
+function performanceStats(results: TradeResult[]): PerformanceStats {
+  const wins = results.filter((r) => r.pnlUsd > 0);
+  const losses = results.filter((r) => r.pnlUsd < 0);
+  const grossProfitUsd = wins.reduce((sum, r) => sum + r.pnlUsd, 0);
+  const grossLossUsd = losses.reduce((sum, r) => sum - r.pnlUsd, 0);
+  const netPnlUsd = grossProfitUsd - grossLossUsd;
+  const averageWinUsd = wins.length > 0 ? grossProfitUsd / wins.length : null;
+  const averageLossUsd = losses.length > 0 ? grossLossUsd / losses.length : null;
+
+  const rValues = results.map((r) => r.rMultiple).filter((r): r is number => r != null);
+  const winR = rValues.filter((r) => r > 0);
+  const lossR = rValues.filter((r) => r < 0);
+  const averageWinR = winR.length > 0 ? winR.reduce((sum, r) => sum + r, 0) / winR.length : null;
+  const averageLossR = lossR.length > 0 ? -lossR.reduce((sum, r) => sum + r, 0) / lossR.length : null;
+
+  return {
+    trades: results.length,
+    wins: wins.length,
+    losses: losses.length,
+    winRate: results.length > 0 ? (wins.length / results.length) * 100 : null,
+    netPnlUsd,
+    grossProfitUsd,
+    grossLossUsd,
+    profitFactor: grossLossUsd > 0 ? grossProfitUsd / grossLossUsd : null,
+    expectancyUsd: results.length > 0 ? netPnlUsd / results.length : null,
+    averageWinUsd,
+    averageLossUsd,
+    winLossRatio: averageWinUsd != null && averageLossUsd != null ? averageWinUsd / averageLossUsd : null,
+    largestWinUsd: wins.length > 0 ? Math.max(...wins.map((r) => r.pnlUsd)) : null,
+    largestLossUsd: losses.length > 0 ? Math.min(...losses.map((r) => r.pnlUsd)) : null,
+    rTrades: rValues.length,
+    averageR: rValues.length > 0 ? rValues.reduce((sum, r) => sum + r, 0) / rValues.length : null,
+    averageWinR,
+    averageLossR,
+    // Win rate times average win minus loss rate times average loss, both in R
+    expectancyR:
+      rValues.length > 0
+        ? (winR.length / rValues.length) * (averageWinR ?? 0) - (lossR.length / rValues.length) * (averageLossR ?? 0)
+        : null,
+  };
+}
+
+/** Longest and current run of consecutive wins/losses, in close order; breakeven trades end a run. */
+function streaks(results: TradeResult[]) {
+  let longestWinStreak = 0;
+  let longestLossStreak = 0;
+  let current = 0; // >0 winning run, <0 losing run
+  for (const r of [...results].sort((a, b) => a.closedAt.getTime() - b.closedAt.getTime())) {
+    if (r.pnlUsd > 0) current = current > 0 ? current + 1 : 1;
+    else if (r.pnlUsd < 0) current = current < 0 ? current - 1 : -1;
+    else current = 0;
+    longestWinStreak = Math.max(longestWinStreak, current);
+    longestLossStreak = Math.max(longestLossStreak, -current);
+  }
+  return {
+    longestWinStreak,
+    longestLossStreak,
+    currentStreak: current === 0 ? null : { type: current > 0 ? 'win' : 'loss', length: Math.abs(current) },
+  };
+}
+
+/**
+ * Annualized Sharpe and Sortino ratios of daily returns. Daily PnL comes from every close, fee
+ * and funding event and is divided by `capitalUsd`; days without activity count as zero return.
+ */
+function riskAdjustedReturns(trades: ITrade[], capitalUsd: number) {
+  const daily = new Map<number, number>();
+  const add = (time: Date, amount: number) => {
+    const day = Math.floor(new Date(time).getTime() / DAY_MS);
+    daily.set(day, (daily.get(day) ?? 0) + amount);
+  };
+  for (const t of trades) {
+    for (const e of t.entries) if (e.feeUsd) add(e.entryDate, -e.feeUsd);
+    for (const c of t.closes) add(c.closeDate, c.pnlUsd - (c.feeUsd ?? 0));
+    for (const f of t.fundingPayments ?? []) add(f.paidAt, f.amountUsd);
+  }
+  if (daily.size === 0 || !(capitalUsd > 0)) return { sharpeRatio: null, sortinoRatio: null, tradingDays: daily.size };
+
+  const days = [...daily.keys()];
+  const first = Math.min(...days);
+  const last = Math.max(...days);
+  const returns: number[] = [];
+  for (let day = first; day <= last; day++) returns.push((daily.get(day) ?? 0) / capitalUsd);
+  if (returns.length < 2) return { sharpeRatio: null, sortinoRatio: null, tradingDays: daily.size };
+
+  const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  const variance = returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (returns.length - 1);
+  const downside = returns.reduce((sum, r) => sum + Math.min(r, 0) ** 2, 0) / returns.length;
+  // Crypto trades every day of the year
+  const annualization = Math.sqrt(365);
+
+  return {
+    sharpeRatio: variance > 0 ? (mean / Math.sqrt(variance)) * annualization : null,
+    sortinoRatio: downside > 0 ? (mean / Math.sqrt(downside)) * annualization : null,
+    tradingDays: daily.size,
+  };
+}
+
+function breakdown(results: TradeResult[], keyOf: (r: TradeResult) => string, order?: readonly string[]): PerformanceBreakdown {
+  const groups = new Map<string, TradeResult[]>();
+  for (const r of results) {
+    const key = keyOf(r);
+    groups.set(key, [...(groups.get(key) ?? []), r]);
+  }
+  const rows = [...groups.entries()].map(([key, group]) => ({ key, ...performanceStats(group) }));
+  return order
+    ? rows.sort((a, b) => order.indexOf(a.key) - order.indexOf(b.key))
+    : rows.sort((a, b) => b.netPnlUsd - a.netPnlUsd);
+}
+
+/**
+ * Breakdown over catalog items. A trade with several tags counts toward each of them, so tag rows
+ * can add up to more trades than the total; untagged trades form their own row.
+ */
+function catalogBreakdown(
+  results: TradeResult[],
+  keysOf: (r: TradeResult) => string[],
+  names: Map<string, string> | undefined,
+  noneLabel: string,
+): LabelledBreakdown {
+  const groups = new Map<string, TradeResult[]>();
+  for (const r of results) {
+    const keys = keysOf(r);
+    for (const key of keys.length > 0 ? keys : [NONE_KEY]) groups.set(key, [...(groups.get(key) ?? []), r]);
+  }
+  return [...groups.entries()]
+    .map(([key, group]) => ({ key, label: key === NONE_KEY ? noneLabel : names?.get(key) ?? key, ...performanceStats(group) }))
+    .sort((a, b) => b.netPnlUsd - a.netPnlUsd);
+}
+
+function leverageBucket(leverage: number): string {
+  let lower = 0;
+  for (const upper of LEVERAGE_BUCKETS) {
+    if (leverage <= upper + 1e-9) return upper === 1 ? '1x' : `${lower}-${upper}x`;
+    lower = upper;
+  }
+  return `>${lower}x`;
+}
+
+function rBucket(r: number): string {
+  if (r <= R_BUCKET_EDGES[0]) return `<= ${R_BUCKET_EDGES[0]}R`;
+  for (let i = 1; i < R_BUCKET_EDGES.length; i++) {
+    if (r < R_BUCKET_EDGES[i]) return `${R_BUCKET_EDGES[i - 1]}R to ${R_BUCKET_EDGES[i]}R`;
+  }
+  return `>= ${R_BUCKET_EDGES[R_BUCKET_EDGES.length - 1]}R`;
+}
+
+/** Trade counts per R bucket, every bucket listed in order; trades without a planned stop are left out. */
+function rDistribution(results: TradeResult[]) {
+  const buckets = [
+    `<= ${R_BUCKET_EDGES[0]}R`,
+    ...R_BUCKET_EDGES.slice(1).map((edge, i) => `${R_BUCKET_EDGES[i]}R to ${edge}R`),
+    `>= ${R_BUCKET_EDGES[R_BUCKET_EDGES.length - 1]}R`,
+  ];
+  const counts = new Map(buckets.map((bucket) => [bucket, 0]));
+  for (const r of results) {
+    if (r.rMultiple == null) continue;
+    const bucket = rBucket(r.rMultiple);
+    counts.set(bucket, (counts.get(bucket) ?? 0) + 1);
+  }
+  return buckets.map((bucket) => ({ bucket, trades: counts.get(bucket) ?? 0 }));
+}
+
+const LEVERAGE_BUCKET_ORDER = LEVERAGE_BUCKETS.map((upper) => leverageBucket(upper)).concat(
+  `>${LEVERAGE_BUCKETS[LEVERAGE_BUCKETS.length - 1]}x`,
+);
+
+/** Performance analytics over closed trades; weekday and hour buckets use UTC entry times. */
+export function computeTradeAnalytics(trades: ITrade[], options: AnalyticsOptions = {}) {
+  const closed = trades.filter((t) => t.status === 'closed');
+  const results = closed.map(toResult).filter((r): r is TradeResult => r != null);
+
+  const holdingMs = results.map((r) => r.closedAt.getTime() - r.openedAt.getTime());
+  const averageHoldingTimeMs = holdingMs.length > 0 ? holdingMs.reduce((sum, ms) => sum + ms, 0) / holdingMs.length : null;
+
+  const capitalUsd =
+    options.capitalUsd ?? closed.reduce((sum, t) => sum + computeTradeAggregates(t).totalInitialMarginUsd, 0);
+
+  return {
+    ...performanceStats(results),
+    ...streaks(results),
+    averageHoldingTimeMs,
+    averageHoldingTimeHours: averageHoldingTimeMs != null ? averageHoldingTimeMs / (60 * 60 * 1000) : null,
+    ...riskAdjustedReturns(closed, capitalUsd),
+    capitalUsd,
+    rDistribution: rDistribution(results),
+    breakdowns: {
+      coin: breakdown(results, (r) => r.coin),
+      side: breakdown(results, (r) => r.side, ['long', 'short']),
+      leverage: breakdown(results, (r) => leverageBucket(r.leverage), LEVERAGE_BUCKET_ORDER),
+      weekday: breakdown(results, (r) => WEEKDAYS[r.openedAt.getUTCDay()], WEEKDAYS),
+      entryHour: breakdown(
+        results,
+        (r) => String(r.openedAt.getUTCHours()).padStart(2, '0'),
+        Array.from({ length: 24 }, (_, h) => String(h).padStart(2, '0')),
+      ),
+      strategy: catalogBreakdown(results, (r) => (r.strategyId ? [r.strategyId] : []), options.strategyNames, 'No strategy'),
+      tag: catalogBreakdown(results, (r) => r.tagIds, options.tagNames, 'Untagged'),
+    },
+  };
+}
+
+export type TradeAnalytics = ReturnType<typeof computeTradeAnalytics>;
+
+export interface TradeSummary {
+  totalPnlUsd: number;
+  totalPnlPercent: number | null;
+  totalGrossPnlUsd: number;
+  totalFeesUsd: number;
+  totalFundingUsd: number;
+  totalInvestedUsd: number;
+  totalTrades: number;
+  winRate: number | null;
+}
+
+/** Headline totals over closed trades, as shown on the dashboard and in digest emails. */
+export function computeTradeSummary(closedTrades: ITrade[]): TradeSummary {
+  let totalPnlUsd = 0;
+  let totalGrossPnlUsd = 0;
+  let totalFeesUsd = 0;
+  let totalFundingUsd = 0;
+  let totalInvestedUsd = 0;
+  let winningTrades = 0;
+
+  for (const t of closedTrades) {
+    const m = computeTradeAggregates(t);
+    totalPnlUsd += m.netRealizedPnlUsd;
+    totalGrossPnlUsd += m.realizedPnlUsd;
+    totalFeesUsd += m.totalFeesUsd;
+    totalFundingUsd += m.totalFundingUsd;
+    totalInvestedUsd += m.totalInitialMarginUsd;
+    if (m.netRealizedPnlUsd > 0) {
+      winningTrades++;
+    }
+  }
+
+  const totalTrades = closedTrades.length;
+  return {
+    totalPnlUsd,
+    totalPnlPercent: totalInvestedUsd > 0 ? (totalPnlUsd / totalInvestedUsd) * 100 : null,
+    totalGrossPnlUsd,
+    totalFeesUsd,
+    totalFundingUsd,
+    totalInvestedUsd,
+    totalTrades,
+    winRate: totalTrades > 0 ? (winningTrades / totalTrades) * 100 : null,
+  };
+}
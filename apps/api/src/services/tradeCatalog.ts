@@ -0,0 +1,74 @@
+import { Types, type HydratedDocument } from 'mongoose';
+import { Strategy } from '../models/Strategy';
+import { Tag } from '../models/Tag';
+import { Trade, type ITrade } from '../models/Trade';
+import { recordTradeRevision, tradeSnapshot, type RevisionContext } from './tradeRevisions';
+
+export class CatalogRefError extends Error {}
+
+export interface CatalogRefs {
+  tagIds?: string[];
+  strategyId?: string | null;
+}
+
+/** Throws CatalogRefError unless every referenced tag and strategy belongs to the user. */
+export async function assertCatalogRefs(userId: string, refs: CatalogRefs) {
+  const userObjectId = new Types.ObjectId(userId);
+  const tagIds = [...new Set(refs.tagIds ?? [])];
+  if (tagIds.length > 0) {
+    const owned = await Tag.countDocuments({ _id: { $in: tagIds }, userId: userObjectId });
+    if (owned !== tagIds.length) throw new CatalogRefError('Unknown tag');
+  }
+  if (refs.strategyId) {
+    const owned = await Strategy.exists({ _id: refs.strategyId, userId: userObjectId });
+    if (!owned) throw new CatalogRefError('Unknown strategy');
+  }
+}
+
+/** Drops references to tags or a strategy that no longer exist, e.g. after reverting to an old revision. */
+export async function pruneCatalogRefs(userId: string, trade: HydratedDocument<ITrade>) {
+  const userObjectId = new Types.ObjectId(userId);
+  if (trade.tagIds.length > 0) {
+    const existing = await Tag.find({ _id: { $in: trade.tagIds }, userId: userObjectId }).distinct('_id');
+    trade.tagIds = trade.tagIds.filter((id) => existing.some((e) => e.equals(id)));
+  }
+  if (trade.strategyId && !(await Strategy.exists({ _id: trade.strategyId, userId: userObjectId }))) {
+    trade.strategyId = undefined;
+  }
+}
+
+/** Catalog names by id, for labelling analytics and exports. */
+export async function catalogNames(userId: string) {
+  const userObjectId = new Types.ObjectId(userId);
+  const [tags, strategies] = await Promise.all([
+    Tag.find({ userId: userObjectId }).select('name').lean(),
+    Strategy.find({ userId: userObjectId }).select('name').lean(),
+  ]);
+  return {
+    tags: new Map(tags.map((t) => [t._id.toString(), t.name])),
+    strategies: new Map(strategies.map((s) => [s._id.toString(), s.name])),
+  };
+}
+
+/**
+ * Removes a deleted tag or strategy from every trade that used it, trashed ones included,
+ * recording a revision per trade. Returns how many trades changed.
+ */
+export async function detachCatalogItem(
+  userId: string,
+  item: { tagId: Types.ObjectId } | { strategyId: Types.ObjectId },
+  ctx: RevisionContext,
+): Promise<number> {
+  const userObjectId = new Types.ObjectId(userId);
+  const trades = await Trade.find(
+    'tagId' in item ? { userId: userObjectId, tagIds: item.tagId } : { userId: userObjectId, strategyId: item.strategyId },
+  );
+  for (const trade of trades) {
+    const before = tradeSnapshot(trade);
+    if ('tagId' in item) trade.tagIds = trade.tagIds.filter((id) => !id.equals(item.tagId));
+    else trade.strategyId = undefined;
+    await trade.save({ timestamps: false });
+    await recordTradeRevision(trade, before, ctx);
+  }
+  return trades.length;
+}
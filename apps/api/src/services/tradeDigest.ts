@@ -0,0 +1,217 @@
+import crypto from 'crypto';
+import type { FastifyBaseLogger } from 'fastify';
+import type { HydratedDocument, Types } from 'mongoose';
+import { loadApiEnv } from '@services/config/src/env';
+import { Trade, type ITrade, type TradeSide } from '../models/Trade';
+import { User, type IUser } from '../models/User';
+import { computeEquityCurve } from './equityCurve';
+import { sendDigestEmail } from './mailer';
+import { computeTradeSummary, type TradeSummary } from './tradeAnalytics';
+import { computeTradeAggregates } from './tradeMetrics';
+import { zonedMidnight, zonedParts } from './timeZone';
+
+// Local hour digests go out, once the period they cover has ended
+export const DIGEST_SEND_HOUR = 8;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DIGEST_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+export type DigestPeriodType = 'daily' | 'weekly';
+
+export interface DigestPeriod {
+  type: DigestPeriodType;
+  start: Date;
+  // Exclusive
+  end: Date;
+  sendAt: Date;
+  // Local calendar dates the period covers, e.g. `Oct 13` or `Oct 6 – Oct 12`
+  label: string;
+}
+
+/**
+ * The last complete day (or Monday-to-Sunday week) before `now` in `timeZone`, and when its digest
+ * is due: `DIGEST_SEND_HOUR` local time on the day after it ends.
+ */
+export function digestPeriod(type: DigestPeriodType, now: Date, timeZone: string): DigestPeriod {
+  const today = zonedParts(now, timeZone);
+  const back = type === 'weekly' ? (today.weekday + 6) % 7 : 0;
+  const length = type === 'weekly' ? 7 : 1;
+  const end = zonedMidnight(today.year, today.month, today.day - back, timeZone);
+  const start = zonedMidnight(today.year, today.month, today.day - back - length, timeZone);
+
+  const format = (date: Date) => date.toLocaleDateString('en-US', { timeZone, month: 'short', day: 'numeric' });
+  const lastDay = new Date(end.getTime() - 1);
+  return {
+    type,
+    start,
+    end,
+    sendAt: new Date(end.getTime() + DIGEST_SEND_HOUR * HOUR_MS),
+    label: type === 'weekly' ? `${format(start)} – ${format(lastDay)}` : format(start),
+  };
+}
+
+export interface DigestTrade {
+  id: string;
+  coin: string;
+  side: TradeSide;
+  pnlUsd: number;
+}
+
+export interface TradeDigest {
+  period: DigestPeriod;
+  // Net realized PnL booked during the period, partial closes of active trades included
+  realizedPnlUsd: number;
+  tradesOpened: number;
+  tradesClosed: number;
+  bestTrade: DigestTrade | null;
+  // Null when fewer than two trades closed
+  worstTrade: DigestTrade | null;
+  openExposure: {
+    trades: number;
+    notionalUsd: number;
+    marginUsd: number;
+  };
+  // All-time totals over closed trades, the same figures as `/trades/summary`
+  summary: TradeSummary;
+}
+
+function firstEntryDate(trade: ITrade) {
+  const dates = trade.entries.map((e) => new Date(e.entryDate).getTime());
+  return dates.length > 0 ? Math.min(...dates) : null;
+}
+
+function lastCloseDate(trade: ITrade) {
+  const dates = trade.closes.map((c) => new Date(c.closeDate).getTime());
+  return dates.length > 0 ? Math.max(...dates) : null;
+}
+
+export async function buildDigest(userId: Types.ObjectId | string, period: DigestPeriod): Promise<TradeDigest> {
+  const trades = await Trade.find({ userId, deletedAt: null }).lean<ITrade[]>();
+  const inPeriod = (time: number | null) => time != null && time >= period.start.getTime() && time < period.end.getTime();
+
+  const closed = trades.filter((t) => t.status === 'closed');
+  const closedInPeriod: DigestTrade[] = closed
+    .filter((t) => inPeriod(lastCloseDate(t)))
+    .map((t) => ({ id: t._id.toString(), coin: t.coin, side: t.side, pnlUsd: computeTradeAggregates(t).netRealizedPnlUsd }))
+    .sort((a, b) => b.pnlUsd - a.pnlUsd);
+
+  const openExposure = { trades: 0, notionalUsd: 0, marginUsd: 0 };
+  for (const trade of trades.filter((t) => t.status === 'active')) {
+    const { openNotionalUsd, openMarginUsd } = computeTradeAggregates(trade);
+    if (openNotionalUsd == null) continue;
+    openExposure.trades++;
+    openExposure.notionalUsd += openNotionalUsd;
+    openExposure.marginUsd += openMarginUsd ?? 0;
+  }
+
+  const realized = computeEquityCurve(trades, {
+    interval: 'day',
+    from: period.start,
+    to: new Date(period.end.getTime() - 1),
+  });
+
+  return {
+    period,
+    realizedPnlUsd: realized.totalPnlUsd,
+    tradesOpened: trades.filter((t) => inPeriod(firstEntryDate(t))).length,
+    tradesClosed: closedInPeriod.length,
+    bestTrade: closedInPeriod[0] ?? null,
+    worstTrade: closedInPeriod.length > 1 ? closedInPeriod[closedInPeriod.length - 1] : null,
+    openExposure,
+    summary: computeTradeSummary(closed),
+  };
+}
+
+/** A quiet period with nothing open is not worth an email. */
+export function digestHasActivity(digest: TradeDigest) {
+  return (
+    digest.tradesOpened > 0 || digest.tradesClosed > 0 || digest.realizedPnlUsd !== 0 || digest.openExposure.trades > 0
+  );
+}
+
+export function createUnsubscribeToken() {
+  return crypto.randomBytes(24).toString('hex');
+}
+
+export function digestUnsubscribeUrl(token: string) {
+  const base = loadApiEnv().WEB_BASE_URL || 'http://localhost:3000';
+  return `${base}/unsubscribe?token=${encodeURIComponent(token)}`;
+}
+
+type DigestUser = HydratedDocument<IUser>;
+
+/**
+ * Periodically emails each opted-in user the digest of their last complete day or week once it
+ * is due in their time zone. A failed send is retried on the next check; a sent period is
+ * remembered in `digestLastSentAt` so it goes out once.
+ */
+export class DigestJob {
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(private readonly logger: FastifyBaseLogger) {}
+
+  start() {
+    if (this.timer) return;
+    void this.runSend();
+    this.timer = setInterval(() => {
+      void this.runSend();
+    }, DIGEST_CHECK_INTERVAL_MS);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /** Returns how many digests were emailed. */
+  async sendDueOnce(now = new Date()): Promise<number> {
+    const users = await User.find({ digestFrequency: { $in: ['daily', 'weekly'] } });
+    let sent = 0;
+    for (const user of users) {
+      try {
+        if (await this.sendIfDue(user, now)) sent++;
+      } catch (err) {
+        this.logger.warn({ err, userId: user._id.toString() }, 'Failed to send PnL digest');
+      }
+    }
+    return sent;
+  }
+
+  private async sendIfDue(user: DigestUser, now: Date) {
+    if (user.digestFrequency === 'off') return false;
+    const period = digestPeriod(user.digestFrequency, now, user.timezone || 'UTC');
+    if (now < period.sendAt || (user.digestLastSentAt && user.digestLastSentAt >= period.end)) return false;
+
+    const digest = await buildDigest(user._id, period);
+    let emailed = false;
+    if (digestHasActivity(digest)) {
+      user.digestUnsubscribeToken ??= createUnsubscribeToken();
+      await sendDigestEmail({
+        to: user.email,
+        name: user.name,
+        digest,
+        unsubscribeUrl: digestUnsubscribeUrl(user.digestUnsubscribeToken),
+      });
+      emailed = true;
+    }
+    user.digestLastSentAt = now;
+    await user.save();
+    return emailed;
+  }
+
+  private async runSend() {
+    if (this.running) return;
+    this.running = true;
+    try {
+      const sent = await this.sendDueOnce();
+      if (sent > 0) this.logger.info({ sent }, 'Sent PnL digests');
+    } catch (err) {
+      this.logger.error({ err }, 'PnL digest run failed');
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,163 @@
+import type { ITrade } from '../models/Trade';
+import { toCsv, type CsvValue } from './csv';
+import { computeExitPlan, computeRiskMetrics, computeTradeAggregates, type TradeAggregates } from './tradeMetrics';
+
+export const EXPORT_DATASETS = ['trades', 'entries', 'closes'] as const;
+export type ExportDataset = (typeof EXPORT_DATASETS)[number];
+
+const METRIC_COLUMNS: Array<keyof TradeAggregates> = [
+  'totalInitialMarginUsd',
+  'totalEntryCoin',
+  'openCoin',
+  'avgEntryPrice',
+  'effectiveLeverage',
+  'openNotionalUsd',
+  'openMarginUsd',
+  'debtUsd',
+  'realizedPnlUsd',
+  'realizedPnlPercent',
+  'totalFeesUsd',
+  'totalFundingUsd',
+  'netRealizedPnlUsd',
+  'netRealizedPnlPercent',
+  'liquidationPrice',
+];
+
+const TRADE_COLUMNS = [
+  'tradeId',
+  'coin',
+  'side',
+  'status',
+  'source',
+  'exchange',
+  'comment',
+  'stopLossPrice',
+  'takeProfitPrice',
+  'takeProfitLevels',
+  'plannedExitPrice',
+  'realizedExitPrice',
+  'initialStopLossPrice',
+  'initialRiskUsd',
+  'rMultiple',
+  'firstEntryDate',
+  'lastCloseDate',
+  'entries',
+  'closes',
+  ...METRIC_COLUMNS,
+  'createdAt',
+  'updatedAt',
+];
+
+const ENTRY_COLUMNS = [
+  'tradeId',
+  'coin',
+  'side',
+  'entryIndex',
+  'entryId',
+  'entryDate',
+  'entryPrice',
+  'amountInvestedUsd',
+  'leverage',
+  'feeUsd',
+  'exchangeOrderId',
+];
+
+const CLOSE_COLUMNS = [
+  'tradeId',
+  'coin',
+  'side',
+  'closeIndex',
+  'closeId',
+  'closeDate',
+  'closePrice',
+  'closeCoinAmount',
+  'closeUsdAmount',
+  'pnlUsd',
+  'pnlPercent',
+  'rMultiple',
+  'feeUsd',
+  'exchangeOrderId',
+];
+
+function tradeRow(trade: ITrade): CsvValue[] {
+  const metrics = computeTradeAggregates(trade);
+  const risk = computeRiskMetrics(trade, metrics);
+  const exitPlan = computeExitPlan(trade, metrics);
+  const entryDates = trade.entries.map((e) => new Date(e.entryDate).getTime());
+  const closeDates = trade.closes.map((c) => new Date(c.closeDate).getTime());
+  return [
+    trade._id.toString(),
+    trade.coin,
+    trade.side,
+    trade.status,
+    trade.source ?? 'manual',
+    trade.exchange,
+    trade.comment,
+    trade.stopLossPrice,
+    trade.takeProfitPrice,
+    // One cell for the ladder, e.g. `110@50%; 120@50%`
+    (trade.takeProfitLevels ?? []).map((l) => `${l.price}@${l.percent}%`).join('; '),
+    exitPlan.plannedExitPrice,
+    exitPlan.realizedExitPrice,
+    risk.initialStopLossPrice,
+    risk.initialRiskUsd,
+    risk.rMultiple,
+    entryDates.length > 0 ? new Date(Math.min(...entryDates)) : null,
+    closeDates.length > 0 ? new Date(Math.max(...closeDates)) : null,
+    trade.entries.length,
+    trade.closes.length,
+    ...METRIC_COLUMNS.map((key) => metrics[key]),
+    trade.createdAt,
+    trade.updatedAt,
+  ];
+}
+
+/** One CSV per dataset: trades with their metrics, or every entry/close keyed by `tradeId`. */
+export function exportTradesCsv(trades: ITrade[], dataset: ExportDataset): string {
+  switch (dataset) {
+    case 'trades':
+      return toCsv(TRADE_COLUMNS, trades.map(tradeRow));
+    case 'entries':
+      return toCsv(
+        ENTRY_COLUMNS,
+        trades.flatMap((t) =>
+          t.entries.map((e, i) => [
+            t._id.toString(),
+            t.coin,
+            t.side,
+            i + 1,
+            e._id?.toString(),
+            e.entryDate,
+            e.entryPrice,
+            e.amountInvestedUsd,
+            e.leverage,
+            e.feeUsd,
+            e.exchangeOrderId,
+          ]),
+        ),
+      );
+    case 'closes':
+      return toCsv(
+        CLOSE_COLUMNS,
+        trades.flatMap((t) => {
+          const { closeRMultiples } = computeRiskMetrics(t, computeTradeAggregates(t));
+          return t.closes.map((c, i) => [
+            t._id.toString(),
+            t.coin,
+            t.side,
+            i + 1,
+            c._id?.toString(),
+            c.closeDate,
+            c.closePrice,
+            c.closeCoinAmount,
+            c.closeUsdAmount,
+            c.pnlUsd,
+            c.pnlPercent,
+            closeRMultiples[i],
+            c.feeUsd,
+            c.exchangeOrderId,
+          ]);
+        }),
+      );
+  }
+}
@@ -0,0 +1,114 @@
+import { z } from 'zod';
+import { parseCsv } from './csv';
+
+/** Trade fields a CSV column can be mapped to; names match the create-trade request bodies. */
+export const IMPORT_FIELDS = [
+  'coin',
+  'side',
+  'entryPrice',
+  'amountInvestedUsd',
+  'leverage',
+  'entryDate',
+  'exitPrice',
+  'exitDate',
+  'stopLossPrice',
+  'takeProfitPrice',
+  'entryFeeUsd',
+  'exitFeeUsd',
+  'comment',
+] as const;
+
+export type ImportField = (typeof IMPORT_FIELDS)[number];
+
+const NUMERIC_FIELDS = new Set<ImportField>([
+  'entryPrice',
+  'amountInvestedUsd',
+  'leverage',
+  'exitPrice',
+  'stopLossPrice',
+  'takeProfitPrice',
+  'entryFeeUsd',
+  'exitFeeUsd',
+]);
+
+const SIDE_ALIASES: Record<string, 'long' | 'short'> = {
+  long: 'long',
+  buy: 'long',
+  l: 'long',
+  short: 'short',
+  sell: 'short',
+  s: 'short',
+};
+
+export const MAX_IMPORT_ROWS = 5000;
+
+const column = z.string().min(1);
+
+/** Maps each trade field to the CSV header it is read from. */
+export const columnMappingSchema = z.object({
+  coin: column,
+  side: column,
+  entryPrice: column,
+  amountInvestedUsd: column,
+  leverage: column.optional(),
+  entryDate: column.optional(),
+  exitPrice: column.optional(),
+  exitDate: column.optional(),
+  stopLossPrice: column.optional(),
+  takeProfitPrice: column.optional(),
+  entryFeeUsd: column.optional(),
+  exitFeeUsd: column.optional(),
+  comment: column.optional(),
+});
+
+export type ColumnMapping = z.infer<typeof columnMappingSchema>;
+
+export interface MappedRow {
+  /** 1-based line number in the file, counting the header as line 1. */
+  line: number;
+  /** Values keyed by trade field, converted to the types the create schemas expect. */
+  input: Record<string, unknown>;
+}
+
+export class CsvImportError extends Error {}
+
+function parseNumber(raw: string): number | string {
+  // Accept `$1,234.50` and `12%`-style spreadsheet formatting
+  const cleaned = raw.replace(/[$,%\s]/g, '');
+  const value = Number(cleaned);
+  return cleaned !== '' && Number.isFinite(value) ? value : raw;
+}
+
+/**
+ * Reads the CSV and returns one mapped row per data line. Unparseable values are passed through
+ * unchanged so the trade schemas report them as field errors.
+ */
+export function mapCsvRows(csv: string, mapping: ColumnMapping, delimiter = ','): MappedRow[] {
+  const [header, ...lines] = parseCsv(csv, delimiter);
+  if (!header) throw new CsvImportError('The file is empty');
+  if (lines.length > MAX_IMPORT_ROWS) throw new CsvImportError(`At most ${MAX_IMPORT_ROWS} rows can be imported at once`);
+
+  const columns = header.map((h) => h.trim());
+  const indexOf = new Map<ImportField, number>();
+  const missing: string[] = [];
+  for (const field of IMPORT_FIELDS) {
+    const column = mapping[field];
+    if (column === undefined) continue;
+    const index = columns.indexOf(column.trim());
+    if (index === -1) missing.push(column);
+    else indexOf.set(field, index);
+  }
+  if (missing.length > 0) throw new CsvImportError(`Columns not found in the file: ${missing.join(', ')}`);
+
+  return lines.map((cells, i) => {
+    const input: Record<string, unknown> = {};
+    for (const [field, index] of indexOf) {
+      const raw = (cells[index] ?? '').trim();
+      if (raw === '') continue;
+      if (NUMERIC_FIELDS.has(field)) input[field] = parseNumber(raw);
+      else if (field === 'side') input[field] = SIDE_ALIASES[raw.toLowerCase()] ?? raw;
+      else input[field] = raw;
+    }
+    return { line: i + 2, input };
+  });
+}
@@ -0,0 +1,138 @@
+import type { ITrade } from '../models/Trade';
+import type { CostBasisMethod } from '../models/User';
+
+// Coin amounts below this are treated as zero (float residue from partial closes)
+const COIN_EPSILON = 1e-8;
+
+export class TradeLegError extends Error {}
+
+type LegTrade = Pick<ITrade, 'side' | 'status' | 'entries' | 'closes'>;
+
+/** The part of one entry (lot) consumed by a close. */
+export interface LotMatch {
+  entryIndex: number;
+  coin: number;
+  entryPrice: number;
+  entryDate: Date;
+  marginUsd: number;
+  // Share of the entry's commission that belongs to the matched coin
+  entryFeeUsd: number;
+}
+
+export interface CloseMatch {
+  closeIndex: number;
+  lots: LotMatch[];
+}
+
+interface OpenLot {
+  entryIndex: number;
+  coin: number;
+  initialCoin: number;
+  entryPrice: number;
+  entryDate: Date;
+  marginUsd: number;
+  feeUsd: number;
+}
+
+/**
+ * Matches every close to the entries it disposes of. Entries and closes are replayed in date
+ * order (entries first on ties): `fifo` consumes the oldest open lot first, `lifo` the newest,
+ * and `average` takes from every open lot in proportion to its remaining size, which books the
+ * close at the position's average entry price. Throws TradeLegError when a close sells more than
+ * the position held at its date. Also returns the coin still open after the last leg.
+ */
+export function matchLots(trade: LegTrade, method: CostBasisMethod): { matches: CloseMatch[]; openCoin: number } {
+  const events = [
+    ...trade.entries.map((entry, index) => ({ time: new Date(entry.entryDate).getTime(), order: 0, index })),
+    ...trade.closes.map((close, index) => ({ time: new Date(close.closeDate).getTime(), order: 1, index })),
+  ].sort((a, b) => a.time - b.time || a.order - b.order);
+
+  const open: OpenLot[] = [];
+  const matches: CloseMatch[] = [];
+  for (const event of events) {
+    if (event.order === 0) {
+      const entry = trade.entries[event.index];
+      const coin = (entry.amountInvestedUsd * (entry.leverage ?? 1)) / entry.entryPrice;
+      open.push({
+        entryIndex: event.index,
+        coin,
+        initialCoin: coin,
+        entryPrice: entry.entryPrice,
+        entryDate: new Date(entry.entryDate),
+        marginUsd: entry.amountInvestedUsd,
+        feeUsd: entry.feeUsd ?? 0,
+      });
+      continue;
+    }
+
+    const close = trade.closes[event.index];
+    const held = open.reduce((sum, lot) => sum + lot.coin, 0);
+    if (close.closeCoinAmount > held + COIN_EPSILON) {
+      throw new TradeLegError(
+        `The close on ${new Date(close.closeDate).toISOString().slice(0, 10)} sells more than the position held at that time`,
+      );
+    }
+
+    const closeCoin = Math.min(close.closeCoinAmount, held);
+    const take = (lot: OpenLot, coin: number): LotMatch => {
+      const share = coin / lot.initialCoin;
+      lot.coin -= coin;
+      return {
+        entryIndex: lot.entryIndex,
+        coin,
+        entryPrice: lot.entryPrice,
+        entryDate: lot.entryDate,
+        marginUsd: lot.marginUsd * share,
+        entryFeeUsd: lot.feeUsd * share,
+      };
+    };
+
+    const lots: LotMatch[] = [];
+    if (method === 'average') {
+      for (const lot of open) {
+        if (lot.coin > 0) lots.push(take(lot, closeCoin * (lot.coin / held)));
+      }
+    } else {
+      let remaining = closeCoin;
+      const queue = method === 'fifo' ? open : [...open].reverse();
+      for (const lot of queue) {
+        if (remaining <= COIN_EPSILON) break;
+        if (lot.coin <= COIN_EPSILON) continue;
+        const coin = Math.min(lot.coin, remaining);
+        lots.push(take(lot, coin));
+        remaining -= coin;
+      }
+    }
+    matches.push({ closeIndex: event.index, lots });
+  }
+
+  const openCoin = open.reduce((sum, lot) => sum + Math.max(lot.coin, 0), 0);
+  return { matches, openCoin };
+}
+
+/**
+ * Recomputes every close against the lots it disposes of under `method` and sets `status` from
+ * what remains open. Closes that came from an exchange (they carry `exchangeOrderId`) still consume
+ * lots but keep the realized PnL the exchange reported. The arrays themselves keep their order so
+ * ids and indexes stay stable. Throws TradeLegError when the legs do not describe a valid position.
+ */
+export function recalculateTrade(trade: LegTrade, method: CostBasisMethod) {
+  if (trade.entries.length === 0) throw new TradeLegError('A trade needs at least one entry');
+
+  const { matches, openCoin } = matchLots(trade, method);
+  for (const { closeIndex, lots } of matches) {
+    const close = trade.closes[closeIndex];
+    if (close.exchangeOrderId) continue;
+    let pnlUsd = 0;
+    let marginUsd = 0;
+    for (const lot of lots) {
+      pnlUsd += trade.side === 'long' ? (close.closePrice - lot.entryPrice) * lot.coin : (lot.entryPrice - close.closePrice) * lot.coin;
+      marginUsd += lot.marginUsd;
+    }
+    close.closeUsdAmount = close.closeCoinAmount * close.closePrice;
+    close.pnlUsd = pnlUsd;
+    close.pnlPercent = marginUsd > 0 ? (pnlUsd / marginUsd) * 100 : 0;
+  }
+
+  trade.status = trade.closes.length > 0 && openCoin <= COIN_EPSILON ? 'closed' : 'active';
+}
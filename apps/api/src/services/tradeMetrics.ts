@@ -0,0 +1,207 @@
+import type { ITrade, ITradeStats } from '../models/Trade';
+
+export type TradeAggregates = ReturnType<typeof computeTradeAggregates>;
+export type UnrealizedMetrics = ReturnType<typeof computeUnrealizedMetrics>;
+
+// Aggregates only read the side and legs, so unsaved field sets can be measured too
+export type TradeAggregateInput = Pick<ITrade, 'side' | 'entries' | 'closes'> & Partial<Pick<ITrade, 'fundingPayments'>>;
+
+export function computeTradeAggregates(trade: TradeAggregateInput) {
+  const entries = trade.entries || [];
+  const closes = trade.closes || [];
+
+  let totalInitialMarginUsd = 0;
+  let totalEntryCoin = 0;
+  let totalEntryNotionalUsd = 0;
+
+  for (const e of entries) {
+    const leverage = e.leverage ?? 1;
+    const margin = e.amountInvestedUsd;
+    const notional = margin * leverage;
+    const coin = notional / e.entryPrice;
+    totalInitialMarginUsd += margin;
+    totalEntryNotionalUsd += notional;
+    totalEntryCoin += coin;
+  }
+
+  let totalClosedCoin = 0;
+  let realizedPnlUsd = 0;
+  let totalFeesUsd = 0;
+  for (const e of entries) {
+    totalFeesUsd += e.feeUsd ?? 0;
+  }
+  for (const c of closes) {
+    totalClosedCoin += c.closeCoinAmount;
+    realizedPnlUsd += c.pnlUsd;
+    totalFeesUsd += c.feeUsd ?? 0;
+  }
+
+  let totalFundingUsd = 0;
+  for (const f of trade.fundingPayments || []) {
+    totalFundingUsd += f.amountUsd;
+  }
+
+  // realizedPnlUsd is the gross price difference; net also accounts for commissions and funding
+  const netRealizedPnlUsd = realizedPnlUsd - totalFeesUsd + totalFundingUsd;
+
+  const openCoin = Math.max(totalEntryCoin - totalClosedCoin, 0);
+  const avgEntryPrice = totalEntryCoin > 0 ? totalEntryNotionalUsd / totalEntryCoin : null;
+  const effectiveLeverage = totalInitialMarginUsd > 0 ? totalEntryNotionalUsd / totalInitialMarginUsd : null;
+
+  const openNotionalUsd = openCoin > 0 && avgEntryPrice != null ? openCoin * avgEntryPrice : null;
+  const openMarginUsd = openNotionalUsd != null && effectiveLeverage && effectiveLeverage > 0
+    ? openNotionalUsd / effectiveLeverage
+    : null;
+  const debtUsd = openNotionalUsd != null && openMarginUsd != null ? openNotionalUsd - openMarginUsd : null;
+
+  const realizedPnlPercent = totalInitialMarginUsd > 0 ? (realizedPnlUsd / totalInitialMarginUsd) * 100 : null;
+  const netRealizedPnlPercent = totalInitialMarginUsd > 0 ? (netRealizedPnlUsd / totalInitialMarginUsd) * 100 : null;
+
+  let liquidationPrice: number | null = null;
+  if (effectiveLeverage && effectiveLeverage > 1 && avgEntryPrice != null) {
+    if (trade.side === 'long') {
+      liquidationPrice = avgEntryPrice * (1 - 1 / effectiveLeverage);
+    } else {
+      liquidationPrice = avgEntryPrice * (1 + 1 / effectiveLeverage);
+    }
+  }
+
+  return {
+    totalInitialMarginUsd,
+    totalEntryCoin,
+    openCoin,
+    avgEntryPrice,
+    effectiveLeverage,
+    openNotionalUsd,
+    openMarginUsd,
+    debtUsd,
+    realizedPnlUsd,
+    realizedPnlPercent,
+    totalFeesUsd,
+    totalFundingUsd,
+    netRealizedPnlUsd,
+    netRealizedPnlPercent,
+    liquidationPrice,
+  };
+}
+
+/**
+ * Loss of the entries held when the stop was planned if price reached it. Size added later does
+ * not move 1R, so R-multiples stay measured against the risk taken at entry. Null without a
+ * planned stop or when the stop sits on the profit side of the entries, where no risk can be measured.
+ */
+export function computeInitialRiskUsd(trade: ITrade): number | null {
+  const stop = trade.initialStopLossPrice;
+  if (stop == null) return null;
+  const setAt = trade.initialStopLossSetAt ? new Date(trade.initialStopLossSetAt).getTime() : null;
+  let riskUsd = 0;
+  for (const e of trade.entries || []) {
+    if (setAt != null && new Date(e.entryDate).getTime() > setAt) continue;
+    const coin = (e.amountInvestedUsd * (e.leverage ?? 1)) / e.entryPrice;
+    riskUsd += (trade.side === 'long' ? e.entryPrice - stop : stop - e.entryPrice) * coin;
+  }
+  return riskUsd > 0 ? riskUsd : null;
+}
+
+/**
+ * R-multiples against the planned risk. A close is measured against the share of the risk its
+ * size carried (gross of fees); the trade against the whole risk, net of fees and funding.
+ */
+export function computeRiskMetrics(trade: ITrade, aggregates: TradeAggregates) {
+  const initialRiskUsd = trade.initialRiskUsd ?? null;
+  const hasRisk = initialRiskUsd != null && initialRiskUsd > 0 && aggregates.totalEntryCoin > 0;
+  const closeRMultiples = (trade.closes || []).map((c) =>
+    hasRisk ? c.pnlUsd / (initialRiskUsd * (c.closeCoinAmount / aggregates.totalEntryCoin)) : null,
+  );
+  return {
+    initialStopLossPrice: trade.initialStopLossPrice ?? null,
+    initialRiskUsd,
+    rMultiple: hasRisk && (trade.closes || []).length > 0 ? aggregates.netRealizedPnlUsd / initialRiskUsd : null,
+    closeRMultiples,
+  };
+}
+
+/**
+ * The take-profit ladder against the closes booked so far. Planned and realized exit prices are
+ * weighted by the share of the position each level or close covers; the planned reward assumes
+ * every level fills and leaves out the part of the position no level covers.
+ */
+export function computeExitPlan(trade: ITrade, aggregates: TradeAggregates) {
+  const levels = trade.takeProfitLevels || [];
+  const closes = trade.closes || [];
+  const { avgEntryPrice, totalEntryCoin } = aggregates;
+
+  const plannedExitPercent = levels.reduce((sum, l) => sum + l.percent, 0);
+  const plannedExitPrice =
+    plannedExitPercent > 0 ? levels.reduce((sum, l) => sum + l.price * l.percent, 0) / plannedExitPercent : null;
+  const filledExitPercent = levels.filter((l) => l.filledAt).reduce((sum, l) => sum + l.percent, 0);
+
+  const closedCoin = closes.reduce((sum, c) => sum + c.closeCoinAmount, 0);
+  const realizedExitPrice = closedCoin > 0 ? closes.reduce((sum, c) => sum + c.closePrice * c.closeCoinAmount, 0) / closedCoin : null;
+  const realizedExitPercent = totalEntryCoin > 0 ? Math.min((closedCoin / totalEntryCoin) * 100, 100) : null;
+
+  const plannedRewardUsd =
+    levels.length > 0 && avgEntryPrice != null
+      ? levels.reduce(
+          (sum, l) =>
+            sum + (trade.side === 'long' ? l.price - avgEntryPrice : avgEntryPrice - l.price) * totalEntryCoin * (l.percent / 100),
+          0,
+        )
+      : null;
+  const initialRiskUsd = trade.initialRiskUsd ?? null;
+
+  return {
+    plannedExitPrice,
+    plannedExitPercent,
+    filledExitPercent,
+    realizedExitPrice,
+    realizedExitPercent,
+    plannedRewardUsd,
+    plannedRMultiple: plannedRewardUsd != null && initialRiskUsd != null && initialRiskUsd > 0 ? plannedRewardUsd / initialRiskUsd : null,
+  };
+}
+
+/** Open position valuation at `markPrice`; every field is null when no price is known. */
+export function computeUnrealizedMetrics(trade: ITrade, aggregates: TradeAggregates, markPrice: number | null) {
+  const { openCoin, avgEntryPrice, openMarginUsd, liquidationPrice } = aggregates;
+  const hasOpenPosition = markPrice != null && openCoin > 0 && avgEntryPrice != null;
+
+  const unrealizedPnlUsd = hasOpenPosition
+    ? trade.side === 'long'
+      ? (markPrice - avgEntryPrice) * openCoin
+      : (avgEntryPrice - markPrice) * openCoin
+    : null;
+  const unrealizedPnlPercent =
+    unrealizedPnlUsd != null && openMarginUsd != null && openMarginUsd > 0
+      ? (unrealizedPnlUsd / openMarginUsd) * 100
+      : null;
+
+  // How far price can still move against the position before liquidation, in percent of mark
+  const liquidationDistancePercent =
+    hasOpenPosition && liquidationPrice != null
+      ? trade.side === 'long'
+        ? ((markPrice - liquidationPrice) / markPrice) * 100
+        : ((liquidationPrice - markPrice) / markPrice) * 100
+      : null;
+
+  return {
+    markPrice: hasOpenPosition ? markPrice : null,
+    unrealizedPnlUsd,
+    unrealizedPnlPercent,
+    liquidationDistancePercent,
+  };
+}
+
+/** Values stored on `trade.stats` for database-side filtering and sorting. */
+export function computeTradeStats(trade: ITrade): ITradeStats {
+  const aggregates = computeTradeAggregates(trade);
+  const entryDates = (trade.entries || []).map((e) => new Date(e.entryDate).getTime());
+  const closeDates = (trade.closes || []).map((c) => new Date(c.closeDate).getTime());
+  return {
+    netPnlUsd: aggregates.netRealizedPnlUsd,
+    effectiveLeverage: aggregates.effectiveLeverage,
+    sizeUsd: aggregates.totalInitialMarginUsd * (aggregates.effectiveLeverage ?? 1),
+    firstEntryDate: entryDates.length > 0 ? new Date(Math.min(...entryDates)) : null,
+    lastCloseDate: closeDates.length > 0 ? new Date(Math.max(...closeDates)) : null,
+  };
+}
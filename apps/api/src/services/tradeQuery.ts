@@ -0,0 +1,266 @@
+import { Types, type FilterQuery, type SortOrder } from 'mongoose';
+import { z } from 'zod';
+import type { FastifyBaseLogger } from 'fastify';
+import { Trade, TRADE_SOURCES, type ITrade, type TradeSource } from '../models/Trade';
+import { TradeRevision } from '../models/TradeRevision';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+// Comma-separated query values such as `coin=BTC,ETH`
+const csv = <T extends z.ZodTypeAny>(item: T) =>
+  z
+    .string()
+    .transform((value) => value.split(',').map((v) => v.trim()).filter(Boolean))
+    .pipe(z.array(item));
+
+const objectId = z.string().refine((v) => Types.ObjectId.isValid(v), { message: 'Invalid id' });
+
+/** Filters shared by the trade list, export and other read routes. */
+export const tradeFilterSchema = z.object({
+  status: z.enum(['active', 'closed']).optional(),
+  coin: csv(z.string().transform((v) => v.toUpperCase())).optional(),
+  side: z.enum(['long', 'short']).optional(),
+  source: csv(z.enum(TRADE_SOURCES as [TradeSource, ...TradeSource[]])).optional(),
+  exchange: csv(z.string()).optional(),
+  entryFrom: z.coerce.date().optional(),
+  entryTo: z.coerce.date().optional(),
+  closeFrom: z.coerce.date().optional(),
+  closeTo: z.coerce.date().optional(),
+  pnlMin: z.coerce.number().optional(),
+  pnlMax: z.coerce.number().optional(),
+  leverageMin: z.coerce.number().optional(),
+  leverageMax: z.coerce.number().optional(),
+  // Trades carrying any of the listed tag ids
+  tag: csv(objectId).optional(),
+  // Strategy ids; `none` matches trades without a strategy
+  strategy: csv(z.union([z.literal('none'), objectId])).optional(),
+  // Word search over the trade comment
+  q: z.string().trim().min(1).max(200).optional(),
+});
+
+export type TradeFilter = z.infer<typeof tradeFilterSchema>;
+
+const SORT_FIELDS = {
+  createdAt: 'createdAt',
+  entryDate: 'stats.firstEntryDate',
+  closeDate: 'stats.lastCloseDate',
+  pnl: 'stats.netPnlUsd',
+  size: 'stats.sizeUsd',
+} as const;
+
+export const tradeListQuerySchema = tradeFilterSchema.extend({
+  sort: z.enum(Object.keys(SORT_FIELDS) as [keyof typeof SORT_FIELDS, ...(keyof typeof SORT_FIELDS)[]]).default('createdAt'),
+  order: z.enum(['asc', 'desc']).default('desc'),
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+  cursor: z.string().optional(),
+});
+
+export type TradeListQuery = z.infer<typeof tradeListQuerySchema>;
+
+export class InvalidCursorError extends Error {
+  constructor() {
+    super('Invalid pagination cursor');
+  }
+}
+
+function range(min?: number | Date, max?: number | Date) {
+  const condition: Record<string, number | Date> = {};
+  if (min !== undefined) condition.$gte = min;
+  if (max !== undefined) condition.$lte = max;
+  return Object.keys(condition).length > 0 ? condition : undefined;
+}
+
+export function buildTradeFilter(userId: string, filter: TradeFilter): FilterQuery<ITrade> {
+  const query: FilterQuery<ITrade> = { userId: new Types.ObjectId(userId), deletedAt: null };
+  if (filter.status) query.status = filter.status;
+  if (filter.coin?.length) query.coin = { $in: filter.coin };
+  if (filter.side) query.side = filter.side;
+  if (filter.source?.length) query.source = { $in: filter.source };
+  if (filter.exchange?.length) query.exchange = { $in: filter.exchange };
+  if (filter.tag?.length) query.tagIds = { $in: filter.tag.map((id) => new Types.ObjectId(id)) };
+  if (filter.strategy?.length) {
+    query.strategyId = { $in: filter.strategy.map((id) => (id === 'none' ? null : new Types.ObjectId(id))) };
+  }
+
+  const conditions: Array<[string, ReturnType<typeof range>]> = [
+    ['stats.firstEntryDate', range(filter.entryFrom, filter.entryTo)],
+    ['stats.lastCloseDate', range(filter.closeFrom, filter.closeTo)],
+    ['stats.netPnlUsd', range(filter.pnlMin, filter.pnlMax)],
+    ['stats.effectiveLeverage', range(filter.leverageMin, filter.leverageMax)],
+  ];
+  for (const [path, condition] of conditions) {
+    if (condition) (query as any)[path] = condition;
+  }
+
+  if (filter.q) query.$text = { $search: filter.q };
+  return query;
+}
+
+interface CursorPayload {
+  v: string | number | null;
+  d?: 1; // v is an ISO date
+  id: string;
+}
+
+function encodeCursor(value: unknown, id: Types.ObjectId): string {
+  const payload: CursorPayload =
+    value instanceof Date
+      ? { v: value.toISOString(), d: 1, id: id.toString() }
+      : { v: (value as number | null | undefined) ?? null, id: id.toString() };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+function decodeCursor(cursor: string): { value: Date | number | null; id: Types.ObjectId } {
+  try {
+    const payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')) as CursorPayload;
+    if (!Types.ObjectId.isValid(payload.id)) throw new InvalidCursorError();
+    const value = payload.v == null ? null : payload.d ? new Date(payload.v) : Number(payload.v);
+    if (value instanceof Date && Number.isNaN(value.getTime())) throw new InvalidCursorError();
+    return { value, id: new Types.ObjectId(payload.id) };
+  } catch {
+    throw new InvalidCursorError();
+  }
+}
+
+/**
+ * Keyset condition for the page after `cursor`. Ties are broken by `_id`; missing values (e.g. the
+ * close date of an active trade) sort as lowest, matching MongoDB's ordering of null.
+ */
+function afterCursor(path: string, order: 'asc' | 'desc', cursor: string): FilterQuery<ITrade> {
+  const { value, id } = decodeCursor(cursor);
+  const beyond = order === 'desc' ? '$lt' : '$gt';
+  if (value === null) {
+    return order === 'desc'
+      ? { [path]: null, _id: { $lt: id } }
+      : { $or: [{ [path]: null, _id: { $gt: id } }, { [path]: { $ne: null } }] };
+  }
+  const or: FilterQuery<ITrade>[] = [{ [path]: { [beyond]: value } }, { [path]: value, _id: { [beyond]: id } }];
+  if (order === 'desc') or.push({ [path]: null });
+  return { $or: or };
+}
+
+export interface TradePageQuery {
+  filter: FilterQuery<ITrade>;
+  sort: Record<string, SortOrder>;
+  limit: number;
+  /** Builds the cursor for the next page from the last trade of the current page. */
+  nextCursor(last: ITrade): string;
+}
+
+export function buildTradePageQuery(userId: string, query: TradeListQuery): TradePageQuery {
+  const path = SORT_FIELDS[query.sort];
+  const direction = query.order === 'desc' ? -1 : 1;
+  const filter = buildTradeFilter(userId, query);
+  const paged = query.cursor ? { $and: [filter, afterCursor(path, query.order, query.cursor)] } : filter;
+
+  return {
+    filter: paged,
+    sort: { [path]: direction, _id: direction },
+    limit: query.limit,
+    nextCursor: (last) => {
+      const value = path.split('.').reduce<any>((obj, key) => obj?.[key], last);
+      return encodeCursor(value, last._id);
+    },
+  };
+}
+
+/** Computes `stats` for trades saved before the field existed; runs once per trade. */
+export async function backfillTradeStats(logger: FastifyBaseLogger) {
+  let updated = 0;
+  for await (const trade of Trade.find({ stats: { $exists: false } })) {
+    await trade.save({ timestamps: false });
+    updated++;
+  }
+  if (updated > 0) logger.info({ updated }, 'Backfilled trade list stats');
+}
+
+/**
+ * Replaces the collection-wide comment text index with the per-user one. A collection holds a
+ * single text index, so the new one cannot be built until the old one is dropped.
+ */
+export async function migrateCommentTextIndex(logger: FastifyBaseLogger) {
+  const indexes = await Trade.collection.indexes().catch((err) => {
+    // No trades collection yet; it is created with the current indexes
+    if (err?.codeName === 'NamespaceNotFound') return [];
+    throw err;
+  });
+  if (!indexes.some((index) => index.name === 'comment_text')) return;
+  await Trade.collection.dropIndex('comment_text');
+  await Trade.createIndexes();
+  logger.info('Rebuilt the trade comment text index per user');
+}
+
+/** Gives entries and closes saved before they had ids an `_id`, so legs can be addressed individually. */
+export async function backfillLegIds(logger: FastifyBaseLogger) {
+  const withIds = <T extends { _id?: Types.ObjectId }>(legs: T[]) =>
+    legs.map((leg) => ({ ...leg, _id: leg._id ?? new Types.ObjectId() }));
+  const missing = { $elemMatch: { _id: { $exists: false } } };
+  let updated = 0;
+  for await (const trade of Trade.find({ $or: [{ entries: missing }, { closes: missing }] })
+    .select('entries closes')
+    .lean<Pick<ITrade, '_id' | 'entries' | 'closes'>[]>()
+    .cursor()) {
+    await Trade.updateOne(
+      { _id: trade._id },
+      { $set: { entries: withIds(trade.entries), closes: withIds(trade.closes) } },
+      { timestamps: false },
+    );
+    updated++;
+  }
+  if (updated > 0) logger.info({ updated }, 'Backfilled trade entry and close ids');
+}
+
+/**
+ * Records the planned stop, and when it was set, on trades saved before they were tracked: the
+ * first stop found in the trade's revision history, or the current stop as of the trade's creation
+ * when the history has none.
+ */
+export async function backfillInitialRisk(logger: FastifyBaseLogger) {
+  let updated = 0;
+  for await (const trade of Trade.find({
+    $or: [{ stopLossPrice: { $ne: null } }, { initialStopLossPrice: { $ne: null } }],
+    initialStopLossSetAt: { $exists: false },
+  })) {
+    const first = await TradeRevision.findOne({ tradeId: trade._id, 'after.stopLossPrice': { $ne: null } })
+      .sort({ createdAt: 1 })
+      .select('after.stopLossPrice createdAt')
+      .lean();
+    const planned = (first?.after as { stopLossPrice?: number } | undefined)?.stopLossPrice;
+    trade.initialStopLossPrice ??= planned ?? trade.stopLossPrice;
+    const entryTimes = trade.entries.map((e) => new Date(e.entryDate).getTime());
+    trade.initialStopLossSetAt = first?.createdAt ?? new Date(Math.max(trade.createdAt.getTime(), ...entryTimes));
+    await trade.save({ timestamps: false });
+    updated++;
+  }
+  if (updated > 0) logger.info({ updated }, 'Backfilled planned stops and initial risk');
+}
+
+/**
+ * Rebuilds the stop history of trades saved before it was kept, from the stops recorded in their
+ * revisions; trades without revisions start it at their first entry.
+ */
+export async function backfillStopLossHistory(logger: FastifyBaseLogger) {
+  let updated = 0;
+  for await (const trade of Trade.find({ stopLossPrice: { $ne: null }, 'stopLossHistory.0': { $exists: false } })) {
+    const revisions = await TradeRevision.find({ tradeId: trade._id })
+      .sort({ createdAt: 1 })
+      .select('after.stopLossPrice createdAt')
+      .lean();
+    const history: ITrade['stopLossHistory'] = [];
+    for (const revision of revisions) {
+      const price = (revision.after as { stopLossPrice?: number } | undefined)?.stopLossPrice ?? null;
+      if ((history[history.length - 1]?.price ?? null) !== price) history.push({ price, changedAt: revision.createdAt });
+    }
+    if (history.length === 0) {
+      history.push({ price: trade.stopLossPrice ?? null, changedAt: trade.entries[0]?.entryDate ?? trade.createdAt });
+    } else if (history[history.length - 1].price !== (trade.stopLossPrice ?? null)) {
+      // Moved without a revision (e.g. before revisions were kept); the last update is the best date there is
+      history.push({ price: trade.stopLossPrice ?? null, changedAt: trade.updatedAt ?? trade.createdAt });
+    }
+    trade.stopLossHistory = history;
+    await trade.save({ timestamps: false });
+    updated++;
+  }
+  if (updated > 0) logger.info({ updated }, 'Backfilled stop-loss history');
+}
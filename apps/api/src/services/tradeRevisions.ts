@@ -0,0 +1,120 @@
+import { Types, type HydratedDocument } from 'mongoose';
+import type { ITrade } from '../models/Trade';
+import {
+  TradeRevision,
+  type ITradeFieldChange,
+  type ITradeRevision,
+  type TradeRevisionAction,
+  type TradeSnapshot,
+} from '../models/TradeRevision';
+
+// Fields a revision captures and a revert restores; `deletedAt` is recorded but never reverted
+const SNAPSHOT_FIELDS = [
+  'coin',
+  'side',
+  'status',
+  'comment',
+  'tagIds',
+  'strategyId',
+  'stopLossPrice',
+  'takeProfitPrice',
+  'takeProfitLevels',
+  'initialStopLossPrice',
+  'manualMarkPrice',
+  'entries',
+  'closes',
+  'fundingPayments',
+  'deletedAt',
+] as const;
+
+const REVERTIBLE_FIELDS = SNAPSHOT_FIELDS.filter((field) => field !== 'deletedAt');
+
+export interface RevisionContext {
+  actorId?: string | null;
+  action: TradeRevisionAction;
+  route?: string;
+}
+
+// Saved trade documents or lean objects; only the ids are read directly
+type TradeLike = { _id: Types.ObjectId; userId: Types.ObjectId | string };
+
+export class RevisionNotRevertibleError extends Error {}
+
+export function tradeSnapshot(trade: TradeLike): TradeSnapshot {
+  const source: any = typeof (trade as any).toObject === 'function' ? (trade as any).toObject() : trade;
+  const snapshot: TradeSnapshot = {};
+  for (const field of SNAPSHOT_FIELDS) {
+    if (source[field] !== undefined && source[field] !== null) snapshot[field] = source[field];
+  }
+  // Round-trip through JSON so dates, ObjectIds and subdocuments become plain values
+  return JSON.parse(JSON.stringify(snapshot));
+}
+
+function flatten(value: unknown, prefix: string, out: Map<string, unknown>) {
+  if (Array.isArray(value)) {
+    value.forEach((item, index) => flatten(item, `${prefix}.${index}`, out));
+  } else if (value !== null && typeof value === 'object') {
+    for (const [key, item] of Object.entries(value)) flatten(item, prefix ? `${prefix}.${key}` : key, out);
+  } else if (value !== undefined && value !== null) {
+    out.set(prefix, value);
+  }
+}
+
+/** Leaf-level differences between two snapshots; array items are compared by position. */
+export function diffSnapshots(before: TradeSnapshot | null, after: TradeSnapshot): ITradeFieldChange[] {
+  const a = new Map<string, unknown>();
+  const b = new Map<string, unknown>();
+  flatten(before ?? {}, '', a);
+  flatten(after, '', b);
+
+  const changes: ITradeFieldChange[] = [];
+  for (const path of new Set([...a.keys(), ...b.keys()])) {
+    const previous = a.get(path) ?? null;
+    const next = b.get(path) ?? null;
+    if (previous !== next) changes.push({ path, before: previous, after: next });
+  }
+  return changes;
+}
+
+function buildRevision(trade: TradeLike, before: TradeSnapshot | null, context: RevisionContext) {
+  const after = tradeSnapshot(trade);
+  return {
+    tradeId: trade._id,
+    userId: new Types.ObjectId(trade.userId),
+    actorId: context.actorId ? new Types.ObjectId(context.actorId) : undefined,
+    action: context.action,
+    route: context.route,
+    before,
+    after,
+    changes: diffSnapshots(before, after),
+  };
+}
+
+/**
+ * Stores the change from `before` to the trade's current (saved) state. Returns null without
+ * writing when nothing changed, so callers can record unconditionally after a save.
+ */
+export async function recordTradeRevision(
+  trade: TradeLike,
+  before: TradeSnapshot | null,
+  context: RevisionContext & { revertedRevisionId?: Types.ObjectId },
+) {
+  const revision = buildRevision(trade, before, context);
+  if (before && revision.changes.length === 0) return null;
+  return TradeRevision.create({ ...revision, revertedRevisionId: context.revertedRevisionId });
+}
+
+/** Creation revisions for trades inserted in bulk (imports, restores). */
+export async function recordCreatedTrades(trades: TradeLike[], context: RevisionContext) {
+  if (trades.length === 0) return;
+  await TradeRevision.insertMany(trades.map((trade) => buildRevision(trade, null, context)));
+}
+
+/** Puts the trade back into the state recorded right after `revision`; the caller saves it. */
+export function applyRevision(trade: HydratedDocument<ITrade>, revision: Pick<ITradeRevision, 'after'>) {
+  if (!revision.after) throw new RevisionNotRevertibleError('Revision has no recorded state');
+  for (const field of REVERTIBLE_FIELDS) {
+    const value = revision.after[field];
+    trade.set(field, value ?? (Array.isArray(trade.get(field)) ? [] : undefined));
+  }
+}
@@ -0,0 +1,118 @@
+import { Types } from 'mongoose';
+import type { ITrade, ITradeTakeProfitLevel, TradeSide } from '../models/Trade';
+import { computeTradeAggregates, type TradeAggregateInput } from './tradeMetrics';
+
+export type TargetField = 'stopLossPrice' | 'takeProfitPrice' | 'takeProfitLevels' | 'initialStopLossPrice';
+
+// Messages per field, in the same shape as zod's flattened `fieldErrors`
+export type TargetIssues = Partial<Record<TargetField, string[]>>;
+
+// The fields the checks read; a trade's create-route fields qualify before it is saved
+export type TargetCheckInput = TradeAggregateInput &
+  Pick<ITrade, 'stopLossPrice' | 'initialStopLossPrice' | 'takeProfitPrice'> &
+  Partial<Pick<ITrade, 'takeProfitLevels'>>;
+
+export interface TargetCheck {
+  errors: TargetIssues;
+  warnings: TargetIssues;
+}
+
+function formatPrice(price: number) {
+  return `$${Number(price.toPrecision(8))}`;
+}
+
+/**
+ * Checks the stop loss and take profit against the side and the average entry price: stops belong
+ * on the losing side, targets on the winning side. Once the stop has been moved off the planned
+ * stop it is trailing and may sit anywhere. A stop the position would be liquidated before
+ * reaching is allowed but reported as a warning.
+ */
+export function checkTradeTargets(trade: TargetCheckInput): TargetCheck {
+  const errors: TargetIssues = {};
+  const warnings: TargetIssues = {};
+  const add = (issues: TargetIssues, field: TargetField, message: string) => {
+    (issues[field] ??= []).push(message);
+  };
+
+  const { avgEntryPrice, liquidationPrice } = computeTradeAggregates(trade);
+  const long = trade.side === 'long';
+  const trailing = trade.initialStopLossPrice != null && trade.stopLossPrice !== trade.initialStopLossPrice;
+  const stops: Array<[TargetField, number | undefined]> = [
+    ['stopLossPrice', trailing ? undefined : trade.stopLossPrice],
+    ['initialStopLossPrice', trade.initialStopLossPrice],
+  ];
+
+  if (avgEntryPrice != null) {
+    const entry = formatPrice(avgEntryPrice);
+    for (const [field, stop] of stops) {
+      if (stop != null && (long ? stop >= avgEntryPrice : stop <= avgEntryPrice)) {
+        add(errors, field, `Stop must be ${long ? 'below' : 'above'} the average entry of ${entry} for a ${trade.side}`);
+      }
+    }
+    const levels = trade.takeProfitLevels ?? [];
+    // With a ladder, `takeProfitPrice` only mirrors its next open level
+    const target = levels.length === 0 ? trade.takeProfitPrice : undefined;
+    if (target != null && (long ? target <= avgEntryPrice : target >= avgEntryPrice)) {
+      add(errors, 'takeProfitPrice', `Take profit must be ${long ? 'above' : 'below'} the average entry of ${entry} for a ${trade.side}`);
+    }
+    for (const level of levels) {
+      // Filled levels are history; the average entry may have moved since
+      if (level.filledAt || (long ? level.price > avgEntryPrice : level.price < avgEntryPrice)) continue;
+      add(
+        errors,
+        'takeProfitLevels',
+        `Take-profit level at ${formatPrice(level.price)} must be ${long ? 'above' : 'below'} the average entry of ${entry} for a ${trade.side}`,
+      );
+    }
+  }
+
+  const stop = trade.stopLossPrice;
+  if (stop != null && liquidationPrice != null && (long ? stop <= liquidationPrice : stop >= liquidationPrice)) {
+    add(warnings, 'stopLossPrice', `Stop is past the liquidation price of ${formatPrice(liquidationPrice)}; the position would be liquidated first`);
+  }
+
+  return { errors, warnings };
+}
+
+export function hasTargetIssues(issues: TargetIssues) {
+  return Object.keys(issues).length > 0;
+}
+
+export interface TakeProfitLevelInput {
+  id?: string;
+  price: number;
+  percent: number;
+}
+
+/**
+ * Builds a take-profit ladder from form input, nearest target first for the side. A level sent
+ * with the id of an existing level keeps its id and fill.
+ */
+export function buildTakeProfitLevels(
+  side: TradeSide,
+  input: TakeProfitLevelInput[],
+  existing: ITradeTakeProfitLevel[] = [],
+): ITradeTakeProfitLevel[] {
+  return input
+    .map(({ id, price, percent }) => {
+      const previous = id ? existing.find((level) => level._id?.equals(id)) : undefined;
+      return {
+        _id: previous?._id ?? new Types.ObjectId(),
+        price,
+        percent,
+        filledAt: previous?.filledAt,
+        closeId: previous?.closeId,
+      };
+    })
+    .sort((a, b) => (side === 'long' ? a.price - b.price : b.price - a.price));
+}
+
+/** Reopens ladder levels that were filled by a close that no longer exists. */
+export function releaseTakeProfitLevels(trade: Pick<ITrade, 'takeProfitLevels' | 'closes'>) {
+  for (const level of trade.takeProfitLevels) {
+    if (level.closeId && !trade.closes.some((c) => c._id?.equals(level.closeId!))) {
+      level.filledAt = undefined;
+      level.closeId = undefined;
+    }
+  }
+}
@@ -0,0 +1,68 @@
+import type { FastifyBaseLogger } from 'fastify';
+import type { FilterQuery } from 'mongoose';
+import { Alert } from '../models/Alert';
+import { Trade, type ITrade } from '../models/Trade';
+import { TradeRevision } from '../models/TradeRevision';
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+/** When a trade trashed at `deletedAt` is purged for good. */
+export function trashPurgeDate(deletedAt: Date, retentionDays: number): Date {
+  return new Date(deletedAt.getTime() + retentionDays * DAY_MS);
+}
+
+/** Permanently deletes the matching trades together with their revision history and alerts. */
+export async function purgeTrades(filter: FilterQuery<ITrade>): Promise<number> {
+  const ids = (await Trade.find(filter).select('_id').lean()).map((t) => t._id);
+  if (ids.length === 0) return 0;
+  const { deletedCount } = await Trade.deleteMany({ _id: { $in: ids } });
+  await TradeRevision.deleteMany({ tradeId: { $in: ids } });
+  await Alert.deleteMany({ tradeId: { $in: ids } });
+  return deletedCount;
+}
+
+export interface TrashPurgeOptions {
+  retentionDays: number;
+}
+
+/** Periodically removes trashed trades older than the retention period. */
+export class TrashPurgeJob {
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly options: TrashPurgeOptions,
+    private readonly logger: FastifyBaseLogger,
+  ) {}
+
+  start() {
+    if (this.timer) return;
+    void this.runPurge();
+    this.timer = setInterval(() => {
+      void this.runPurge();
+    }, PURGE_INTERVAL_MS);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  async purgeOnce(now = new Date()): Promise<number> {
+    const cutoff = new Date(now.getTime() - this.options.retentionDays * DAY_MS);
+    return purgeTrades({ deletedAt: { $lte: cutoff } });
+  }
+
+  private async runPurge() {
+    try {
+      const purged = await this.purgeOnce();
+      if (purged > 0) this.logger.info({ purged, retentionDays: this.options.retentionDays }, 'Purged expired trashed trades');
+    } catch (err) {
+      this.logger.error({ err }, 'Trash purge failed');
+    }
+  }
+}
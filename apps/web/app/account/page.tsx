@@ -3,17 +3,57 @@
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '../../components/auth-provider';
-import { forgotPasswordCookie, debugAuthBackend } from '../../lib/api';
+import {
+  forgotPasswordCookie,
+  debugAuthBackend,
+  downloadBackup,
+  restoreBackup,
+  deleteAccount,
+  getSettings,
+  updateSettings,
+  getRealizedGains,
+  downloadRealizedGainsCsv,
+  type CostBasisMethod,
+  type DigestFrequency,
+  type RealizedGainsReport,
+  type RestoreMode,
+} from '../../lib/api';
 import { Button } from '../../components/ui/button';
 
 export default function AccountPage() {
   const router = useRouter();
-  const { user, authed, loading } = useAuth();
+  const { user, authed, loading, logout } = useAuth();
   const [sending, setSending] = useState(false);
   const [message, setMessage] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [debugInfo, setDebugInfo] = useState<any | null>(null);
   const [style, setStyle] = useState<'mono' | 'classic'>('classic');
+  const [backupBusy, setBackupBusy] = useState(false);
+  const [restoreFile, setRestoreFile] = useState<File | null>(null);
+  const [restoreMode, setRestoreMode] = useState<RestoreMode>('merge');
+  const [backupMessage, setBackupMessage] = useState<string | null>(null);
+  const [backupError, setBackupError] = useState<string | null>(null);
+  const [costBasisMethod, setCostBasisMethod] = useState<CostBasisMethod>('average');
+  const [savedCostBasisMethod, setSavedCostBasisMethod] = useState<CostBasisMethod>('average');
+  const [alertEmails, setAlertEmails] = useState(true);
+  const [liquidationAlertPercent, setLiquidationAlertPercent] = useState('');
+  const [alertsBusy, setAlertsBusy] = useState(false);
+  const [alertsMessage, setAlertsMessage] = useState<string | null>(null);
+  const [alertsError, setAlertsError] = useState<string | null>(null);
+  const [digestFrequency, setDigestFrequency] = useState<DigestFrequency>('off');
+  const [timezone, setTimezone] = useState('UTC');
+  const [digestBusy, setDigestBusy] = useState(false);
+  const [digestMessage, setDigestMessage] = useState<string | null>(null);
+  const [digestError, setDigestError] = useState<string | null>(null);
+  const [gainsYear, setGainsYear] = useState(String(new Date().getFullYear()));
+  const [gainsReport, setGainsReport] = useState<RealizedGainsReport | null>(null);
+  const [taxBusy, setTaxBusy] = useState(false);
+  const [taxMessage, setTaxMessage] = useState<string | null>(null);
+  const [taxError, setTaxError] = useState<string | null>(null);
+  const [deletePassword, setDeletePassword] = useState('');
+  const [deleteEmailExport, setDeleteEmailExport] = useState(true);
+  const [deleting, setDeleting] = useState(false);
+  const [deleteError, setDeleteError] = useState<string | null>(null);
 
   useEffect(() => {
     if (!loading && !authed) router.replace('/login');
@@ -23,6 +63,22 @@ export default function AccountPage() {
     }
   }, [authed, loading, router, user]);
 
+  useEffect(() => {
+    if (!authed) return;
+    getSettings()
+      .then((settings) => {
+        setCostBasisMethod(settings.costBasisMethod);
+        setSavedCostBasisMethod(settings.costBasisMethod);
+        setAlertEmails(settings.alertEmails);
+        setLiquidationAlertPercent(settings.liquidationAlertPercent != null ? String(settings.liquidationAlertPercent) : '');
+        setDigestFrequency(settings.digestFrequency);
+        setTimezone(settings.timezone);
+      })
+      .catch(() => {
+        // keep the default until the next load
+      });
+  }, [authed]);
+
   async function onDebugAuth() {
     try {
       const info = await debugAuthBackend();
@@ -51,6 +107,147 @@ export default function AccountPage() {
     }
   }
 
+  async function onDownloadBackup() {
+    setBackupBusy(true);
+    setBackupMessage(null);
+    setBackupError(null);
+    try {
+      await downloadBackup();
+    } catch (e: any) {
+      setBackupError(e.message || 'Failed to download backup');
+    } finally {
+      setBackupBusy(false);
+    }
+  }
+
+  async function onRestoreBackup() {
+    if (!restoreFile) return;
+    if (restoreMode === 'replace' && !window.confirm('Replace mode deletes all current trades before restoring. Continue?')) return;
+    setBackupBusy(true);
+    setBackupMessage(null);
+    setBackupError(null);
+    try {
+      let archive: unknown;
+      try {
+        archive = JSON.parse(await restoreFile.text());
+      } catch {
+        throw new Error('The selected file is not valid JSON');
+      }
+      const result = await restoreBackup(archive, restoreMode);
+      setBackupMessage(
+        `Restored ${result.restored.trades} trade(s)` +
+          (result.skipped.trades > 0 ? `, skipped ${result.skipped.trades} already present` : '') +
+          (result.removed.trades > 0 ? `, removed ${result.removed.trades} previous` : '') +
+          '.',
+      );
+      setRestoreFile(null);
+    } catch (e: any) {
+      setBackupError(e.message || 'Failed to restore backup');
+    } finally {
+      setBackupBusy(false);
+    }
+  }
+
+  async function onSaveCostBasis() {
+    if (!window.confirm('Re-book the closes of your manual trades with this cost-basis method?')) return;
+    setTaxBusy(true);
+    setTaxMessage(null);
+    setTaxError(null);
+    try {
+      const result = await updateSettings({ costBasisMethod });
+      setSavedCostBasisMethod(result.costBasisMethod);
+      setGainsReport(null);
+      setTaxMessage(
+        `Saved. Re-booked ${result.rebooked} trade(s)` +
+          (result.skipped > 0 ? `, skipped ${result.skipped} whose legs could not be matched` : '') +
+          '.',
+      );
+    } catch (e: any) {
+      setTaxError(e.message || 'Failed to save cost-basis method');
+    } finally {
+      setTaxBusy(false);
+    }
+  }
+
+  async function onSaveAlerts() {
+    setAlertsBusy(true);
+    setAlertsMessage(null);
+    setAlertsError(null);
+    try {
+      // An empty threshold turns liquidation alerts off
+      const percent = liquidationAlertPercent.trim() === '' ? null : parseFloat(liquidationAlertPercent);
+      const result = await updateSettings({ alertEmails, liquidationAlertPercent: percent });
+      setAlertEmails(result.alertEmails);
+      setLiquidationAlertPercent(result.liquidationAlertPercent != null ? String(result.liquidationAlertPercent) : '');
+      setAlertsMessage('Saved.');
+    } catch (e: any) {
+      setAlertsError(e.message || 'Failed to save alert settings');
+    } finally {
+      setAlertsBusy(false);
+    }
+  }
+
+  async function onSaveDigest() {
+    setDigestBusy(true);
+    setDigestMessage(null);
+    setDigestError(null);
+    try {
+      const result = await updateSettings({ digestFrequency, timezone: timezone.trim() });
+      setDigestFrequency(result.digestFrequency);
+      setTimezone(result.timezone);
+      setDigestMessage(result.digestFrequency === 'off' ? 'Digest emails are off.' : 'Saved.');
+    } catch (e: any) {
+      setDigestError(e.message || 'Failed to save digest settings');
+    } finally {
+      setDigestBusy(false);
+    }
+  }
+
+  // Calendar year of disposals, in UTC
+  function gainsRange() {
+    const year = parseInt(gainsYear, 10);
+    return { from: new Date(Date.UTC(year, 0, 1)).toISOString(), to: new Date(Date.UTC(year + 1, 0, 1) - 1).toISOString() };
+  }
+
+  async function onShowGains() {
+    setTaxBusy(true);
+    setTaxError(null);
+    try {
+      setGainsReport(await getRealizedGains(gainsRange()));
+    } catch (e: any) {
+      setTaxError(e.message || 'Failed to load realized gains');
+    } finally {
+      setTaxBusy(false);
+    }
+  }
+
+  async function onDownloadGains() {
+    setTaxBusy(true);
+    setTaxError(null);
+    try {
+      await downloadRealizedGainsCsv(gainsRange());
+    } catch (e: any) {
+      setTaxError(e.message || 'Failed to download realized gains');
+    } finally {
+      setTaxBusy(false);
+    }
+  }
+
+  async function onDeleteAccount() {
+    if (!window.confirm('Permanently delete your account, all trades and exchange connections?')) return;
+    setDeleting(true);
+    setDeleteError(null);
+    try {
+      await deleteAccount({ password: deletePassword || undefined, emailExport: deleteEmailExport });
+      await logout();
+      router.replace('/login');
+    } catch (e: any) {
+      setDeleteError(e.message || 'Failed to delete account');
+    } finally {
+      setDeleting(false);
+    }
+  }
+
   const handleStyleChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
     setStyle(e.target.value as 'mono' | 'classic');
   };
@@ -104,6 +301,231 @@ export default function AccountPage() {
             </div>
           )}
         </div>
+        {!loading && user && (
+          <div className="rounded-lg border bg-white p-6 shadow-sm space-y-4">
+            <div>
+              <h2 className="text-lg font-semibold">Cost basis</h2>
+              <p className="text-sm text-gray-500">
+                How partial closes are matched to entries when booking realized PnL.
+              </p>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <select
+                value={costBasisMethod}
+                onChange={(e) => setCostBasisMethod(e.target.value as CostBasisMethod)}
+                className="rounded border px-2 py-1 text-sm"
+              >
+                <option value="average">Average cost</option>
+                <option value="fifo">FIFO (first in, first out)</option>
+                <option value="lifo">LIFO (last in, first out)</option>
+              </select>
+              <Button
+                type="button"
+                onClick={onSaveCostBasis}
+                disabled={taxBusy || costBasisMethod === savedCostBasisMethod}
+              >
+                Save
+              </Button>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <label htmlFor="gains-year" className="text-sm text-gray-600">
+                Realized gains for
+              </label>
+              <input
+                id="gains-year"
+                type="number"
+                min="2000"
+                max="2100"
+                value={gainsYear}
+                onChange={(e) => setGainsYear(e.target.value)}
+                className="w-24 rounded border px-2 py-1 text-sm"
+              />
+              <Button type="button" variant="outline" onClick={onShowGains} disabled={taxBusy || !gainsYear}>
+                Show totals
+              </Button>
+              <Button type="button" variant="outline" onClick={onDownloadGains} disabled={taxBusy || !gainsYear}>
+                Download CSV
+              </Button>
+            </div>
+            {gainsReport && (
+              <dl className="grid grid-cols-2 gap-x-6 gap-y-1 text-sm sm:grid-cols-4">
+                <div>
+                  <dt className="text-xs text-gray-500">Proceeds</dt>
+                  <dd className="font-semibold">${gainsReport.totals.proceedsUsd.toFixed(2)}</dd>
+                </div>
+                <div>
+                  <dt className="text-xs text-gray-500">Cost</dt>
+                  <dd className="font-semibold">${gainsReport.totals.costUsd.toFixed(2)}</dd>
+                </div>
+                <div>
+                  <dt className="text-xs text-gray-500">Fees</dt>
+                  <dd className="font-semibold">${gainsReport.totals.feesUsd.toFixed(2)}</dd>
+                </div>
+                <div>
+                  <dt className="text-xs text-gray-500">Gain ({gainsReport.rows.length} lots)</dt>
+                  <dd className={`font-semibold ${gainsReport.totals.gainUsd >= 0 ? 'text-[#46843E]' : 'text-[#BC3836]'}`}>
+                    ${gainsReport.totals.gainUsd.toFixed(2)}
+                  </dd>
+                </div>
+              </dl>
+            )}
+            {gainsReport && gainsReport.skipped.length > 0 && (
+              <p className="text-sm text-gray-500">
+                {gainsReport.skipped.length} trade(s) left out because their entries and closes do not line up.
+              </p>
+            )}
+            {taxMessage && <p className="text-sm text-green-700">{taxMessage}</p>}
+            {taxError && <p className="text-sm text-[#BC3836]">{taxError}</p>}
+          </div>
+        )}
+        {!loading && user && (
+          <div className="rounded-lg border bg-white p-6 shadow-sm space-y-4">
+            <div>
+              <h2 className="text-lg font-semibold">Alerts</h2>
+              <p className="text-sm text-gray-500">
+                Active trades are checked against market prices; an alert is recorded when price reaches a stop or
+                take-profit target.
+              </p>
+            </div>
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={alertEmails} onChange={(e) => setAlertEmails(e.target.checked)} />
+              Email me when an alert fires
+            </label>
+            <div className="flex flex-wrap items-center gap-2">
+              <label htmlFor="liquidation-alert-percent" className="text-sm text-gray-600">
+                Alert within
+              </label>
+              <input
+                id="liquidation-alert-percent"
+                type="number"
+                step="0.1"
+                min="0.1"
+                max="100"
+                placeholder="Off"
+                value={liquidationAlertPercent}
+                onChange={(e) => setLiquidationAlertPercent(e.target.value)}
+                className="w-24 rounded border px-2 py-1 text-sm"
+              />
+              <span className="text-sm text-gray-600">% of the liquidation price</span>
+              <Button type="button" onClick={onSaveAlerts} disabled={alertsBusy}>
+                Save
+              </Button>
+            </div>
+            {alertsMessage && <p className="text-sm text-green-700">{alertsMessage}</p>}
+            {alertsError && <p className="text-sm text-[#BC3836]">{alertsError}</p>}
+          </div>
+        )}
+        {!loading && user && (
+          <div className="rounded-lg border bg-white p-6 shadow-sm space-y-4">
+            <div>
+              <h2 className="text-lg font-semibold">Email digest</h2>
+              <p className="text-sm text-gray-500">
+                Realized PnL, trades opened and closed, best and worst trade and open exposure, sent at 8:00 in your
+                time zone after each day or week.
+              </p>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <select
+                value={digestFrequency}
+                onChange={(e) => setDigestFrequency(e.target.value as DigestFrequency)}
+                className="rounded border px-2 py-1 text-sm"
+              >
+                <option value="off">Off</option>
+                <option value="daily">Daily</option>
+                <option value="weekly">Weekly (Monday)</option>
+              </select>
+              <input
+                aria-label="Time zone"
+                value={timezone}
+                onChange={(e) => setTimezone(e.target.value)}
+                placeholder="Europe/Berlin"
+                className="w-48 rounded border px-2 py-1 text-sm"
+              />
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setTimezone(Intl.DateTimeFormat().resolvedOptions().timeZone)}
+              >
+                Use this device&apos;s
+              </Button>
+              <Button type="button" onClick={onSaveDigest} disabled={digestBusy || timezone.trim() === ''}>
+                Save
+              </Button>
+            </div>
+            {digestMessage && <p className="text-sm text-green-700">{digestMessage}</p>}
+            {digestError && <p className="text-sm text-[#BC3836]">{digestError}</p>}
+          </div>
+        )}
+        {!loading && user && (
+          <div className="rounded-lg border bg-white p-6 shadow-sm space-y-4">
+            <div>
+              <h2 className="text-lg font-semibold">Backup</h2>
+              <p className="text-sm text-gray-500">
+                Download your profile and all trades as a JSON file, or restore one into this account.
+              </p>
+            </div>
+            <Button type="button" variant="outline" onClick={onDownloadBackup} disabled={backupBusy}>
+              Download backup
+            </Button>
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                type="file"
+                accept="application/json,.json"
+                onChange={(e) => setRestoreFile(e.target.files?.[0] ?? null)}
+                className="text-sm"
+              />
+              <select
+                value={restoreMode}
+                onChange={(e) => setRestoreMode(e.target.value as RestoreMode)}
+                className="rounded border px-2 py-1 text-sm"
+              >
+                <option value="merge">Merge with current trades</option>
+                <option value="replace">Replace current trades</option>
+              </select>
+              <Button type="button" onClick={onRestoreBackup} disabled={backupBusy || !restoreFile}>
+                {backupBusy ? 'Working…' : 'Restore'}
+              </Button>
+            </div>
+            {backupMessage && <p className="text-sm text-green-700">{backupMessage}</p>}
+            {backupError && <p className="text-sm text-[#BC3836]">{backupError}</p>}
+          </div>
+        )}
+        {!loading && user && (
+          <div className="rounded-lg border border-red-200 bg-white p-6 shadow-sm space-y-4">
+            <div>
+              <h2 className="text-lg font-semibold">Delete account</h2>
+              <p className="text-sm text-gray-500">
+                Removes your profile, all trades and exchange connections. This cannot be undone.
+              </p>
+            </div>
+            <div className="space-y-2">
+              <label htmlFor="delete-password" className="block text-sm text-gray-600">
+                Password (Google accounts: sign in again, then leave empty)
+              </label>
+              <input
+                id="delete-password"
+                type="password"
+                autoComplete="current-password"
+                value={deletePassword}
+                onChange={(e) => setDeletePassword(e.target.value)}
+                className="w-full max-w-sm rounded border px-3 py-2 text-sm"
+              />
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={deleteEmailExport}
+                  onChange={(e) => setDeleteEmailExport(e.target.checked)}
+                />
+                Email me a final backup first
+              </label>
+            </div>
+            <Button type="button" variant="outline" onClick={onDeleteAccount} disabled={deleting}>
+              {deleting ? 'Deleting…' : 'Delete account'}
+            </Button>
+            {deleteError && <p className="text-sm text-[#BC3836]">{deleteError}</p>}
+          </div>
+        )}
       </div>
     </main>
   );
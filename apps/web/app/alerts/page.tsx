@@ -0,0 +1,137 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '../../components/auth-provider';
+import { Button } from '../../components/ui/button';
+import { getAlerts, markAlertRead, markAllAlertsRead, type Alert, type AlertType } from '../../lib/api';
+
+const TYPE_LABELS: Record<AlertType, string> = {
+  'stop-loss': 'Stop loss',
+  'take-profit': 'Take profit',
+  liquidation: 'Liquidation',
+};
+
+export default function AlertsPage() {
+  const router = useRouter();
+  const { authed, loading: authLoading } = useAuth();
+
+  const [items, setItems] = useState<Alert[]>([]);
+  const [unread, setUnread] = useState(0);
+  const [unreadOnly, setUnreadOnly] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!authLoading && !authed) router.replace('/login');
+  }, [authLoading, authed, router]);
+
+  useEffect(() => {
+    if (!authed) return;
+    setLoading(true);
+    setError(null);
+    getAlerts({ unread: unreadOnly })
+      .then((page) => {
+        setItems(page.items);
+        setUnread(page.unread);
+      })
+      .catch((e) => setError(e.message || 'Failed to load alerts'))
+      .finally(() => setLoading(false));
+  }, [authed, unreadOnly]);
+
+  async function onMarkRead(id: string) {
+    setBusy(true);
+    setError(null);
+    try {
+      const alert = await markAlertRead(id);
+      setItems((prev) => (unreadOnly ? prev.filter((a) => a.id !== id) : prev.map((a) => (a.id === id ? alert : a))));
+      setUnread((n) => Math.max(n - 1, 0));
+    } catch (err: any) {
+      setError(err.message || 'Failed to mark alert as read');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function onMarkAllRead() {
+    setBusy(true);
+    setError(null);
+    try {
+      await markAllAlertsRead();
+      const readAt = new Date().toISOString();
+      setItems((prev) => (unreadOnly ? [] : prev.map((a) => ({ ...a, readAt: a.readAt ?? readAt }))));
+      setUnread(0);
+    } catch (err: any) {
+      setError(err.message || 'Failed to mark alerts as read');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  if (!authed) {
+    return null;
+  }
+
+  return (
+    <main className="min-h-screen p-6">
+      <div className="mx-auto w-full max-w-3xl space-y-6">
+        <div className="flex flex-wrap items-end justify-between gap-3">
+          <div>
+            <h1 className="text-2xl font-semibold">Alerts</h1>
+            <p className="text-sm text-gray-500">
+              Stops, take-profit targets and liquidation distance of active trades. Set up emails on the Account page.
+            </p>
+          </div>
+          <div className="flex items-center gap-3">
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+              <input type="checkbox" checked={unreadOnly} onChange={(e) => setUnreadOnly(e.target.checked)} />
+              Unread only
+            </label>
+            {unread > 0 && (
+              <Button type="button" variant="outline" size="sm" onClick={onMarkAllRead} disabled={busy}>
+                Mark all read ({unread})
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-[#BC3836]">{error}</p>}
+        {loading && <p className="text-sm text-gray-500">Loading…</p>}
+        {!loading && items.length === 0 && <p className="text-sm text-gray-500">No alerts yet.</p>}
+
+        <div className="space-y-3">
+          {items.map((a) => (
+            <article key={a.id} className={`rounded-xl border p-4 shadow-sm ${a.readAt ? 'bg-gray-50' : 'bg-white'}`}>
+              <div className="flex flex-wrap items-start justify-between gap-3">
+                <div>
+                  <p className="font-semibold text-gray-900">
+                    {a.coin} <span className="text-sm font-normal uppercase text-gray-500">{a.side}</span>
+                    <span
+                      className={`ml-2 text-xs font-normal ${
+                        a.type === 'take-profit' ? 'text-[#46843E]' : 'text-[#BC3836]'
+                      }`}
+                    >
+                      {TYPE_LABELS[a.type]}
+                    </span>
+                  </p>
+                  <p className="mt-1 text-sm text-gray-700">{a.message}</p>
+                  <p className="text-xs text-gray-500">
+                    {new Date(a.createdAt).toLocaleString()}
+                    {a.emailedAt && ' • Emailed'}
+                    {a.emailError && ' • Email failed'}
+                  </p>
+                </div>
+                {!a.readAt && (
+                  <Button type="button" size="sm" variant="secondary" onClick={() => onMarkRead(a.id)} disabled={busy}>
+                    Mark read
+                  </Button>
+                )}
+              </div>
+            </article>
+          ))}
+        </div>
+      </div>
+    </main>
+  );
+}
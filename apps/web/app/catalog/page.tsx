@@ -0,0 +1,251 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '../../components/auth-provider';
+import { Button } from '../../components/ui/button';
+import {
+  createStrategy,
+  createTag,
+  deleteStrategy,
+  deleteTag,
+  getStrategies,
+  getTags,
+  getTradeAnalytics,
+  updateStrategy,
+  updateTag,
+  type LabelledBreakdown,
+  type Strategy,
+  type Tag,
+} from '../../lib/api';
+
+type Kind = 'tag' | 'strategy';
+
+type CatalogItem = { id: string; name: string; trades: number; color?: string; description?: string };
+
+const inputClass = 'rounded border px-3 py-1.5 text-sm';
+
+function formatUsd(value: number | null) {
+  return value == null ? '—' : `$${value.toFixed(2)}`;
+}
+
+export default function CatalogPage() {
+  const router = useRouter();
+  const { authed, loading: authLoading } = useAuth();
+
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [strategies, setStrategies] = useState<Strategy[]>([]);
+  const [stats, setStats] = useState<{ tag: LabelledBreakdown; strategy: LabelledBreakdown } | null>(null);
+  const [newTagName, setNewTagName] = useState('');
+  const [newTagColor, setNewTagColor] = useState('#46843E');
+  const [newStrategyName, setNewStrategyName] = useState('');
+  const [newStrategyDescription, setNewStrategyDescription] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!authLoading && !authed) router.replace('/login');
+  }, [authLoading, authed, router]);
+
+  useEffect(() => {
+    if (!authed) return;
+    setError(null);
+    Promise.all([getTags(), getStrategies(), getTradeAnalytics()])
+      .then(([tagList, strategyList, analytics]) => {
+        setTags(tagList);
+        setStrategies(strategyList);
+        setStats({ tag: analytics.breakdowns.tag, strategy: analytics.breakdowns.strategy });
+      })
+      .catch((e) => setError(e.message || 'Failed to load tags and strategies'));
+  }, [authed]);
+
+  async function run(action: () => Promise<void>, fallback: string) {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err: any) {
+      setError(err.message || fallback);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function onCreateTag(e: React.FormEvent) {
+    e.preventDefault();
+    void run(async () => {
+      const tag = await createTag({ name: newTagName.trim(), color: newTagColor });
+      setTags((prev) => [...prev, { ...tag, trades: 0 }].sort((a, b) => a.name.localeCompare(b.name)));
+      setNewTagName('');
+    }, 'Failed to create tag');
+  }
+
+  function onCreateStrategy(e: React.FormEvent) {
+    e.preventDefault();
+    void run(async () => {
+      const strategy = await createStrategy({
+        name: newStrategyName.trim(),
+        description: newStrategyDescription.trim() || null,
+      });
+      setStrategies((prev) => [...prev, { ...strategy, trades: 0 }].sort((a, b) => a.name.localeCompare(b.name)));
+      setNewStrategyName('');
+      setNewStrategyDescription('');
+    }, 'Failed to create strategy');
+  }
+
+  function onRename(kind: Kind, item: CatalogItem) {
+    const name = window.prompt(`Rename ${kind}`, item.name)?.trim();
+    if (!name || name === item.name) return;
+    void run(async () => {
+      if (kind === 'tag') {
+        const updated = await updateTag(item.id, { name });
+        setTags((prev) => prev.map((t) => (t.id === item.id ? { ...t, name: updated.name } : t)));
+      } else {
+        const updated = await updateStrategy(item.id, { name });
+        setStrategies((prev) => prev.map((s) => (s.id === item.id ? { ...s, name: updated.name } : s)));
+      }
+    }, `Failed to rename ${kind}`);
+  }
+
+  function onDelete(kind: Kind, item: CatalogItem) {
+    const usage = item.trades > 0 ? ` It is removed from ${item.trades} trade(s).` : '';
+    if (!window.confirm(`Delete ${kind} "${item.name}"?${usage}`)) return;
+    void run(async () => {
+      if (kind === 'tag') {
+        await deleteTag(item.id);
+        setTags((prev) => prev.filter((t) => t.id !== item.id));
+      } else {
+        await deleteStrategy(item.id);
+        setStrategies((prev) => prev.filter((s) => s.id !== item.id));
+      }
+    }, `Failed to delete ${kind}`);
+  }
+
+  function renderList(kind: Kind, items: CatalogItem[], breakdown: LabelledBreakdown | undefined) {
+    if (items.length === 0) {
+      return <p className="text-sm text-gray-500">No {kind === 'tag' ? 'tags' : 'strategies'} yet.</p>;
+    }
+    return (
+      <table className="w-full text-left text-sm">
+        <thead className="text-xs uppercase tracking-wide text-gray-500">
+          <tr>
+            <th className="py-1 font-medium">Name</th>
+            <th className="py-1 text-right font-medium">Trades</th>
+            <th className="py-1 text-right font-medium">Win rate</th>
+            <th className="py-1 text-right font-medium">Net PnL</th>
+            <th className="py-1 text-right font-medium">Expectancy</th>
+            <th className="py-1 text-right font-medium">Exp. R</th>
+            <th className="py-1" />
+          </tr>
+        </thead>
+        <tbody>
+          {items.map((item) => {
+            // Performance covers closed trades only
+            const row = breakdown?.find((b) => b.key === item.id);
+            return (
+              <tr key={item.id} className="border-t border-gray-100">
+                <td className="py-2">
+                  <span className="flex items-center gap-2">
+                    {item.color && <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: item.color }} />}
+                    <span className="font-medium text-gray-900">{item.name}</span>
+                  </span>
+                  {item.description && <span className="block text-xs text-gray-500">{item.description}</span>}
+                </td>
+                <td className="py-2 text-right">{item.trades}</td>
+                <td className="py-2 text-right">{row?.winRate != null ? `${row.winRate.toFixed(1)}%` : '—'}</td>
+                <td
+                  className={`py-2 text-right font-semibold ${
+                    row ? (row.netPnlUsd >= 0 ? 'text-[#46843E]' : 'text-[#BC3836]') : 'text-gray-400'
+                  }`}
+                >
+                  {formatUsd(row?.netPnlUsd ?? null)}
+                </td>
+                <td className="py-2 text-right">{formatUsd(row?.expectancyUsd ?? null)}</td>
+                <td className="py-2 text-right">{row?.expectancyR != null ? `${row.expectancyR.toFixed(2)}R` : '—'}</td>
+                <td className="py-2 text-right text-xs">
+                  <button type="button" className="underline-offset-2 hover:underline" onClick={() => onRename(kind, item)} disabled={busy}>
+                    Rename
+                  </button>
+                  <button
+                    type="button"
+                    className="ml-3 text-[#BC3836] underline-offset-2 hover:underline"
+                    onClick={() => onDelete(kind, item)}
+                    disabled={busy}
+                  >
+                    Delete
+                  </button>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    );
+  }
+
+  if (!authed) {
+    return null;
+  }
+
+  return (
+    <main className="min-h-screen p-6">
+      <div className="mx-auto w-full max-w-3xl space-y-6">
+        <div>
+          <h1 className="text-2xl font-semibold">Tags & strategies</h1>
+          <p className="text-sm text-gray-500">Label trades and compare how each setup performs on closed trades.</p>
+        </div>
+
+        {error && <p className="text-sm text-[#BC3836]">{error}</p>}
+
+        <section className="rounded-lg border bg-white p-6 shadow-sm space-y-4">
+          <h2 className="text-lg font-semibold">Strategies</h2>
+          {renderList('strategy', strategies, stats?.strategy)}
+          <form onSubmit={onCreateStrategy} className="flex flex-wrap items-center gap-2">
+            <input
+              className={inputClass}
+              placeholder="New strategy"
+              value={newStrategyName}
+              onChange={(e) => setNewStrategyName(e.target.value)}
+              maxLength={50}
+              required
+            />
+            <input
+              className={`${inputClass} flex-1`}
+              placeholder="Description (optional)"
+              value={newStrategyDescription}
+              onChange={(e) => setNewStrategyDescription(e.target.value)}
+              maxLength={1000}
+            />
+            <Button type="submit" size="sm" disabled={busy}>
+              Add
+            </Button>
+          </form>
+        </section>
+
+        <section className="rounded-lg border bg-white p-6 shadow-sm space-y-4">
+          <h2 className="text-lg font-semibold">Tags</h2>
+          {renderList('tag', tags, stats?.tag)}
+          <form onSubmit={onCreateTag} className="flex flex-wrap items-center gap-2">
+            <input
+              className={inputClass}
+              placeholder="New tag"
+              value={newTagName}
+              onChange={(e) => setNewTagName(e.target.value)}
+              maxLength={50}
+              required
+            />
+            <input
+              type="color"
+              className="h-8 w-10 rounded border"
+              value={newTagColor}
+              onChange={(e) => setNewTagColor(e.target.value)}
+            />
+            <Button type="submit" size="sm" disabled={busy}>
+              Add
+            </Button>
+          </form>
+        </section>
+      </div>
+    </main>
+  );
+}
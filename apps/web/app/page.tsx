@@ -4,8 +4,16 @@ import { useEffect, useMemo, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '../components/auth-provider';
 import { Button } from '../components/ui/button';
-import type { Trade, TradeStatus, TradesSummary, TradeSide } from '../lib/api';
+import TradeHistoryModal from '../components/trade-history-modal';
+import TradeLegModal, { type TradeLegTarget } from '../components/trade-leg-modal';
+import TradeLabelsField from '../components/trade-labels-field';
+import FieldMessages from '../components/field-messages';
+import TakeProfitLadderField, { ladderRows, toLevelInputs, type LadderRow } from '../components/take-profit-ladder-field';
+import type { FieldErrors, Strategy, Tag, Trade, TradeStatus, TradesSummary, TradeSide } from '../lib/api';
 import {
+  ApiError,
+  getStrategies,
+  getTags,
   getTrades,
   getTradesSummary,
   createActiveTrade,
@@ -13,8 +21,12 @@ import {
   addTradeSize,
   sellTradePosition,
   deleteTrade,
+  deleteTradeClose,
+  deleteTradeEntry,
   editTrade,
+  downloadTradesCsv,
 } from '../lib/api';
+import type { TradeExportDataset } from '../lib/api';
 
 type Tab = 'active' | 'closed';
 
@@ -27,9 +39,11 @@ type NewTradeFormState = {
   amountInvestedUsd: string;
   leverage: string;
   stopLossPrice: string;
-  takeProfitPrice: string;
+  takeProfitLevels: LadderRow[];
   entryDate: string;
   comment: string;
+  tagIds: string[];
+  strategyId: string;
   exitPrice?: string;
   exitDate?: string;
 };
@@ -41,13 +55,19 @@ const emptyNewTradeForm = (): NewTradeFormState => ({
   amountInvestedUsd: '',
   leverage: '',
   stopLossPrice: '',
-  takeProfitPrice: '',
+  takeProfitLevels: [],
   entryDate: '',
   comment: '',
+  tagIds: [],
+  strategyId: '',
   exitPrice: '',
   exitDate: '',
 });
 
+function formatR(value: number) {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(2)}R`;
+}
+
 function formatDateInputValue(value?: string | null) {
   if (!value) return '';
   const d = new Date(value);
@@ -61,18 +81,30 @@ export default function Home() {
 
   const [tab, setTab] = useState<Tab>('active');
   const [trades, setTrades] = useState<Trade[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [summary, setSummary] = useState<TradesSummary | null>(null);
   const [loadingTrades, setLoadingTrades] = useState(false);
   const [loadingSummary, setLoadingSummary] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Per-input errors from the last submit of the open form
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [strategies, setStrategies] = useState<Strategy[]>([]);
+  const [filterTag, setFilterTag] = useState('');
+  const [filterStrategy, setFilterStrategy] = useState('');
 
   const [showNewTradeFor, setShowNewTradeFor] = useState<Tab | null>(null);
   const [newTradeForm, setNewTradeForm] = useState<NewTradeFormState>(emptyNewTradeForm);
 
   const [editingTrade, setEditingTrade] = useState<Trade | null>(null);
   const [editComment, setEditComment] = useState('');
+  const [editTagIds, setEditTagIds] = useState<string[]>([]);
+  const [editStrategyId, setEditStrategyId] = useState('');
   const [editStopLoss, setEditStopLoss] = useState('');
-  const [editTakeProfit, setEditTakeProfit] = useState('');
+  const [editTakeProfitLevels, setEditTakeProfitLevels] = useState<LadderRow[]>([]);
+  const [editPlannedStop, setEditPlannedStop] = useState('');
   const [editCoin, setEditCoin] = useState('');
   const [editSide, setEditSide] = useState<TradeSide>('long');
   const [editEntryPrice, setEditEntryPrice] = useState('');
@@ -81,6 +113,7 @@ export default function Home() {
   const [editEntryDate, setEditEntryDate] = useState('');
   const [editExitPrice, setEditExitPrice] = useState('');
   const [editExitDate, setEditExitDate] = useState('');
+  const [editManualMarkPrice, setEditManualMarkPrice] = useState('');
 
   const [addSizeTrade, setAddSizeTrade] = useState<Trade | null>(null);
   const [addSizeEntryPrice, setAddSizeEntryPrice] = useState('');
@@ -92,8 +125,11 @@ export default function Home() {
   const [sellAmount, setSellAmount] = useState('');
   const [sellPrice, setSellPrice] = useState('');
   const [sellDate, setSellDate] = useState('');
+  const [sellLevelId, setSellLevelId] = useState('');
 
   const [deleteTradeTarget, setDeleteTradeTarget] = useState<Trade | null>(null);
+  const [historyTrade, setHistoryTrade] = useState<Trade | null>(null);
+  const [legTarget, setLegTarget] = useState<TradeLegTarget | null>(null);
 
   useEffect(() => {
     if (!authLoading && !authed) {
@@ -101,15 +137,62 @@ export default function Home() {
     }
   }, [authLoading, authed, router]);
 
+  useEffect(() => {
+    if (!authed) return;
+    Promise.all([getTags(), getStrategies()])
+      .then(([tagList, strategyList]) => {
+        setTags(tagList);
+        setStrategies(strategyList);
+      })
+      .catch(() => {
+        // trades stay usable without the catalog
+      });
+  }, [authed]);
+
+  // List filters shared by the first page, "load more" and the CSV export
+  const listFilters = useMemo(
+    () => ({ status: tab as TradeStatus, tag: filterTag || undefined, strategy: filterStrategy || undefined }),
+    [tab, filterTag, filterStrategy],
+  );
+
   useEffect(() => {
     if (!authed) return;
     setLoadingTrades(true);
     setError(null);
-    getTrades(tab as TradeStatus)
-      .then(setTrades)
+    getTrades({ ...listFilters, sort: tab === 'closed' ? 'closeDate' : 'createdAt' })
+      .then((page) => {
+        setTrades(page.items);
+        setNextCursor(page.nextCursor);
+      })
       .catch((e) => setError(e.message || 'Failed to load trades'))
       .finally(() => setLoadingTrades(false));
-  }, [authed, tab]);
+  }, [authed, tab, listFilters]);
+
+  async function onExport(dataset: TradeExportDataset) {
+    try {
+      await downloadTradesCsv(dataset, listFilters);
+    } catch (err: any) {
+      setError(err.message || 'Failed to export trades');
+    }
+  }
+
+  async function onLoadMoreTrades() {
+    if (!nextCursor) return;
+    setLoadingMore(true);
+    try {
+      const page = await getTrades({
+        ...listFilters,
+        sort: tab === 'closed' ? 'closeDate' : 'createdAt',
+        cursor: nextCursor,
+      });
+      setTrades((prev) => [...prev, ...page.items]);
+      setNextCursor(page.nextCursor);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load trades');
+    } finally {
+      setLoadingMore(false);
+    }
+  }
 
   useEffect(() => {
     if (!authed) return;
@@ -131,10 +214,26 @@ export default function Home() {
     setNewTradeForm(emptyNewTradeForm());
   }
 
+  // Form errors with per-field messages stay in the form; anything else goes to the page banner
+  function onFormError(err: any, fallback: string) {
+    if (err instanceof ApiError && Object.keys(err.fieldErrors).length > 0) setFieldErrors(err.fieldErrors);
+    else setError(err.message || fallback);
+  }
+
+  function inputClass(field: string) {
+    return `mt-1 w-full rounded-md border px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-black ${
+      fieldErrors[field] ? 'border-[#BC3836]' : 'border-gray-300'
+    }`;
+  }
+
   function resetEditForm() {
+    setFieldErrors({});
     setEditComment('');
+    setEditTagIds([]);
+    setEditStrategyId('');
     setEditStopLoss('');
-    setEditTakeProfit('');
+    setEditTakeProfitLevels([]);
+    setEditPlannedStop('');
     setEditCoin('');
     setEditSide('long');
     setEditEntryPrice('');
@@ -143,6 +242,7 @@ export default function Home() {
     setEditEntryDate('');
     setEditExitPrice('');
     setEditExitDate('');
+    setEditManualMarkPrice('');
   }
 
   function closeEditModal() {
@@ -152,6 +252,7 @@ export default function Home() {
 
   function onOpenNewTrade(which: Tab) {
     resetNewTradeForm();
+    setFieldErrors({});
     setShowNewTradeFor(which);
   }
 
@@ -167,9 +268,11 @@ export default function Home() {
         amountInvestedUsd: parseFloat(base.amountInvestedUsd),
         leverage: base.leverage ? parseFloat(base.leverage) : undefined,
         stopLossPrice: base.stopLossPrice ? parseFloat(base.stopLossPrice) : undefined,
-        takeProfitPrice: base.takeProfitPrice ? parseFloat(base.takeProfitPrice) : undefined,
+        takeProfitLevels: base.takeProfitLevels.length > 0 ? toLevelInputs(base.takeProfitLevels) : undefined,
         entryDate: base.entryDate || undefined,
         comment: base.comment || undefined,
+        tagIds: base.tagIds.length > 0 ? base.tagIds : undefined,
+        strategyId: base.strategyId || undefined,
       } as const;
 
       let created: Trade;
@@ -191,7 +294,7 @@ export default function Home() {
       const freshSummary = await getTradesSummary();
       setSummary(freshSummary);
     } catch (err: any) {
-      setError(err.message || 'Failed to save trade');
+      onFormError(err, 'Failed to save trade');
     }
   }
 
@@ -199,8 +302,12 @@ export default function Home() {
     resetEditForm();
     setEditingTrade(t);
     setEditComment(t.comment ?? '');
+    setEditTagIds(t.tagIds);
+    setEditStrategyId(t.strategyId ?? '');
     setEditStopLoss(t.stopLossPrice != null ? String(t.stopLossPrice) : '');
-    setEditTakeProfit(t.takeProfitPrice != null ? String(t.takeProfitPrice) : '');
+    setEditTakeProfitLevels(ladderRows(t));
+    setEditPlannedStop(t.metrics.initialStopLossPrice != null ? String(t.metrics.initialStopLossPrice) : '');
+    setEditManualMarkPrice(t.manualMarkPrice != null ? String(t.manualMarkPrice) : '');
     if (t.status === 'closed') {
       setEditCoin(t.coin);
       setEditSide(t.side);
@@ -225,11 +332,21 @@ export default function Home() {
     try {
       const payload: Parameters<typeof editTrade>[1] = {
         comment: editComment,
+        tagIds: editTagIds,
+        strategyId: editStrategyId || null,
         stopLossPrice: editStopLoss ? parseFloat(editStopLoss) : null,
-        takeProfitPrice: editTakeProfit ? parseFloat(editTakeProfit) : null,
+        takeProfitLevels: toLevelInputs(editTakeProfitLevels),
       };
+      // The planned stop is only sent when corrected; it cannot be cleared once set
+      const plannedStop = parseFloat(editPlannedStop);
+      if (Number.isFinite(plannedStop) && plannedStop !== editingTrade.metrics.initialStopLossPrice) {
+        payload.initialStopLossPrice = plannedStop;
+      }
 
       const isClosedEdit = editingTrade.status === 'closed';
+      if (!isClosedEdit) {
+        payload.manualMarkPrice = editManualMarkPrice ? parseFloat(editManualMarkPrice) : null;
+      }
       if (isClosedEdit) {
         if (!editCoin.trim()) throw new Error('Coin is required for closed trades');
         const entryPriceValue = parseFloat(editEntryPrice);
@@ -257,12 +374,13 @@ export default function Home() {
       }
       closeEditModal();
     } catch (err: any) {
-      setError(err.message || 'Failed to update trade');
+      onFormError(err, 'Failed to update trade');
     }
   }
 
   function onOpenAddSize(t: Trade) {
     setAddSizeTrade(t);
+    setFieldErrors({});
     setAddSizeEntryPrice('');
     setAddSizeAmount('');
     setAddSizeLeverage('');
@@ -281,7 +399,7 @@ export default function Home() {
       setTrades((prev) => prev.map((t) => (t.id === updated.id ? updated : t)));
       setAddSizeTrade(null);
     } catch (err: any) {
-      setError(err.message || 'Failed to add size');
+      onFormError(err, 'Failed to add size');
     }
   }
 
@@ -291,6 +409,18 @@ export default function Home() {
     setSellAmount('');
     setSellPrice('');
     setSellDate('');
+    setSellLevelId('');
+  }
+
+  // Picking a ladder level pre-fills its price and the coin it covers
+  function onSelectSellLevel(levelId: string) {
+    setSellLevelId(levelId);
+    const level = sellTrade?.takeProfitLevels.find((l) => l.id === levelId);
+    if (!sellTrade || !level) return;
+    const coin = Math.min((sellTrade.metrics.totalEntryCoin * level.percent) / 100, sellTrade.metrics.openCoin);
+    setSellPrice(String(level.price));
+    setSellMode('coin');
+    setSellAmount(String(Number(coin.toFixed(8))));
   }
 
   async function onSubmitSell(e: React.FormEvent) {
@@ -300,6 +430,7 @@ export default function Home() {
       const payload: any = {
         closePrice: parseFloat(sellPrice),
         closeDate: sellDate || undefined,
+        takeProfitLevelId: sellLevelId || undefined,
       };
       const amountNum = parseFloat(sellAmount);
       if (sellMode === 'coin') payload.amountCoin = amountNum;
@@ -323,6 +454,38 @@ export default function Home() {
     }
   }
 
+  async function onTradeChanged(updated: Trade) {
+    // Reverts and leg edits can flip the status, so the trade may no longer belong on this tab
+    setTrades((prev) =>
+      updated.status === tab ? prev.map((t) => (t.id === updated.id ? updated : t)) : prev.filter((t) => t.id !== updated.id),
+    );
+    try {
+      setSummary(await getTradesSummary());
+    } catch {
+      // summary refreshes on the next load
+    }
+  }
+
+  async function onTradeReverted(updated: Trade) {
+    setHistoryTrade(null);
+    await onTradeChanged(updated);
+  }
+
+  async function onTradeLegSaved(updated: Trade) {
+    setLegTarget(null);
+    await onTradeChanged(updated);
+  }
+
+  async function onDeleteLeg(t: Trade, kind: 'entry' | 'close', legId: string) {
+    if (!window.confirm(`Remove this ${kind} from ${t.coin}?`)) return;
+    try {
+      const updated = kind === 'entry' ? await deleteTradeEntry(t.id, legId) : await deleteTradeClose(t.id, legId);
+      await onTradeChanged(updated);
+    } catch (err: any) {
+      setError(err.message || `Failed to remove ${kind}`);
+    }
+  }
+
   async function onConfirmDelete() {
     if (!deleteTradeTarget) return;
     try {
@@ -403,8 +566,50 @@ export default function Home() {
         </button>
       </section>
 
+      {/* Strategy / tag filters */}
+      {(tags.length > 0 || strategies.length > 0) && (
+        <section className="flex flex-wrap items-center gap-2 text-sm">
+          {strategies.length > 0 && (
+            <select
+              value={filterStrategy}
+              onChange={(e) => setFilterStrategy(e.target.value)}
+              className="rounded-md border border-gray-300 px-2 py-1"
+            >
+              <option value="">All strategies</option>
+              <option value="none">No strategy</option>
+              {strategies.map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.name}
+                </option>
+              ))}
+            </select>
+          )}
+          {tags.length > 0 && (
+            <select
+              value={filterTag}
+              onChange={(e) => setFilterTag(e.target.value)}
+              className="rounded-md border border-gray-300 px-2 py-1"
+            >
+              <option value="">All tags</option>
+              {tags.map((tag) => (
+                <option key={tag.id} value={tag.id}>
+                  {tag.name}
+                </option>
+              ))}
+            </select>
+          )}
+        </section>
+      )}
+
       {/* New trade button */}
-      <section className={trades.length === 0 ? 'flex justify-center' : 'flex justify-end'}>
+      <section className={trades.length === 0 ? 'flex justify-center' : 'flex justify-end gap-2'}>
+        {trades.length > 0 && (
+          <>
+            <Button variant="outline" onClick={() => onExport('trades')}>Export CSV</Button>
+            <Button variant="ghost" onClick={() => onExport('entries')}>Entries</Button>
+            <Button variant="ghost" onClick={() => onExport('closes')}>Closes</Button>
+          </>
+        )}
         <Button className={trades.length === 0 ? 'w-full h-10 rounded-lg' : 'w-auto'} onClick={() => onOpenNewTrade(tab)}>
           {tab === 'active' ? 'Add new trade' : '+'}
         </Button>
@@ -432,13 +637,30 @@ export default function Home() {
           const hasOpenPosition = openNotional != null && openCoin > 0;
           const openPositionLabel = hasOpenPosition ? `$${openNotional.toFixed(2)}` : '—';
           const openCoinLabel = hasOpenPosition ? `${openCoin.toFixed(4)} ${t.coin}` : null;
-          const realizedPnlLabel = `$${t.metrics.realizedPnlUsd.toFixed(2)}`;
-          const realizedPctLabel = t.metrics.realizedPnlPercent != null ? `${t.metrics.realizedPnlPercent.toFixed(2)}%` : null;
-          const pnlColor = t.metrics.realizedPnlUsd > 0
+          const realizedPnlLabel = `$${t.metrics.netRealizedPnlUsd.toFixed(2)}`;
+          const realizedPctLabel = t.metrics.netRealizedPnlPercent != null ? `${t.metrics.netRealizedPnlPercent.toFixed(2)}%` : null;
+          const hasCosts = t.metrics.totalFeesUsd !== 0 || t.metrics.totalFundingUsd !== 0;
+          const costsLabel = hasCosts
+            ? `Gross $${t.metrics.realizedPnlUsd.toFixed(2)} • Fees $${t.metrics.totalFeesUsd.toFixed(2)} • Funding $${t.metrics.totalFundingUsd.toFixed(2)}`
+            : null;
+          const pnlColor = t.metrics.netRealizedPnlUsd > 0
             ? 'text-[#46843E]'
-            : t.metrics.realizedPnlUsd < 0
+            : t.metrics.netRealizedPnlUsd < 0
               ? 'text-[#BC3836]'
               : 'text-gray-800';
+          const unrealizedPnl = t.metrics.unrealizedPnlUsd;
+          const unrealizedPnlLabel = unrealizedPnl != null ? `$${unrealizedPnl.toFixed(2)}` : '--';
+          const unrealizedPctLabel = t.metrics.unrealizedPnlPercent != null ? `${t.metrics.unrealizedPnlPercent.toFixed(2)}%` : null;
+          const unrealizedColor = unrealizedPnl == null || unrealizedPnl === 0
+            ? 'text-gray-800'
+            : unrealizedPnl > 0
+              ? 'text-[#46843E]'
+              : 'text-[#BC3836]';
+          const strategyName = t.strategyId ? strategies.find((s) => s.id === t.strategyId)?.name : null;
+          const tradeTags = tags.filter((tag) => t.tagIds.includes(tag.id));
+          const markPriceLabel = t.metrics.markPrice != null
+            ? `Mark $${t.metrics.markPrice.toFixed(2)}${t.markPriceSource === 'manual' ? ' (manual)' : ''}`
+            : null;
 
           return (
             <article
@@ -466,15 +688,34 @@ export default function Home() {
                     {firstEntryDate ? `Entered ${firstEntryDate}` : 'Entry date —'}
                     {isClosed && exitDateLabel && <>{' • '}Closed {exitDateLabel}</>}
                   </p>
+                  {(strategyName || tradeTags.length > 0) && (
+                    <div className="mt-2 flex flex-wrap items-center gap-1.5 text-xs">
+                      {strategyName && <span className="font-medium text-gray-700">{strategyName}</span>}
+                      {tradeTags.map((tag) => (
+                        <span
+                          key={tag.id}
+                          className="rounded-full border px-2 py-0.5 text-gray-700"
+                          style={tag.color ? { borderColor: tag.color } : undefined}
+                        >
+                          {tag.name}
+                        </span>
+                      ))}
+                    </div>
+                  )}
                 </div>
                 <div className="text-right">
                   <p className="text-xs uppercase tracking-wide text-gray-500">PNL</p>
-                  <p className={`text-lg font-semibold ${isClosed ? pnlColor : 'text-gray-800'}`}>
-                    {isClosed ? realizedPnlLabel : hasOpenPosition ? '--' : '--'}
+                  <p className={`text-lg font-semibold ${isClosed ? pnlColor : unrealizedColor}`}>
+                    {isClosed ? realizedPnlLabel : hasOpenPosition ? unrealizedPnlLabel : '--'}
                   </p>
                   {isClosed && realizedPctLabel && (
                     <p className="text-xs text-gray-500">{realizedPctLabel}</p>
                   )}
+                  {!isClosed && hasOpenPosition && (unrealizedPctLabel || markPriceLabel) && (
+                    <p className="text-xs text-gray-500">
+                      {[unrealizedPctLabel, markPriceLabel].filter(Boolean).join(' • ')}
+                    </p>
+                  )}
                 </div>
               </div>
 
@@ -505,6 +746,7 @@ export default function Home() {
                       <p className="text-xs uppercase tracking-wide text-gray-500">Performance</p>
                       <p className={`mt-1 text-lg font-semibold ${pnlColor}`}>{realizedPnlLabel}</p>
                       {realizedPctLabel && <p className="text-xs text-gray-500">{realizedPctLabel}</p>}
+                      {costsLabel && <p className="text-xs text-gray-500">{costsLabel}</p>}
                     </>
                   ) : (
                     <>
@@ -515,6 +757,7 @@ export default function Home() {
                       {t.metrics.liquidationPrice != null ? (
                         <p className="text-xs text-gray-500">
                           Liq ${t.metrics.liquidationPrice.toFixed(2)}
+                          {t.metrics.liquidationDistancePercent != null && ` (${t.metrics.liquidationDistancePercent.toFixed(1)}% away)`}
                           {t.metrics.debtUsd != null && ` • Debt $${t.metrics.debtUsd.toFixed(2)}`}
                         </p>
                       ) : (
@@ -535,10 +778,30 @@ export default function Home() {
                   {t.entries.length > 0 && (
                     <div className="mt-3 space-y-2">
                       {t.entries.map((e, idx) => (
-                        <div key={idx} className="flex items-baseline justify-between gap-4 text-sm">
+                        <div key={e.id ?? idx} className="flex items-baseline justify-between gap-4 text-sm">
                           <div>
                             <p className="font-semibold text-gray-900">${e.entryPrice.toFixed(2)}</p>
                             <p className="text-xs text-gray-500">Leg {idx + 1}{e.entryDate ? ` • ${new Date(e.entryDate).toLocaleDateString()}` : ''}</p>
+                            {e.id && (
+                              <div className="mt-0.5 flex gap-2 text-[11px] text-gray-500">
+                                <button
+                                  type="button"
+                                  className="underline-offset-2 hover:underline"
+                                  onClick={() => setLegTarget({ trade: t, kind: 'entry', leg: e })}
+                                >
+                                  Edit
+                                </button>
+                                {t.entries.length > 1 && (
+                                  <button
+                                    type="button"
+                                    className="underline-offset-2 hover:underline"
+                                    onClick={() => onDeleteLeg(t, 'entry', e.id!)}
+                                  >
+                                    Remove
+                                  </button>
+                                )}
+                              </div>
+                            )}
                           </div>
                           <div className="text-right text-xs text-gray-500">
                             <p>Size ${e.amountInvestedUsd.toFixed(2)}</p>
@@ -559,12 +822,76 @@ export default function Home() {
                         {t.stopLossPrice != null ? `$${t.stopLossPrice.toFixed(2)}` : <span className="text-gray-400">—</span>}
                       </dd>
                     </div>
-                    <div className="flex items-center justify-between">
-                      <dt className="text-xs uppercase tracking-wide text-gray-500">Take profit</dt>
-                      <dd className="font-semibold">
-                        {t.takeProfitPrice != null ? `$${t.takeProfitPrice.toFixed(2)}` : <span className="text-gray-400">—</span>}
-                      </dd>
-                    </div>
+                    {t.warnings.stopLossPrice?.map((warning) => (
+                      <p key={warning} className="text-xs text-[#BC3836]">
+                        {warning}
+                      </p>
+                    ))}
+                    {t.stopLossHistory.length > 1 && (
+                      <p className="text-xs text-gray-500">
+                        Trail:{' '}
+                        {t.stopLossHistory.map((h) => (h.price != null ? `$${h.price.toFixed(2)}` : 'none')).join(' → ')}
+                      </p>
+                    )}
+                    {t.takeProfitLevels.length > 0 ? (
+                      t.takeProfitLevels.map((l, idx) => (
+                        <div key={l.id ?? idx} className="flex items-center justify-between">
+                          <dt className="text-xs uppercase tracking-wide text-gray-500">
+                            TP{idx + 1} • {l.percent}%
+                          </dt>
+                          <dd className="font-semibold">
+                            ${l.price.toFixed(2)}
+                            {l.filledAt && (
+                              <span className="ml-1 text-xs font-normal text-[#46843E]">
+                                filled{l.fillPrice != null ? ` @ $${l.fillPrice.toFixed(2)}` : ''}
+                              </span>
+                            )}
+                          </dd>
+                        </div>
+                      ))
+                    ) : (
+                      <div className="flex items-center justify-between">
+                        <dt className="text-xs uppercase tracking-wide text-gray-500">Take profit</dt>
+                        <dd className="font-semibold">
+                          {t.takeProfitPrice != null ? `$${t.takeProfitPrice.toFixed(2)}` : <span className="text-gray-400">—</span>}
+                        </dd>
+                      </div>
+                    )}
+                    {t.metrics.plannedExitPrice != null && (
+                      <div className="flex items-center justify-between">
+                        <dt className="text-xs uppercase tracking-wide text-gray-500">Exit planned / realized</dt>
+                        <dd className="font-semibold">
+                          ${t.metrics.plannedExitPrice.toFixed(2)}
+                          <span className="text-gray-500">
+                            {' / '}
+                            {t.metrics.realizedExitPrice != null ? `$${t.metrics.realizedExitPrice.toFixed(2)}` : '—'}
+                          </span>
+                          {t.metrics.plannedRMultiple != null && (
+                            <span className="ml-1 text-xs font-normal text-gray-500">(plan {formatR(t.metrics.plannedRMultiple)})</span>
+                          )}
+                        </dd>
+                      </div>
+                    )}
+                    {t.metrics.initialStopLossPrice != null && t.metrics.initialStopLossPrice !== t.stopLossPrice && (
+                      <div className="flex items-center justify-between">
+                        <dt className="text-xs uppercase tracking-wide text-gray-500">Planned stop</dt>
+                        <dd className="font-semibold">${t.metrics.initialStopLossPrice.toFixed(2)}</dd>
+                      </div>
+                    )}
+                    {t.metrics.initialRiskUsd != null && (
+                      <div className="flex items-center justify-between">
+                        <dt className="text-xs uppercase tracking-wide text-gray-500">Risk (1R)</dt>
+                        <dd className="font-semibold">${t.metrics.initialRiskUsd.toFixed(2)}</dd>
+                      </div>
+                    )}
+                    {t.metrics.rMultiple != null && (
+                      <div className="flex items-center justify-between">
+                        <dt className="text-xs uppercase tracking-wide text-gray-500">Result</dt>
+                        <dd className={`font-semibold ${t.metrics.rMultiple >= 0 ? 'text-[#46843E]' : 'text-[#BC3836]'}`}>
+                          {formatR(t.metrics.rMultiple)}
+                        </dd>
+                      </div>
+                    )}
                   </dl>
                 </section>
               </div>
@@ -581,17 +908,40 @@ export default function Home() {
                   <p className="text-sm font-semibold text-gray-700">Sells & exits</p>
                   <div className="mt-2 space-y-2">
                     {t.closes.map((c, idx) => (
-                      <div key={idx} className="flex flex-wrap items-center justify-between gap-2">
+                      <div key={c.id ?? idx} className="flex flex-wrap items-center justify-between gap-2">
                         <div>
                           <p className="font-medium text-gray-900">
                             {c.closeCoinAmount.toFixed(6)} {t.coin}
                             <span className="text-gray-500"> @ ${c.closePrice.toFixed(2)}</span>
                           </p>
-                          <p className="text-[11px] text-gray-500">{new Date(c.closeDate).toLocaleDateString()}</p>
+                          <p className="text-[11px] text-gray-500">
+                            {new Date(c.closeDate).toLocaleDateString()}
+                            {c.id && (
+                              <>
+                                {' • '}
+                                <button
+                                  type="button"
+                                  className="underline-offset-2 hover:underline"
+                                  onClick={() => setLegTarget({ trade: t, kind: 'close', leg: c })}
+                                >
+                                  Edit
+                                </button>
+                                {' • '}
+                                <button
+                                  type="button"
+                                  className="underline-offset-2 hover:underline"
+                                  onClick={() => onDeleteLeg(t, 'close', c.id!)}
+                                >
+                                  Remove
+                                </button>
+                              </>
+                            )}
+                          </p>
                         </div>
                         <div className={`${c.pnlUsd >= 0 ? 'text-[#46843E]' : 'text-[#BC3836]'} font-semibold`}>
                           ${c.pnlUsd.toFixed(2)}
                           <span className="ml-1 text-gray-500">({c.pnlPercent.toFixed(2)}%)</span>
+                          {c.rMultiple != null && <span className="ml-1 text-gray-500">{formatR(c.rMultiple)}</span>}
                         </div>
                       </div>
                     ))}
@@ -608,6 +958,13 @@ export default function Home() {
                   >
                     Edit
                   </button>
+                  <button
+                    type="button"
+                    className="underline-offset-2 hover:underline"
+                    onClick={() => setHistoryTrade(t)}
+                  >
+                    History
+                  </button>
                   {!isClosed && (
                     <>
                       <button
@@ -638,6 +995,13 @@ export default function Home() {
             </article>
           );
         })}
+        {!loadingTrades && nextCursor && (
+          <div className="flex justify-center">
+            <Button variant="secondary" size="sm" onClick={onLoadMoreTrades} disabled={loadingMore}>
+              {loadingMore ? 'Loading…' : 'Load more'}
+            </Button>
+          </div>
+        )}
       </section>
 
       {/* New trade modal */}
@@ -711,7 +1075,7 @@ export default function Home() {
                 </div>
               </div>
 
-              <div className="grid grid-cols-3 gap-3">
+              <div className="grid grid-cols-2 gap-3">
                 <div>
                   <label className="block text-xs font-medium text-gray-600">Leverage (optional)</label>
                   <input
@@ -728,23 +1092,20 @@ export default function Home() {
                   <input
                     type="number"
                     step="0.01"
-                    className="mt-1 w-full rounded-md border border-gray-300 px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-black"
+                    className={inputClass('stopLossPrice')}
                     value={newTradeForm.stopLossPrice}
                     onChange={(e) => setNewTradeForm((p) => ({ ...p, stopLossPrice: e.target.value }))}
                   />
-                </div>
-                <div>
-                  <label className="block text-xs font-medium text-gray-600">Take profit</label>
-                  <input
-                    type="number"
-                    step="0.01"
-                    className="mt-1 w-full rounded-md border border-gray-300 px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-black"
-                    value={newTradeForm.takeProfitPrice}
-                    onChange={(e) => setNewTradeForm((p) => ({ ...p, takeProfitPrice: e.target.value }))}
-                  />
+                  <FieldMessages messages={fieldErrors.stopLossPrice} />
                 </div>
               </div>
 
+              <TakeProfitLadderField
+                rows={newTradeForm.takeProfitLevels}
+                onChange={(rows) => setNewTradeForm((p) => ({ ...p, takeProfitLevels: rows }))}
+                errors={fieldErrors.takeProfitLevels}
+              />
+
               <div className="grid grid-cols-2 gap-3">
                 <div>
                   <label className="block text-xs font-medium text-gray-600">Entry date</label>
@@ -792,6 +1153,14 @@ export default function Home() {
                 />
               </div>
 
+              <TradeLabelsField
+                tags={tags}
+                strategies={strategies}
+                tagIds={newTradeForm.tagIds}
+                strategyId={newTradeForm.strategyId}
+                onChange={(labels) => setNewTradeForm((p) => ({ ...p, ...labels }))}
+              />
+
               <div className="mt-4 flex justify-end gap-2">
                 <Button
                   type="button"
@@ -932,28 +1301,59 @@ export default function Home() {
                   onChange={(e) => setEditComment(e.target.value)}
                 />
               </div>
-              <div className="grid grid-cols-2 gap-3">
+              <TradeLabelsField
+                tags={tags}
+                strategies={strategies}
+                tagIds={editTagIds}
+                strategyId={editStrategyId}
+                onChange={(labels) => {
+                  setEditTagIds(labels.tagIds);
+                  setEditStrategyId(labels.strategyId);
+                }}
+              />
+              <div>
+                <label className="block text-xs font-medium text-gray-600">Stop loss</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  className={inputClass('stopLossPrice')}
+                  value={editStopLoss}
+                  onChange={(e) => setEditStopLoss(e.target.value)}
+                />
+                <FieldMessages messages={fieldErrors.stopLossPrice} />
+              </div>
+              <TakeProfitLadderField
+                rows={editTakeProfitLevels}
+                onChange={setEditTakeProfitLevels}
+                errors={fieldErrors.takeProfitLevels}
+              />
+              {editingTrade?.metrics.initialStopLossPrice != null && (
                 <div>
-                  <label className="block text-xs font-medium text-gray-600">Stop loss</label>
+                  <label className="block text-xs font-medium text-gray-600">Planned stop</label>
                   <input
                     type="number"
                     step="0.01"
-                    className="mt-1 w-full rounded-md border border-gray-300 px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-black"
-                    value={editStopLoss}
-                    onChange={(e) => setEditStopLoss(e.target.value)}
+                    className={inputClass('initialStopLossPrice')}
+                    value={editPlannedStop}
+                    onChange={(e) => setEditPlannedStop(e.target.value)}
                   />
+                  <FieldMessages messages={fieldErrors.initialStopLossPrice} />
+                  <p className="mt-1 text-xs text-gray-500">The stop at entry, used as 1R. Moving the stop loss keeps it.</p>
                 </div>
+              )}
+              {editingTrade?.status === 'active' && (
                 <div>
-                  <label className="block text-xs font-medium text-gray-600">Take profit</label>
+                  <label className="block text-xs font-medium text-gray-600">Manual mark price</label>
                   <input
                     type="number"
-                    step="0.01"
+                    step="any"
                     className="mt-1 w-full rounded-md border border-gray-300 px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-black"
-                    value={editTakeProfit}
-                    onChange={(e) => setEditTakeProfit(e.target.value)}
+                    value={editManualMarkPrice}
+                    onChange={(e) => setEditManualMarkPrice(e.target.value)}
                   />
+                  <p className="mt-1 text-xs text-gray-500">Used for unrealized PnL when no exchange price is available.</p>
                 </div>
-              </div>
+              )}
               <div className="mt-4 flex justify-end gap-2">
                 <Button
                   type="button"
@@ -984,11 +1384,12 @@ export default function Home() {
                   <input
                     type="number"
                     step="0.01"
-                    className="mt-1 w-full rounded-md border border-gray-300 px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-black"
+                    className={inputClass('entryPrice')}
                     value={addSizeEntryPrice}
                     onChange={(e) => setAddSizeEntryPrice(e.target.value)}
                     required
                   />
+                  <FieldMessages messages={fieldErrors.entryPrice} />
                 </div>
                 <div>
                   <label className="block text-xs font-medium text-gray-600">Amount invested ($)</label>
@@ -1051,6 +1452,25 @@ export default function Home() {
               )}
             </p>
             <form onSubmit={onSubmitSell} className="mt-4 space-y-3 text-sm">
+              {sellTrade.takeProfitLevels.some((l) => l.id && !l.filledAt) && (
+                <div>
+                  <label className="block text-xs font-medium text-gray-600">Take-profit level</label>
+                  <select
+                    className="mt-1 w-full rounded-md border border-gray-300 px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-black"
+                    value={sellLevelId}
+                    onChange={(e) => onSelectSellLevel(e.target.value)}
+                  >
+                    <option value="">None</option>
+                    {sellTrade.takeProfitLevels
+                      .filter((l) => l.id && !l.filledAt)
+                      .map((l) => (
+                        <option key={l.id} value={l.id!}>
+                          ${l.price.toFixed(2)} • {l.percent}% of position
+                        </option>
+                      ))}
+                  </select>
+                </div>
+              )}
               <div>
                 <label className="block text-xs font-medium text-gray-600">Sell price</label>
                 <input
@@ -1173,13 +1593,19 @@ export default function Home() {
         </div>
       )}
 
+      {historyTrade && (
+        <TradeHistoryModal trade={historyTrade} onClose={() => setHistoryTrade(null)} onReverted={onTradeReverted} />
+      )}
+
+      {legTarget && <TradeLegModal target={legTarget} onClose={() => setLegTarget(null)} onSaved={onTradeLegSaved} />}
+
       {/* Delete confirmation */}
       {deleteTradeTarget && (
         <div className="fixed inset-0 z-20 flex items-center justify-center bg-black/30">
           <div className="w-full max-w-sm rounded-2xl bg-white p-6 shadow-xl">
-            <h2 className="text-lg font-semibold">Delete trade?</h2>
+            <h2 className="text-lg font-semibold">Move trade to trash?</h2>
             <p className="mt-2 text-sm text-gray-600">
-              This will permanently remove this trade and its PNL from your log. This action cannot be undone.
+              The trade and its PNL are removed from your log. You can restore it from the Trash until it is purged.
             </p>
             <div className="mt-4 flex justify-end gap-2">
               <Button
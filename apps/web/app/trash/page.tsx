@@ -0,0 +1,137 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '../../components/auth-provider';
+import { Button } from '../../components/ui/button';
+import { emptyTrash, getTrash, purgeTrade, restoreTrade, type TrashedTrade } from '../../lib/api';
+
+export default function TrashPage() {
+  const router = useRouter();
+  const { authed, loading: authLoading } = useAuth();
+
+  const [items, setItems] = useState<TrashedTrade[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!authLoading && !authed) router.replace('/login');
+  }, [authLoading, authed, router]);
+
+  useEffect(() => {
+    if (!authed) return;
+    setLoading(true);
+    setError(null);
+    getTrash()
+      .then((trash) => {
+        setItems(trash.items);
+        setRetentionDays(trash.retentionDays);
+      })
+      .catch((e) => setError(e.message || 'Failed to load trash'))
+      .finally(() => setLoading(false));
+  }, [authed]);
+
+  async function onRestore(id: string) {
+    setBusyId(id);
+    setError(null);
+    try {
+      await restoreTrade(id);
+      setItems((prev) => prev.filter((t) => t.id !== id));
+    } catch (err: any) {
+      setError(err.message || 'Failed to restore trade');
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function onPurge(id: string) {
+    if (!window.confirm('Permanently delete this trade? This cannot be undone.')) return;
+    setBusyId(id);
+    setError(null);
+    try {
+      await purgeTrade(id);
+      setItems((prev) => prev.filter((t) => t.id !== id));
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete trade');
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function onEmptyTrash() {
+    if (!window.confirm('Permanently delete every trade in the trash? This cannot be undone.')) return;
+    setBusyId('all');
+    setError(null);
+    try {
+      await emptyTrash();
+      setItems([]);
+    } catch (err: any) {
+      setError(err.message || 'Failed to empty trash');
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  if (!authed) {
+    return null;
+  }
+
+  return (
+    <main className="min-h-screen p-6">
+      <div className="mx-auto w-full max-w-3xl space-y-6">
+        <div className="flex flex-wrap items-end justify-between gap-3">
+          <div>
+            <h1 className="text-2xl font-semibold">Trash</h1>
+            {retentionDays != null && (
+              <p className="text-sm text-gray-500">Deleted trades are purged permanently after {retentionDays} days.</p>
+            )}
+          </div>
+          {items.length > 0 && (
+            <Button type="button" variant="outline" size="sm" onClick={onEmptyTrash} disabled={busyId !== null}>
+              Empty trash
+            </Button>
+          )}
+        </div>
+
+        {error && <p className="text-sm text-[#BC3836]">{error}</p>}
+        {loading && <p className="text-sm text-gray-500">Loading…</p>}
+        {!loading && items.length === 0 && <p className="text-sm text-gray-500">The trash is empty.</p>}
+
+        <div className="space-y-3">
+          {items.map((t) => {
+            const pnl = t.status === 'closed' ? t.metrics.netRealizedPnlUsd : null;
+            return (
+              <article key={t.id} className="rounded-xl border bg-white p-4 shadow-sm">
+                <div className="flex flex-wrap items-start justify-between gap-3">
+                  <div>
+                    <p className="font-semibold text-gray-900">
+                      {t.coin} <span className="text-sm font-normal uppercase text-gray-500">{t.side}</span>
+                      <span className="ml-2 text-xs font-normal text-gray-500">{t.status}</span>
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      Deleted {new Date(t.deletedAt).toLocaleDateString()} • Purged on {new Date(t.purgeAt).toLocaleDateString()}
+                    </p>
+                    {t.comment && <p className="mt-1 text-sm text-gray-600">{t.comment}</p>}
+                  </div>
+                  {pnl != null && (
+                    <p className={`font-semibold ${pnl >= 0 ? 'text-[#46843E]' : 'text-[#BC3836]'}`}>${pnl.toFixed(2)}</p>
+                  )}
+                </div>
+                <div className="mt-3 flex justify-end gap-2">
+                  <Button type="button" size="sm" variant="secondary" onClick={() => onRestore(t.id)} disabled={busyId !== null}>
+                    Restore
+                  </Button>
+                  <Button type="button" size="sm" variant="outline" onClick={() => onPurge(t.id)} disabled={busyId !== null}>
+                    Delete forever
+                  </Button>
+                </div>
+              </article>
+            );
+          })}
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,66 @@
+"use client";
+
+import { Suspense, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import { Button } from "../../components/ui/button";
+import { unsubscribeDigest } from "../../lib/api";
+
+export default function UnsubscribePage() {
+  return (
+    <Suspense
+      fallback={
+        <main className="min-h-screen flex items-center justify-center p-6">
+          <div className="w-full max-w-md rounded-lg border bg-white p-6 shadow-sm">
+            <p className="text-sm text-gray-600">Loading…</p>
+          </div>
+        </main>
+      }
+    >
+      <UnsubscribeForm />
+    </Suspense>
+  );
+}
+
+function UnsubscribeForm() {
+  const params = useSearchParams();
+  const token = params.get("token") || "";
+
+  const [error, setError] = useState<string | null>(token ? null : "Missing unsubscribe token. Please use the link from your email.");
+  const [done, setDone] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  // Unsubscribing takes a click so mail scanners that follow links do not turn digests off
+  async function onUnsubscribe() {
+    setError(null);
+    setSubmitting(true);
+    try {
+      await unsubscribeDigest(token);
+      setDone(true);
+    } catch (e: any) {
+      setError(e.message || "Failed to unsubscribe");
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <main className="min-h-screen flex items-center justify-center p-6">
+      <div className="w-full max-w-md rounded-lg border bg-white p-6 shadow-sm">
+        <h1 className="text-2xl font-semibold">Digest emails</h1>
+        {done ? (
+          <p className="mt-2 text-sm text-green-700">
+            You will no longer receive digest emails. You can turn them back on from the Account page.
+          </p>
+        ) : (
+          <>
+            <p className="mt-1 text-sm text-gray-600">Stop receiving daily and weekly PnL digest emails?</p>
+            {error && <p className="mt-4 text-sm text-[#BC3836]">{error}</p>}
+            <Button className="mt-6 w-full" onClick={onUnsubscribe} disabled={submitting || !token}>
+              {submitting ? "Unsubscribing…" : "Unsubscribe"}
+            </Button>
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
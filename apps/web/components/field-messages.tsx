@@ -0,0 +1,17 @@
+type Props = {
+  messages?: string[];
+};
+
+// Validation messages the API returned for one form input
+export default function FieldMessages({ messages }: Props) {
+  if (!messages || messages.length === 0) return null;
+  return (
+    <>
+      {messages.map((message) => (
+        <p key={message} className="mt-1 text-xs text-[#BC3836]">
+          {message}
+        </p>
+      ))}
+    </>
+  );
+}
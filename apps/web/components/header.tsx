@@ -25,6 +25,13 @@ export default function Header() {
       <div className="mx-auto flex max-w-5xl items-center justify-between px-4 py-3">
         <nav className="flex items-center gap-4">
           <Link href="/" className="font-semibold">Trading Log</Link>
+          {authed && user && (
+            <>
+              <Link href="/catalog" className="text-sm text-gray-600 hover:text-black">Tags &amp; strategies</Link>
+              <Link href="/alerts" className="text-sm text-gray-600 hover:text-black">Alerts</Link>
+              <Link href="/trash" className="text-sm text-gray-600 hover:text-black">Trash</Link>
+            </>
+          )}
         </nav>
         <div className="flex items-center gap-3">
           {authed && user ? (
@@ -0,0 +1,107 @@
+"use client";
+
+import type { TakeProfitLevelInput, Trade } from '../lib/api';
+import FieldMessages from './field-messages';
+
+export type LadderRow = { id?: string; price: string; percent: string; filled?: boolean };
+
+type Props = {
+  rows: LadderRow[];
+  onChange: (rows: LadderRow[]) => void;
+  errors?: string[];
+};
+
+const MAX_LEVELS = 10;
+
+/** Form rows for a trade's ladder; a single legacy target becomes one level for the whole position. */
+export function ladderRows(trade: Trade): LadderRow[] {
+  if (trade.takeProfitLevels.length > 0) {
+    return trade.takeProfitLevels.map((l) => ({
+      id: l.id ?? undefined,
+      price: String(l.price),
+      percent: String(l.percent),
+      filled: l.filledAt != null,
+    }));
+  }
+  return trade.takeProfitPrice != null ? [{ price: String(trade.takeProfitPrice), percent: '100' }] : [];
+}
+
+// Rows without a price are dropped; the API orders the rest by distance from entry
+export function toLevelInputs(rows: LadderRow[]): TakeProfitLevelInput[] {
+  return rows
+    .filter((r) => r.price.trim() !== '')
+    .map((r) => ({ id: r.id, price: parseFloat(r.price), percent: parseFloat(r.percent) || 0 }));
+}
+
+// Take-profit ladder editor: one row per target with the share of the position to sell there
+export default function TakeProfitLadderField({ rows, onChange, errors }: Props) {
+  const totalPercent = rows.reduce((sum, r) => sum + (parseFloat(r.percent) || 0), 0);
+  const inputClass = `w-full rounded-md border px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-black ${
+    errors && errors.length > 0 ? 'border-[#BC3836]' : 'border-gray-300'
+  }`;
+
+  function update(index: number, patch: Partial<LadderRow>) {
+    onChange(rows.map((r, i) => (i === index ? { ...r, ...patch } : r)));
+  }
+
+  function addLevel() {
+    const remaining = Math.max(100 - totalPercent, 0);
+    onChange([...rows, { price: '', percent: remaining > 0 ? String(remaining) : '' }]);
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between">
+        <p className="block text-xs font-medium text-gray-600">Take profit</p>
+        {rows.length > 0 && (
+          <span className={`text-xs ${totalPercent > 100 ? 'text-[#BC3836]' : 'text-gray-500'}`}>
+            {totalPercent.toFixed(0)}% of position
+          </span>
+        )}
+      </div>
+      <div className="mt-1 space-y-2">
+        {rows.map((row, index) => (
+          <div key={row.id ?? `new-${index}`} className="flex items-center gap-2">
+            <input
+              type="number"
+              step="0.01"
+              placeholder="Price"
+              className={inputClass}
+              value={row.price}
+              disabled={row.filled}
+              onChange={(e) => update(index, { price: e.target.value })}
+            />
+            <input
+              type="number"
+              step="1"
+              min="1"
+              max="100"
+              placeholder="%"
+              className={`${inputClass} max-w-[5.5rem]`}
+              value={row.percent}
+              disabled={row.filled}
+              onChange={(e) => update(index, { percent: e.target.value })}
+            />
+            {row.filled ? (
+              <span className="w-14 text-xs text-[#46843E]">Filled</span>
+            ) : (
+              <button
+                type="button"
+                className="w-14 text-xs text-[#BC3836] underline-offset-2 hover:underline"
+                onClick={() => onChange(rows.filter((_, i) => i !== index))}
+              >
+                Remove
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+      {rows.length < MAX_LEVELS && (
+        <button type="button" className="mt-2 text-xs font-medium underline-offset-2 hover:underline" onClick={addLevel}>
+          + Add level
+        </button>
+      )}
+      <FieldMessages messages={errors} />
+    </div>
+  );
+}
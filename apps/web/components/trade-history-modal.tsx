@@ -0,0 +1,121 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { Button } from './ui/button';
+import { getTradeHistory, revertTrade, type Trade, type TradeRevision, type TradeRevisionAction } from '../lib/api';
+
+const ACTION_LABELS: Record<TradeRevisionAction, string> = {
+  create: 'Created',
+  import: 'Imported',
+  edit: 'Edited',
+  'add-size': 'Added size',
+  sell: 'Sold',
+  funding: 'Funding recorded',
+  'edit-entry': 'Edited entry',
+  'delete-entry': 'Removed entry',
+  'edit-close': 'Edited close',
+  'delete-close': 'Removed close',
+  trash: 'Moved to trash',
+  restore: 'Restored from trash',
+  revert: 'Reverted',
+  'cost-basis': 'Re-booked (cost basis)',
+  'exchange-sync': 'Exchange sync',
+  'backup-restore': 'Restored from backup',
+};
+
+// Changes listed per revision before collapsing the rest
+const MAX_CHANGES_SHOWN = 8;
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'number') return Number.isInteger(value) ? String(value) : value.toFixed(6).replace(/0+$/, '');
+  return String(value);
+}
+
+type Props = {
+  trade: Trade;
+  onClose: () => void;
+  onReverted: (trade: Trade) => void;
+};
+
+export default function TradeHistoryModal({ trade, onClose, onReverted }: Props) {
+  const [revisions, setRevisions] = useState<TradeRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [reverting, setReverting] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setLoading(true);
+    getTradeHistory(trade.id)
+      .then((history) => setRevisions(history.items))
+      .catch((e) => setError(e.message || 'Failed to load history'))
+      .finally(() => setLoading(false));
+  }, [trade.id]);
+
+  async function onRevert(revision: TradeRevision) {
+    if (!window.confirm('Revert the trade to its state after this change?')) return;
+    setReverting(revision.id);
+    setError(null);
+    try {
+      onReverted(await revertTrade(trade.id, revision.id));
+    } catch (err: any) {
+      setError(err.message || 'Failed to revert trade');
+    } finally {
+      setReverting(null);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-20 flex items-center justify-center bg-black/30">
+      <div className="flex max-h-[85vh] w-full max-w-lg flex-col rounded-2xl bg-white p-6 shadow-xl">
+        <h2 className="text-lg font-semibold">History • {trade.coin}</h2>
+        {error && <p className="mt-2 text-sm text-[#BC3836]">{error}</p>}
+        <div className="mt-4 flex-1 space-y-3 overflow-y-auto text-sm">
+          {loading && <p className="text-gray-500">Loading…</p>}
+          {!loading && revisions.length === 0 && <p className="text-gray-500">No recorded changes yet.</p>}
+          {revisions.map((revision, index) => (
+            <div key={revision.id} className="rounded-xl border border-gray-100 p-3">
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  <p className="font-medium text-gray-900">{ACTION_LABELS[revision.action] ?? revision.action}</p>
+                  <p className="text-[11px] text-gray-500">
+                    {new Date(revision.createdAt).toLocaleString()}
+                    {revision.route ? ` • ${revision.route}` : ''}
+                  </p>
+                </div>
+                {index > 0 && revision.action !== 'trash' && (
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="secondary"
+                    onClick={() => onRevert(revision)}
+                    disabled={reverting !== null}
+                  >
+                    {reverting === revision.id ? 'Reverting…' : 'Revert to this'}
+                  </Button>
+                )}
+              </div>
+              {revision.changes.length > 0 && (
+                <ul className="mt-2 space-y-0.5 font-mono text-[11px] text-gray-600">
+                  {revision.changes.slice(0, MAX_CHANGES_SHOWN).map((change) => (
+                    <li key={change.path}>
+                      {change.path}: {formatValue(change.before)} → {formatValue(change.after)}
+                    </li>
+                  ))}
+                  {revision.changes.length > MAX_CHANGES_SHOWN && (
+                    <li className="text-gray-400">+{revision.changes.length - MAX_CHANGES_SHOWN} more</li>
+                  )}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+        <div className="mt-4 flex justify-end">
+          <Button type="button" variant="secondary" size="sm" onClick={onClose}>
+            Close
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
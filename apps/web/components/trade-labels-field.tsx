@@ -0,0 +1,64 @@
+"use client";
+
+import type { Strategy, Tag } from '../lib/api';
+
+type Props = {
+  tags: Tag[];
+  strategies: Strategy[];
+  tagIds: string[];
+  strategyId: string;
+  onChange: (value: { tagIds: string[]; strategyId: string }) => void;
+};
+
+// Strategy select and tag toggles for the trade forms; empty strategyId means none
+export default function TradeLabelsField({ tags, strategies, tagIds, strategyId, onChange }: Props) {
+  if (tags.length === 0 && strategies.length === 0) return null;
+
+  function toggleTag(id: string) {
+    onChange({ strategyId, tagIds: tagIds.includes(id) ? tagIds.filter((t) => t !== id) : [...tagIds, id] });
+  }
+
+  return (
+    <div className="space-y-2">
+      {strategies.length > 0 && (
+        <div>
+          <label className="block text-xs font-medium text-gray-600">Strategy</label>
+          <select
+            className="mt-1 w-full rounded-md border border-gray-300 px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-black"
+            value={strategyId}
+            onChange={(e) => onChange({ tagIds, strategyId: e.target.value })}
+          >
+            <option value="">None</option>
+            {strategies.map((s) => (
+              <option key={s.id} value={s.id}>
+                {s.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+      {tags.length > 0 && (
+        <div>
+          <p className="block text-xs font-medium text-gray-600">Tags</p>
+          <div className="mt-1 flex flex-wrap gap-1.5">
+            {tags.map((tag) => {
+              const selected = tagIds.includes(tag.id);
+              return (
+                <button
+                  key={tag.id}
+                  type="button"
+                  onClick={() => toggleTag(tag.id)}
+                  className={`rounded-full border px-2 py-0.5 text-xs ${
+                    selected ? 'border-black bg-black text-white' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {tag.name}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
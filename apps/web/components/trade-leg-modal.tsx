@@ -0,0 +1,121 @@
+"use client";
+
+import { useState } from 'react';
+import { Button } from './ui/button';
+import { editTradeClose, editTradeEntry, type Trade, type TradeClose, type TradeEntry } from '../lib/api';
+
+export type TradeLegTarget =
+  | { trade: Trade; kind: 'entry'; leg: TradeEntry }
+  | { trade: Trade; kind: 'close'; leg: TradeClose };
+
+const inputClass =
+  'mt-1 w-full rounded-md border border-gray-300 px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-black';
+
+const toDateInput = (value: string) => new Date(value).toISOString().slice(0, 10);
+const optionalNumber = (value: string) => (value.trim() === '' ? null : parseFloat(value));
+
+type Props = {
+  target: TradeLegTarget;
+  onClose: () => void;
+  onSaved: (trade: Trade) => void;
+};
+
+export default function TradeLegModal({ target, onClose, onSaved }: Props) {
+  const { trade } = target;
+  const [price, setPrice] = useState(String(target.kind === 'entry' ? target.leg.entryPrice : target.leg.closePrice));
+  const [amount, setAmount] = useState(
+    String(target.kind === 'entry' ? target.leg.amountInvestedUsd : target.leg.closeCoinAmount),
+  );
+  const [leverage, setLeverage] = useState(target.kind === 'entry' && target.leg.leverage != null ? String(target.leg.leverage) : '');
+  const [date, setDate] = useState(toDateInput(target.kind === 'entry' ? target.leg.entryDate : target.leg.closeDate));
+  const [fee, setFee] = useState(target.leg.feeUsd != null ? String(target.leg.feeUsd) : '');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function onSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!target.leg.id) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const updated =
+        target.kind === 'entry'
+          ? await editTradeEntry(trade.id, target.leg.id, {
+              entryPrice: parseFloat(price),
+              amountInvestedUsd: parseFloat(amount),
+              leverage: optionalNumber(leverage),
+              entryDate: new Date(date).toISOString(),
+              feeUsd: optionalNumber(fee),
+            })
+          : await editTradeClose(trade.id, target.leg.id, {
+              closePrice: parseFloat(price),
+              closeCoinAmount: parseFloat(amount),
+              closeDate: new Date(date).toISOString(),
+              feeUsd: optionalNumber(fee),
+            });
+      onSaved(updated);
+    } catch (err: any) {
+      setError(err.message || 'Failed to update trade');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-20 flex items-center justify-center bg-black/30">
+      <div className="w-full max-w-md rounded-2xl bg-white p-6 shadow-xl">
+        <h2 className="text-lg font-semibold">
+          Edit {target.kind === 'entry' ? 'entry' : 'close'} • {trade.coin}
+        </h2>
+        {error && <p className="mt-2 text-sm text-[#BC3836]">{error}</p>}
+        <form onSubmit={onSubmit} className="mt-4 space-y-3 text-sm">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-600">
+                {target.kind === 'entry' ? 'Entry price' : 'Close price'}
+              </label>
+              <input type="number" step="any" className={inputClass} value={price} onChange={(e) => setPrice(e.target.value)} required />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600">
+                {target.kind === 'entry' ? 'Amount invested ($)' : `Amount (${trade.coin})`}
+              </label>
+              <input type="number" step="any" className={inputClass} value={amount} onChange={(e) => setAmount(e.target.value)} required />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-600">Date</label>
+              <input type="date" className={inputClass} value={date} onChange={(e) => setDate(e.target.value)} required />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600">Fee ($, optional)</label>
+              <input type="number" step="any" min="0" className={inputClass} value={fee} onChange={(e) => setFee(e.target.value)} />
+            </div>
+          </div>
+          {target.kind === 'entry' && (
+            <div>
+              <label className="block text-xs font-medium text-gray-600">Leverage (optional)</label>
+              <input
+                type="number"
+                step="0.1"
+                min="1"
+                className={inputClass}
+                value={leverage}
+                onChange={(e) => setLeverage(e.target.value)}
+              />
+            </div>
+          )}
+          <div className="mt-4 flex justify-end gap-2">
+            <Button type="button" variant="secondary" size="sm" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" size="sm" disabled={saving}>
+              {saving ? 'Saving…' : 'Save'}
+            </Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
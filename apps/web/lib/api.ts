@@ -32,6 +32,15 @@ export function isAuthed() {
   return typeof window !== 'undefined' && !!tokens.access;
 }
 
+export type FieldErrors = Record<string, string[]>;
+
+// Failed request; validation failures keep the per-field messages so forms can highlight inputs
+export class ApiError extends Error {
+  constructor(message: string, readonly status: number, readonly fieldErrors: FieldErrors = {}) {
+    super(message);
+  }
+}
+
 export async function apiFetch<T>(path: string, init: RequestInit = {}): Promise<T> {
   const headers = new Headers(init.headers);
   headers.set('Content-Type', 'application/json');
@@ -54,7 +63,13 @@ export async function apiFetch<T>(path: string, init: RequestInit = {}): Promise
     const text = await res.text();
     let body: any;
     try { body = JSON.parse(text); } catch { body = { error: text || res.statusText }; }
-    throw new Error(body.error?.message || body.error || `HTTP ${res.status}`);
+    const error = body.error;
+    if (error && typeof error === 'object' && 'fieldErrors' in error) {
+      const fieldErrors: FieldErrors = error.fieldErrors ?? {};
+      const messages = [...(error.formErrors ?? []), ...Object.values(fieldErrors).flat()];
+      throw new ApiError(messages.join(' ') || `HTTP ${res.status}`, res.status, fieldErrors);
+    }
+    throw new ApiError(error?.message || error || `HTTP ${res.status}`, res.status);
   }
   return res.json();
 }
@@ -85,19 +100,50 @@ export type TradeSide = 'long' | 'short';
 export type TradeStatus = 'active' | 'closed';
 
 export type TradeEntry = {
+  id: string | null;
   entryPrice: number;
   amountInvestedUsd: number;
   leverage: number | null;
   entryDate: string;
+  feeUsd: number | null;
 };
 
 export type TradeClose = {
+  id: string | null;
   closePrice: number;
   closeCoinAmount: number;
   closeUsdAmount: number;
   closeDate: string;
   pnlUsd: number;
   pnlPercent: number;
+  rMultiple: number | null;
+  feeUsd: number | null;
+};
+
+export type TradeTakeProfitLevel = {
+  id: string | null;
+  price: number;
+  percent: number;
+  filledAt: string | null;
+  closeId: string | null;
+  fillPrice: number | null;
+};
+
+// Ladder level as sent by the forms; `id` keeps an existing level's fill
+export type TakeProfitLevelInput = {
+  id?: string;
+  price: number;
+  percent: number;
+};
+
+export type TradeStopLossChange = {
+  price: number | null;
+  changedAt: string;
+};
+
+export type TradeFundingPayment = {
+  amountUsd: number;
+  paidAt: string;
 };
 
 export type TradeMetrics = {
@@ -111,20 +157,50 @@ export type TradeMetrics = {
   debtUsd: number | null;
   realizedPnlUsd: number;
   realizedPnlPercent: number | null;
+  totalFeesUsd: number;
+  totalFundingUsd: number;
+  netRealizedPnlUsd: number;
+  netRealizedPnlPercent: number | null;
   liquidationPrice: number | null;
+  markPrice: number | null;
+  unrealizedPnlUsd: number | null;
+  unrealizedPnlPercent: number | null;
+  liquidationDistancePercent: number | null;
+  initialStopLossPrice: number | null;
+  initialRiskUsd: number | null;
+  rMultiple: number | null;
+  plannedExitPrice: number | null;
+  plannedExitPercent: number;
+  filledExitPercent: number;
+  realizedExitPrice: number | null;
+  realizedExitPercent: number | null;
+  plannedRewardUsd: number | null;
+  plannedRMultiple: number | null;
 };
 
+export type MarkPriceSource = 'asterdex' | 'manual';
+
 export type Trade = {
   id: string;
   coin: string;
   side: TradeSide;
   status: TradeStatus;
   comment: string | null;
+  tagIds: string[];
+  strategyId: string | null;
   stopLossPrice: number | null;
   takeProfitPrice: number | null;
+  takeProfitLevels: TradeTakeProfitLevel[];
+  stopLossHistory: TradeStopLossChange[];
+  manualMarkPrice: number | null;
+  markPriceSource: MarkPriceSource | null;
   entries: TradeEntry[];
   closes: TradeClose[];
+  fundingPayments: TradeFundingPayment[];
   metrics: TradeMetrics;
+  // Target problems that do not block saving, such as a stop past liquidation
+  warnings: Partial<Record<'stopLossPrice' | 'takeProfitPrice' | 'takeProfitLevels' | 'initialStopLossPrice', string[]>>;
+  deletedAt: string | null;
   createdAt: string;
   updatedAt: string;
 };
@@ -132,6 +208,9 @@ export type Trade = {
 export type TradesSummary = {
   totalPnlUsd: number;
   totalPnlPercent: number | null;
+  totalGrossPnlUsd: number;
+  totalFeesUsd: number;
+  totalFundingUsd: number;
   totalInvestedUsd: number;
   totalTrades: number;
   winRate: number | null;
@@ -198,12 +277,32 @@ export async function updateMe(payload: { name?: string }): Promise<AuthUser> {
   return apiFetch<AuthUser>('/auth/me', { method: 'PATCH', body: JSON.stringify(payload) });
 }
 
-export async function deleteAccount(): Promise<{ ok: true }> {
+export type DeleteAccountResult = {
+  ok: true;
+  deleted: {
+    trades: number;
+    tradeRevisions: number;
+    alerts: number;
+    tags: number;
+    strategies: number;
+    exchangeConnections: number;
+    exchangeSyncCursors: number;
+  };
+  exportEmailed: boolean;
+};
+
+export async function deleteAccount(payload: { password?: string; emailExport?: boolean } = {}): Promise<DeleteAccountResult> {
   const headers = new Headers();
   headers.set('Content-Type', 'application/json');
   const token = tokens.access;
   if (token) headers.set('Authorization', `Bearer ${token}`);
-  const res = await fetch(`${API_URL}/auth/me`, { method: 'DELETE', headers, cache: 'no-store' });
+  const res = await fetch(`${API_URL}/auth/me`, {
+    method: 'DELETE',
+    headers,
+    body: JSON.stringify(payload),
+    cache: 'no-store',
+    credentials: 'include',
+  });
   if (!res.ok) {
     const text = await res.text();
     let body: any;
@@ -213,16 +312,307 @@ export async function deleteAccount(): Promise<{ ok: true }> {
   return res.json();
 }
 
+// Settings API
+export type CostBasisMethod = 'average' | 'fifo' | 'lifo';
+
+export type DigestFrequency = 'off' | 'daily' | 'weekly';
+
+export type UserSettings = {
+  costBasisMethod: CostBasisMethod;
+  alertEmails: boolean;
+  // Percent of mark price; null when liquidation alerts are off
+  liquidationAlertPercent: number | null;
+  digestFrequency: DigestFrequency;
+  // IANA time zone the digest period and send time are based on
+  timezone: string;
+};
+
+export async function getSettings(): Promise<UserSettings> {
+  return apiFetch<UserSettings>('/me/settings');
+}
+
+export async function updateSettings(
+  payload: Partial<UserSettings>,
+): Promise<UserSettings & { rebooked: number; skipped: number }> {
+  return apiFetch<UserSettings & { rebooked: number; skipped: number }>('/me/settings', {
+    method: 'PATCH',
+    body: JSON.stringify(payload),
+  });
+}
+
+// Turns digest emails off with the token from the email's unsubscribe link; needs no session
+export async function unsubscribeDigest(token: string): Promise<{ ok: true }> {
+  return apiFetch<{ ok: true }>('/digest/unsubscribe', { method: 'POST', body: JSON.stringify({ token }) });
+}
+
+// Alerts API
+export type AlertType = 'stop-loss' | 'take-profit' | 'liquidation';
+
+export type Alert = {
+  id: string;
+  tradeId: string;
+  type: AlertType;
+  coin: string;
+  side: TradeSide;
+  triggerPrice: number;
+  markPrice: number;
+  thresholdPercent?: number;
+  distancePercent?: number;
+  message: string;
+  emailedAt?: string;
+  emailError?: string;
+  readAt?: string;
+  createdAt: string;
+};
+
+export type AlertPage = {
+  items: Alert[];
+  unread: number;
+};
+
+export async function getAlerts(params: { unread?: boolean; limit?: number } = {}): Promise<AlertPage> {
+  return apiFetch<AlertPage>(`/alerts${toSearchParams({ unread: params.unread ? 'true' : undefined, limit: params.limit })}`);
+}
+
+export async function markAlertRead(id: string): Promise<Alert> {
+  return apiFetch<Alert>(`/alerts/${id}/read`, { method: 'POST', body: JSON.stringify({}) });
+}
+
+export async function markAllAlertsRead(): Promise<{ marked: number }> {
+  return apiFetch<{ marked: number }>('/alerts/read-all', { method: 'POST', body: JSON.stringify({}) });
+}
+
+// Backup API
+export type RestoreMode = 'merge' | 'replace';
+
+export type RestoreResult = {
+  mode: RestoreMode;
+  restored: { trades: number; revisions: number; alerts: number; tags: number; strategies: number };
+  skipped: { trades: number };
+  removed: { trades: number };
+};
+
+export async function downloadBackup(): Promise<void> {
+  await downloadFile('/me/backup', `journal-backup-${new Date().toISOString().slice(0, 10)}.json`);
+}
+
+export async function restoreBackup(archive: unknown, mode: RestoreMode): Promise<RestoreResult> {
+  return apiFetch<RestoreResult>('/me/restore', { method: 'POST', body: JSON.stringify({ archive, mode }) });
+}
+
 // Trades API
-export async function getTrades(status: TradeStatus): Promise<Trade[]> {
-  const query = status ? `?status=${encodeURIComponent(status)}` : '';
-  return apiFetch<Trade[]>(`/trades${query}`);
+export type TradeListParams = {
+  status?: TradeStatus;
+  coin?: string;
+  side?: TradeSide;
+  source?: string;
+  exchange?: string;
+  entryFrom?: string;
+  entryTo?: string;
+  closeFrom?: string;
+  closeTo?: string;
+  pnlMin?: number;
+  pnlMax?: number;
+  leverageMin?: number;
+  leverageMax?: number;
+  // Comma-separated tag ids; matches trades carrying any of them
+  tag?: string;
+  // Comma-separated strategy ids, or `none` for trades without a strategy
+  strategy?: string;
+  q?: string;
+  sort?: 'createdAt' | 'entryDate' | 'closeDate' | 'pnl' | 'size';
+  order?: 'asc' | 'desc';
+  limit?: number;
+  cursor?: string;
+};
+
+export type TradePage = {
+  items: Trade[];
+  nextCursor: string | null;
+};
+
+function toSearchParams(params: Record<string, string | number | undefined>) {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== '') search.set(key, String(value));
+  }
+  const query = search.toString();
+  return query ? `?${query}` : '';
+}
+
+export async function getTrades(params: TradeListParams = {}): Promise<TradePage> {
+  return apiFetch<TradePage>(`/trades${toSearchParams(params)}`);
+}
+
+export type TradeExportDataset = 'trades' | 'entries' | 'closes';
+
+/** Fetches an authenticated attachment and hands it to the browser as a download. */
+async function downloadFile(path: string, filename: string): Promise<void> {
+  const headers = new Headers();
+  const token = tokens.access;
+  if (token) headers.set('Authorization', `Bearer ${token}`);
+  const res = await fetch(`${API_URL}${path}`, { headers, cache: 'no-store', credentials: 'include' });
+  if (!res.ok) {
+    const text = await res.text();
+    let body: any;
+    try { body = JSON.parse(text); } catch { body = { error: text || res.statusText }; }
+    throw new Error(body.error?.message || body.error || `HTTP ${res.status}`);
+  }
+  const blob = await res.blob();
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+export async function downloadTradesCsv(
+  dataset: TradeExportDataset,
+  filters: Omit<TradeListParams, 'sort' | 'order' | 'limit' | 'cursor'> = {},
+): Promise<void> {
+  const query = toSearchParams({ ...filters, format: 'csv', dataset });
+  await downloadFile(`/trades/export${query}`, `${dataset}-${new Date().toISOString().slice(0, 10)}.csv`);
+}
+
+export type RealizedGainsParams = {
+  from?: string;
+  to?: string;
+  coin?: string;
+  method?: CostBasisMethod;
+};
+
+export type RealizedGainRow = {
+  tradeId: string;
+  coin: string;
+  side: TradeSide;
+  entryId: string | null;
+  closeId: string | null;
+  acquiredAt: string;
+  disposedAt: string;
+  quantity: number;
+  proceedsUsd: number;
+  costUsd: number;
+  feesUsd: number;
+  gainUsd: number;
+};
+
+export type RealizedGainsReport = {
+  method: CostBasisMethod;
+  from: string | null;
+  to: string | null;
+  rows: RealizedGainRow[];
+  totals: { proceedsUsd: number; costUsd: number; feesUsd: number; gainUsd: number };
+  skipped: Array<{ tradeId: string; error: string }>;
+};
+
+export async function getRealizedGains(params: RealizedGainsParams = {}): Promise<RealizedGainsReport> {
+  return apiFetch<RealizedGainsReport>(`/trades/realized-gains${toSearchParams(params)}`);
+}
+
+export async function downloadRealizedGainsCsv(params: RealizedGainsParams = {}): Promise<void> {
+  const query = toSearchParams({ ...params, format: 'csv' });
+  await downloadFile(`/trades/realized-gains${query}`, `realized-gains-${new Date().toISOString().slice(0, 10)}.csv`);
 }
 
 export async function getTradesSummary(): Promise<TradesSummary> {
   return apiFetch<TradesSummary>('/trades/summary');
 }
 
+export type EquityCurvePoint = {
+  period: string;
+  pnlUsd: number;
+  cumulativePnlUsd: number;
+  peakPnlUsd: number;
+  drawdownUsd: number;
+  drawdownPercent: number | null;
+};
+
+export type EquityCurve = {
+  interval: 'day' | 'week';
+  startingBalanceUsd: number;
+  points: EquityCurvePoint[];
+  totalPnlUsd: number;
+  maxDrawdownUsd: number;
+  maxDrawdownPercent: number | null;
+  longestDrawdown: {
+    start: string;
+    end: string;
+    durationMs: number;
+    durationDays: number;
+    recovered: boolean;
+  } | null;
+};
+
+export async function getEquityCurve(params: {
+  interval?: 'day' | 'week';
+  from?: string;
+  to?: string;
+  coin?: string;
+  startingBalanceUsd?: number;
+} = {}): Promise<EquityCurve> {
+  return apiFetch<EquityCurve>(`/trades/equity-curve${toSearchParams(params)}`);
+}
+
+export type PerformanceStats = {
+  trades: number;
+  wins: number;
+  losses: number;
+  winRate: number | null;
+  netPnlUsd: number;
+  grossProfitUsd: number;
+  grossLossUsd: number;
+  profitFactor: number | null;
+  expectancyUsd: number | null;
+  averageWinUsd: number | null;
+  averageLossUsd: number | null;
+  winLossRatio: number | null;
+  largestWinUsd: number | null;
+  largestLossUsd: number | null;
+  rTrades: number;
+  averageR: number | null;
+  averageWinR: number | null;
+  averageLossR: number | null;
+  expectancyR: number | null;
+};
+
+export type PerformanceBreakdown = Array<PerformanceStats & { key: string }>;
+
+export type LabelledBreakdown = Array<PerformanceStats & { key: string; label: string }>;
+
+export type TradeAnalytics = PerformanceStats & {
+  longestWinStreak: number;
+  longestLossStreak: number;
+  currentStreak: { type: 'win' | 'loss'; length: number } | null;
+  averageHoldingTimeMs: number | null;
+  averageHoldingTimeHours: number | null;
+  sharpeRatio: number | null;
+  sortinoRatio: number | null;
+  tradingDays: number;
+  capitalUsd: number;
+  rDistribution: Array<{ bucket: string; trades: number }>;
+  breakdowns: {
+    coin: PerformanceBreakdown;
+    side: PerformanceBreakdown;
+    leverage: PerformanceBreakdown;
+    weekday: PerformanceBreakdown;
+    entryHour: PerformanceBreakdown;
+    strategy: LabelledBreakdown;
+    tag: LabelledBreakdown;
+  };
+};
+
+export async function getTradeAnalytics(params: {
+  from?: string;
+  to?: string;
+  coin?: string;
+  capitalUsd?: number;
+} = {}): Promise<TradeAnalytics> {
+  return apiFetch<TradeAnalytics>(`/trades/analytics${toSearchParams(params)}`);
+}
+
 export async function createActiveTrade(payload: {
   coin: string;
   side: TradeSide;
@@ -231,8 +621,12 @@ export async function createActiveTrade(payload: {
   leverage?: number;
   stopLossPrice?: number;
   takeProfitPrice?: number;
+  takeProfitLevels?: TakeProfitLevelInput[];
   entryDate?: string;
+  entryFeeUsd?: number;
   comment?: string;
+  tagIds?: string[];
+  strategyId?: string;
 }): Promise<Trade> {
   return apiFetch<Trade>('/trades/active', { method: 'POST', body: JSON.stringify(payload) });
 }
@@ -245,18 +639,27 @@ export async function createClosedTrade(payload: {
   leverage?: number;
   stopLossPrice?: number;
   takeProfitPrice?: number;
+  takeProfitLevels?: TakeProfitLevelInput[];
   entryDate?: string;
   comment?: string;
+  tagIds?: string[];
+  strategyId?: string;
   exitPrice: number;
   exitDate?: string;
+  entryFeeUsd?: number;
+  exitFeeUsd?: number;
 }): Promise<Trade> {
   return apiFetch<Trade>('/trades/closed', { method: 'POST', body: JSON.stringify(payload) });
 }
 
 export async function editTrade(id: string, payload: {
   comment?: string | null;
+  tagIds?: string[];
+  strategyId?: string | null;
   stopLossPrice?: number | null;
   takeProfitPrice?: number | null;
+  takeProfitLevels?: TakeProfitLevelInput[];
+  initialStopLossPrice?: number;
   coin?: string;
   side?: TradeSide;
   entryPrice?: number;
@@ -265,6 +668,9 @@ export async function editTrade(id: string, payload: {
   entryDate?: string;
   exitPrice?: number;
   exitDate?: string;
+  entryFeeUsd?: number | null;
+  exitFeeUsd?: number | null;
+  manualMarkPrice?: number | null;
 }): Promise<Trade> {
   return apiFetch<Trade>(`/trades/${id}`, { method: 'PATCH', body: JSON.stringify(payload) });
 }
@@ -274,6 +680,7 @@ export async function addTradeSize(id: string, payload: {
   amountInvestedUsd: number;
   leverage?: number;
   entryDate?: string;
+  feeUsd?: number;
 }): Promise<Trade> {
   return apiFetch<Trade>(`/trades/${id}/add-size`, { method: 'POST', body: JSON.stringify(payload) });
 }
@@ -281,17 +688,241 @@ export async function addTradeSize(id: string, payload: {
 export async function sellTradePosition(id: string, payload: {
   closePrice: number;
   closeDate?: string;
+  feeUsd?: number;
   amountCoin?: number;
   amountUsd?: number;
   percentage?: number;
+  takeProfitLevelId?: string;
 }): Promise<Trade> {
   return apiFetch<Trade>(`/trades/${id}/sell`, { method: 'POST', body: JSON.stringify(payload) });
 }
 
+export async function addTradeFunding(id: string, payload: {
+  amountUsd: number;
+  paidAt?: string;
+}): Promise<Trade> {
+  return apiFetch<Trade>(`/trades/${id}/funding`, { method: 'POST', body: JSON.stringify(payload) });
+}
+
+export async function editTradeEntry(id: string, entryId: string, payload: {
+  entryPrice?: number;
+  amountInvestedUsd?: number;
+  leverage?: number | null;
+  entryDate?: string;
+  feeUsd?: number | null;
+}): Promise<Trade> {
+  return apiFetch<Trade>(`/trades/${id}/entries/${entryId}`, { method: 'PATCH', body: JSON.stringify(payload) });
+}
+
+export async function deleteTradeEntry(id: string, entryId: string): Promise<Trade> {
+  return apiFetch<Trade>(`/trades/${id}/entries/${entryId}`, { method: 'DELETE', body: JSON.stringify({}) });
+}
+
+export async function editTradeClose(id: string, closeId: string, payload: {
+  closePrice?: number;
+  closeCoinAmount?: number;
+  closeDate?: string;
+  feeUsd?: number | null;
+}): Promise<Trade> {
+  return apiFetch<Trade>(`/trades/${id}/closes/${closeId}`, { method: 'PATCH', body: JSON.stringify(payload) });
+}
+
+export async function deleteTradeClose(id: string, closeId: string): Promise<Trade> {
+  return apiFetch<Trade>(`/trades/${id}/closes/${closeId}`, { method: 'DELETE', body: JSON.stringify({}) });
+}
+
+export type TradeImportField =
+  | 'coin'
+  | 'side'
+  | 'entryPrice'
+  | 'amountInvestedUsd'
+  | 'leverage'
+  | 'entryDate'
+  | 'exitPrice'
+  | 'exitDate'
+  | 'stopLossPrice'
+  | 'takeProfitPrice'
+  | 'entryFeeUsd'
+  | 'exitFeeUsd'
+  | 'comment';
+
+export type TradeImportRow =
+  | {
+      line: number;
+      valid: true;
+      trade: {
+        coin: string;
+        side: TradeSide;
+        status: TradeStatus;
+        entryPrice: number;
+        amountInvestedUsd: number;
+        leverage: number | null;
+        entryDate: string;
+        exitPrice: number | null;
+        exitDate: string | null;
+        pnlUsd: number | null;
+      };
+    }
+  | {
+      line: number;
+      valid: false;
+      errors: { formErrors: string[]; fieldErrors: Record<string, string[]> };
+    };
+
+export type TradeImportResult = {
+  dryRun: boolean;
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  imported: number;
+  rows: TradeImportRow[];
+};
+
+export type TradeHistoryFormat = 'binance-futures' | 'bybit' | 'asterdex';
+
+export type TradeHistoryImportResult = TradeImportResult & {
+  format: TradeHistoryFormat;
+  duplicateFills: number;
+  warnings: { line: number; message: string }[];
+  trades: Trade[];
+};
+
+export async function importTradesCsv(payload: {
+  csv: string;
+  mapping: Partial<Record<TradeImportField, string>>;
+  delimiter?: string;
+  dryRun?: boolean;
+}): Promise<TradeImportResult> {
+  return apiFetch<TradeImportResult>('/trades/import', {
+    method: 'POST',
+    body: JSON.stringify({ format: 'csv', ...payload }),
+  });
+}
+
+// Imports a trade-history export file downloaded from an exchange
+export async function importTradeHistoryFile(payload: {
+  format: TradeHistoryFormat;
+  csv: string;
+  leverage?: number;
+  dryRun?: boolean;
+}): Promise<TradeHistoryImportResult> {
+  return apiFetch<TradeHistoryImportResult>('/trades/import', { method: 'POST', body: JSON.stringify(payload) });
+}
+
+// Moves the trade to the trash
+// Tags and strategies catalog
+export type Tag = {
+  id: string;
+  name: string;
+  color?: string;
+  // Trades (outside the trash) carrying the tag
+  trades: number;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type Strategy = {
+  id: string;
+  name: string;
+  description?: string;
+  trades: number;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export async function getTags(): Promise<Tag[]> {
+  return apiFetch<Tag[]>('/tags');
+}
+
+export async function createTag(payload: { name: string; color?: string | null }): Promise<Tag> {
+  return apiFetch<Tag>('/tags', { method: 'POST', body: JSON.stringify(payload) });
+}
+
+export async function updateTag(id: string, payload: { name?: string; color?: string | null }): Promise<Tag> {
+  return apiFetch<Tag>(`/tags/${id}`, { method: 'PATCH', body: JSON.stringify(payload) });
+}
+
+export async function deleteTag(id: string): Promise<{ ok: true; trades: number }> {
+  return apiFetch<{ ok: true; trades: number }>(`/tags/${id}`, { method: 'DELETE', body: JSON.stringify({}) });
+}
+
+export async function getStrategies(): Promise<Strategy[]> {
+  return apiFetch<Strategy[]>('/strategies');
+}
+
+export async function createStrategy(payload: { name: string; description?: string | null }): Promise<Strategy> {
+  return apiFetch<Strategy>('/strategies', { method: 'POST', body: JSON.stringify(payload) });
+}
+
+export async function updateStrategy(id: string, payload: { name?: string; description?: string | null }): Promise<Strategy> {
+  return apiFetch<Strategy>(`/strategies/${id}`, { method: 'PATCH', body: JSON.stringify(payload) });
+}
+
+export async function deleteStrategy(id: string): Promise<{ ok: true; trades: number }> {
+  return apiFetch<{ ok: true; trades: number }>(`/strategies/${id}`, { method: 'DELETE', body: JSON.stringify({}) });
+}
+
 export async function deleteTrade(id: string): Promise<{ ok: true }> {
   return apiFetch<{ ok: true }>(`/trades/${id}`, { method: 'DELETE' });
 }
 
+export type TradeRevisionAction =
+  | 'create'
+  | 'import'
+  | 'edit'
+  | 'add-size'
+  | 'sell'
+  | 'funding'
+  | 'edit-entry'
+  | 'delete-entry'
+  | 'edit-close'
+  | 'delete-close'
+  | 'trash'
+  | 'restore'
+  | 'revert'
+  | 'cost-basis'
+  | 'exchange-sync'
+  | 'backup-restore';
+
+export type TradeFieldChange = { path: string; before: unknown; after: unknown };
+
+export type TradeRevision = {
+  id: string;
+  tradeId: string;
+  actorId?: string;
+  action: TradeRevisionAction;
+  route?: string;
+  changes: TradeFieldChange[];
+  revertedRevisionId?: string;
+  createdAt: string;
+};
+
+export async function getTradeHistory(id: string): Promise<{ items: TradeRevision[] }> {
+  return apiFetch<{ items: TradeRevision[] }>(`/trades/${id}/history`);
+}
+
+export async function revertTrade(id: string, revisionId: string): Promise<Trade> {
+  return apiFetch<Trade>(`/trades/${id}/revert`, { method: 'POST', body: JSON.stringify({ revisionId }) });
+}
+
+export type TrashedTrade = Trade & { deletedAt: string; purgeAt: string };
+
+export async function getTrash(): Promise<{ retentionDays: number; items: TrashedTrade[] }> {
+  return apiFetch<{ retentionDays: number; items: TrashedTrade[] }>('/trades/trash');
+}
+
+export async function restoreTrade(id: string): Promise<Trade> {
+  return apiFetch<Trade>(`/trades/${id}/restore`, { method: 'POST', body: JSON.stringify({}) });
+}
+
+export async function purgeTrade(id: string): Promise<{ ok: true }> {
+  return apiFetch<{ ok: true }>(`/trades/${id}/purge`, { method: 'DELETE', body: JSON.stringify({}) });
+}
+
+export async function emptyTrash(): Promise<{ ok: true; purged: number }> {
+  return apiFetch<{ ok: true; purged: number }>('/trades/trash', { method: 'DELETE', body: JSON.stringify({}) });
+}
+
 // Password reset helpers
 export async function forgotPasswordCookie(email: string): Promise<{ ok: true }> {
   return apiFetchCookie<{ ok: true }>(`/auth/forgot-password`, { method: 'POST', body: JSON.stringify({ email }) });
@@ -13,15 +13,18 @@ const apiEnvSchema = z.object({
   GOOGLE_CLIENT_ID: z.string().optional(),
   // Web base URL used to construct links sent in emails (e.g., password reset)
   WEB_BASE_URL: z.string().url().optional(),
-  // Email provider configuration (SES via SMTP)
-  EMAIL_PROVIDER: z.enum(['ses']).default('ses'),
+  // Where email goes: an SMTP server (`ses` is the same, for SES via SMTP), one JSON file per
+  // message in EMAIL_OUTBOX_DIR, or the console. The last two are for local development.
+  EMAIL_PROVIDER: z.enum(['smtp', 'ses', 'file', 'console']).default('smtp'),
+  EMAIL_OUTBOX_DIR: z.string().optional(),
   SES_SMTP_HOST: z.string().optional(),
   SES_SMTP_PORT: z.coerce.number().optional(),
   SES_SMTP_USER: z.string().optional(),
   SES_SMTP_PASS: z.string().optional(),
   EMAIL_FROM: z.string().email().optional(),
   EMAIL_FROM_NAME: z.string().optional(),
-  ASTERDEX_ENABLED: z
+  // Background sync of user exchange connections
+  EXCHANGE_SYNC_ENABLED: z
     .union([z.boolean(), z.string()])
     .optional()
     .transform((value) => {
@@ -33,27 +36,22 @@ const apiEnvSchema = z.object({
       return undefined;
     })
     .default(false),
+  EXCHANGE_SYNC_POLL_INTERVAL_MS: z.coerce.number().positive().optional(),
   ASTERDEX_BASE_URL: z.string().url().optional(),
   ASTERDEX_SPOT_BASE_URL: z.string().url().optional(),
-  ASTERDEX_POLL_INTERVAL_MS: z.coerce.number().positive().optional(),
-  ASTERDEX_USER_ID: z.string().optional(),
-  ASTERDEX_USER_ADDRESS: z
-    .string()
-    .regex(/^0x[a-fA-F0-9]{40}$/)
-    .optional(),
-  ASTERDEX_SIGNER_ADDRESS: z
-    .string()
-    .regex(/^0x[a-fA-F0-9]{40}$/)
-    .optional(),
-  ASTERDEX_SIGNER_PRIVATE_KEY: z
-    .string()
-    .regex(/^0x[a-fA-F0-9]{64}$/)
-    .optional(),
   ASTERDEX_RECV_WINDOW_MS: z
     .coerce.number()
     .positive()
     .max(60_000)
     .optional(),
+  // How long fetched mark prices are reused before asking the exchange again
+  MARK_PRICE_CACHE_TTL_MS: z.coerce.number().positive().optional(),
+  // Trashed trades are purged for good after this many days
+  TRASH_RETENTION_DAYS: z.coerce.number().positive().optional(),
+  // How often active trades are checked against mark prices for stop, target and liquidation alerts
+  ALERT_CHECK_INTERVAL_MS: z.coerce.number().positive().optional(),
+  // 32 byte key (hex or base64) used to encrypt exchange credentials stored in the database
+  CREDENTIALS_ENCRYPTION_KEY: z.string().optional(),
 });
 
 export type ApiEnv = z.infer<typeof apiEnvSchema>;